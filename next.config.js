@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Backend d'embeddings local (modules natifs ONNX, chargés à la demande)
+    serverComponentsExternalPackages: ["@huggingface/transformers", "onnxruntime-node"],
+  },
+};
 
 module.exports = nextConfig;
@@ -0,0 +1,102 @@
+// Service worker de SecouristIA : application utilisable sans réseau (poste de secours).
+// - pages : réseau d'abord, sinon la copie en cache (à défaut, la page d'accueil) ;
+//   la page de relecture des retours (/retours, protégée par jeton) n'est jamais mise en cache
+// - fichiers statiques de Next (/_next/static, noms versionnés), manifeste et icône : cache d'abord.
+//   Ceux de la page d'accueil sont mis en cache dès l'installation, et la page envoie ceux
+//   qu'elle a chargés avant que le service worker ne la contrôle (première visite) : un
+//   rechargement hors ligne dès la première visite retrouve le JavaScript de l'application.
+// La copie des fiches du mode hors ligne est gérée par la page, dans un cache séparé.
+
+const SHELL_CACHE = "secouristia-shell-v3";
+const STATIC_URLS = ["/manifest.webmanifest", "/icon.svg"];
+const UNCACHED_PAGES = ["/retours"];
+
+// Fichiers statiques de Next référencés par une page (scripts, feuilles de style, polices)
+const NEXT_STATIC_PATTERN = /\/_next\/static\/[^"'\s)\\]+/g;
+
+function isNextStatic(url) {
+  return url.origin === self.location.origin && url.pathname.startsWith("/_next/static/");
+}
+
+// Page d'accueil et fichiers statiques qu'elle charge
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch("/", { cache: "no-store" });
+  if (!response.ok) throw new Error(`Page d'accueil indisponible (${response.status})`);
+
+  const html = await response.clone().text();
+  const assets = Array.from(new Set(html.match(NEXT_STATIC_PATTERN) || []));
+  await cache.put("/", response);
+  await cache.addAll(STATIC_URLS);
+  // Un fichier introuvable ne bloque pas l'installation : il sera mis en cache à son chargement
+  await Promise.all(assets.map((asset) => cache.add(asset).catch(() => undefined)));
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+// Fichiers chargés par la page avant d'être contrôlée : { type: "cache-assets", urls: [...] }
+self.addEventListener("message", (event) => {
+  if (!event.data || event.data.type !== "cache-assets" || !Array.isArray(event.data.urls)) return;
+
+  const urls = event.data.urls
+    .map((href) => new URL(href, self.location.origin))
+    .filter(isNextStatic)
+    .map((url) => url.pathname + url.search);
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) =>
+      Promise.all(
+        urls.map((url) =>
+          cache.match(url).then((cached) => cached || cache.add(url).catch(() => undefined))
+        )
+      )
+    )
+  );
+});
+
+// Supprimer les caches des versions précédentes du service worker
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("secouristia-shell-") && key !== SHELL_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+function putInCache(request, response) {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    if (UNCACHED_PAGES.some((page) => url.pathname === page || url.pathname.startsWith(`${page}/`))) return;
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache(request, response))
+        .catch(() => caches.match(request).then((cached) => cached || caches.match("/")))
+    );
+    return;
+  }
+
+  if (isNextStatic(url) || STATIC_URLS.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response)))
+    );
+  }
+});
@@ -0,0 +1,301 @@
+import "dotenv/config";
+import { createClient } from "@supabase/supabase-js";
+import * as fs from "fs";
+import * as path from "path";
+import { createFakeProvider } from "../src/lib/embeddings";
+import { RETRIEVAL_CONFIG, RetrievalDeps, SearchFilters, searchDocuments } from "../src/lib/retrieval";
+import { chunkDocument, extractTextFromPDF } from "./lib/documents";
+import { createLocalStore, LocalDocument } from "./lib/local-store";
+
+// Évaluation de la recherche sur un jeu de questions annotées avec les fiches attendues.
+// Tourne hors ligne : stockage en mémoire + embedder factice, corpus construit depuis
+// documents/ ou depuis un instantané de la base (--export-corpus, une fois en ligne).
+// Compare recall@k, MRR et le rang de chaque question à la référence enregistrée.
+//
+// Un extrait est identifié par sa fiche (PSE, PSC) ou par sa section (SST, "section-4.1.3").
+// documents/ ne contient que les PDFs PSC et SST : les questions PSE ne sont évaluables
+// qu'avec un instantané de la base (--export-corpus), d'où leur absence du jeu actuel.
+//
+// Usage : npm run eval-retrieval -- [--k 6] [--save-baseline] [--corpus eval/corpus.json]
+//         npm run eval-retrieval -- --export-corpus
+
+const EVAL_DIR = path.join(process.cwd(), "eval");
+const DOCUMENTS_DIR = path.join(process.cwd(), "documents");
+const GOLDEN_SET_FILE = path.join(EVAL_DIR, "golden-set.json");
+const BASELINE_FILE = path.join(EVAL_DIR, "baseline.json");
+const DEFAULT_CORPUS_FILE = path.join(EVAL_DIR, "corpus.json");
+
+// Question annotée : query = requête reformulée (sinon la question elle-même) ;
+// expected = références de fiche ou clés de section attendues
+interface GoldenQuestion {
+  id: string;
+  question: string;
+  query?: string;
+  referential?: string;
+  filters?: Omit<SearchFilters, "source">;
+  expected: string[];
+}
+
+interface GoldenSet {
+  version: number;
+  questions: GoldenQuestion[];
+}
+
+interface QuestionResult {
+  id: string;
+  retrieved: (string | null)[];
+  rank: number | null;
+  recall: number;
+}
+
+interface Metrics {
+  recallAtK: number;
+  mrr: number;
+  hitRate: number;
+}
+
+interface Baseline {
+  goldenSetVersion: number;
+  k: number;
+  corpus: string;
+  metrics: Metrics;
+  results: Record<string, { rank: number | null; recall: number }>;
+}
+
+function parseArgs(argv: string[]) {
+  const args = {
+    k: RETRIEVAL_CONFIG.maxResults,
+    saveBaseline: false,
+    exportCorpus: false,
+    corpus: fs.existsSync(DEFAULT_CORPUS_FILE) ? DEFAULT_CORPUS_FILE : null as string | null,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--k") {
+      args.k = Number(argv[++i]) || RETRIEVAL_CONFIG.maxResults;
+    } else if (argv[i] === "--save-baseline") {
+      args.saveBaseline = true;
+    } else if (argv[i] === "--export-corpus") {
+      args.exportCorpus = true;
+    } else if (argv[i] === "--corpus") {
+      args.corpus = argv[++i];
+    }
+  }
+
+  return args;
+}
+
+// Instantané des éditions courantes de la base (pagination Supabase par 1000)
+async function exportCorpus(file: string) {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_KEY) {
+    console.error("❌ Variables SUPABASE_URL et SUPABASE_KEY requises");
+    process.exit(1);
+  }
+
+  const supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_KEY);
+  const documents: LocalDocument[] = [];
+  const pageSize = 1000;
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from("documents")
+      .select("id, content, source, fiche_ref, chunk_key, chapter, fiche_type, pse_level")
+      .eq("is_current", true)
+      .order("id")
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      console.error("❌ Lecture des documents impossible:", error.message);
+      process.exit(1);
+    }
+    documents.push(...(data || []));
+    if (!data || data.length < pageSize) break;
+  }
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(documents));
+  console.log(`💾 ${documents.length} documents exportés dans ${path.relative(process.cwd(), file)}`);
+}
+
+// Corpus local : instantané exporté, ou découpage des PDFs comme à l'import
+async function loadCorpus(corpusFile: string | null): Promise<LocalDocument[]> {
+  if (corpusFile) {
+    console.log(`📦 Corpus : ${path.relative(process.cwd(), corpusFile)}`);
+    return JSON.parse(fs.readFileSync(corpusFile, "utf-8"));
+  }
+
+  console.log("📦 Corpus : PDFs de documents/");
+  const documents: LocalDocument[] = [];
+  const files = fs.readdirSync(DOCUMENTS_DIR).filter((f) => f.endsWith(".pdf")).sort();
+
+  for (const file of files) {
+    const text = await extractTextFromPDF(path.join(DOCUMENTS_DIR, file));
+    for (const chunk of chunkDocument(file, text)) {
+      documents.push({
+        id: documents.length + 1,
+        content: chunk.content,
+        source: file,
+        fiche_ref: (chunk.metadata.fiche_ref as string | undefined) ?? null,
+        chunk_key: chunk.chunkKey,
+        chapter: (chunk.metadata.chapter as string | undefined) ?? null,
+        fiche_type: (chunk.metadata.fiche_type as string | undefined) ?? null,
+        pse_level: (chunk.metadata.pse_level as number | undefined) ?? null,
+      });
+    }
+  }
+
+  return documents;
+}
+
+// Référence de fiche, sinon clé de section ; les extraits découpés par taille n'en ont pas
+function documentLabel(doc: LocalDocument): string | null {
+  if (doc.fiche_ref) return doc.fiche_ref;
+  return doc.chunk_key?.startsWith("section-") ? doc.chunk_key : null;
+}
+
+async function evaluateQuestion(
+  question: GoldenQuestion,
+  deps: RetrievalDeps,
+  labels: Map<number, string | null>
+): Promise<QuestionResult> {
+  const documents = await searchDocuments(
+    question.query || question.question,
+    question.question,
+    { ...question.filters, source: question.referential },
+    deps
+  );
+  const retrieved = documents.map((doc) => labels.get(doc.id) ?? null);
+  const index = retrieved.findIndex((ref) => ref !== null && question.expected.includes(ref));
+  const found = question.expected.filter((ref) => retrieved.includes(ref));
+
+  return {
+    id: question.id,
+    retrieved,
+    rank: index === -1 ? null : index + 1,
+    recall: found.length / question.expected.length,
+  };
+}
+
+function computeMetrics(results: QuestionResult[]): Metrics {
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+  return {
+    recallAtK: mean(results.map((r) => r.recall)),
+    mrr: mean(results.map((r) => (r.rank ? 1 / r.rank : 0))),
+    hitRate: mean(results.map((r) => (r.rank ? 1 : 0))),
+  };
+}
+
+// Rang moins bon ou rappel en baisse par rapport à la référence
+function isRegression(result: QuestionResult, previous: { rank: number | null; recall: number }): boolean {
+  if (result.recall < previous.recall) return true;
+  if (previous.rank === null) return false;
+  return result.rank === null || result.rank > previous.rank;
+}
+
+function isImprovement(result: QuestionResult, previous: { rank: number | null; recall: number }): boolean {
+  if (result.recall > previous.recall) return true;
+  if (result.rank === null) return false;
+  return previous.rank === null || result.rank < previous.rank;
+}
+
+function formatDelta(current: number, previous: number | undefined): string {
+  if (previous === undefined) return "";
+  const delta = current - previous;
+  if (Math.abs(delta) < 0.0005) return " (=)";
+  return ` (${delta > 0 ? "+" : ""}${delta.toFixed(3)})`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.exportCorpus) {
+    await exportCorpus(args.corpus || DEFAULT_CORPUS_FILE);
+    return;
+  }
+
+  console.log("🧪 Évaluation de la recherche\n");
+
+  const goldenSet: GoldenSet = JSON.parse(fs.readFileSync(GOLDEN_SET_FILE, "utf-8"));
+  const baseline: Baseline | null = fs.existsSync(BASELINE_FILE)
+    ? JSON.parse(fs.readFileSync(BASELINE_FILE, "utf-8"))
+    : null;
+
+  const corpus = await loadCorpus(args.corpus);
+  const embedder = createFakeProvider();
+  console.log(`📚 ${corpus.length} documents, embedder ${embedder.model}`);
+  console.log(`❓ ${goldenSet.questions.length} questions (jeu v${goldenSet.version}), k = ${args.k}\n`);
+
+  const deps: RetrievalDeps = {
+    store: await createLocalStore(corpus, embedder),
+    embedder,
+    config: { ...RETRIEVAL_CONFIG, maxResults: args.k },
+  };
+
+  const labels = new Map(corpus.map((doc) => [doc.id, documentLabel(doc)]));
+  const corpusLabel = args.corpus ? path.basename(args.corpus) : "documents/";
+  const comparable =
+    baseline &&
+    baseline.goldenSetVersion === goldenSet.version &&
+    baseline.k === args.k &&
+    baseline.corpus === corpusLabel
+      ? baseline
+      : null;
+  if (baseline && !comparable) {
+    console.log(
+      `⚠️  Référence non comparable (jeu v${baseline.goldenSetVersion}, k = ${baseline.k}, corpus ${baseline.corpus}) : ` +
+        "enregistrez-en une nouvelle avec --save-baseline\n"
+    );
+  }
+
+  const results: QuestionResult[] = [];
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+
+  for (const question of goldenSet.questions) {
+    const result = await evaluateQuestion(question, deps, labels);
+    results.push(result);
+
+    const previous = comparable?.results[question.id];
+    let status = "";
+    if (previous && isRegression(result, previous)) {
+      regressions.push(question.id);
+      status = `  🔻 régression (rang ${previous.rank ?? "-"} → ${result.rank ?? "-"})`;
+    } else if (previous && isImprovement(result, previous)) {
+      improvements.push(question.id);
+      status = `  🔺 amélioration (rang ${previous.rank ?? "-"} → ${result.rank ?? "-"})`;
+    }
+
+    const icon = result.rank ? "✅" : "❌";
+    const retrieved = result.retrieved.map((ref) => ref || "·").join(" ");
+    console.log(`${icon} ${question.id.padEnd(30)} rang ${String(result.rank ?? "-").padStart(2)}  rappel ${result.recall.toFixed(2)}  [${retrieved}]${status}`);
+  }
+
+  const metrics = computeMetrics(results);
+  const previousMetrics = comparable?.metrics;
+  console.log(`\n📊 recall@${args.k}: ${metrics.recallAtK.toFixed(3)}${formatDelta(metrics.recallAtK, previousMetrics?.recallAtK)}`);
+  console.log(`📊 MRR:       ${metrics.mrr.toFixed(3)}${formatDelta(metrics.mrr, previousMetrics?.mrr)}`);
+  console.log(`📊 hit@${args.k}:     ${metrics.hitRate.toFixed(3)}${formatDelta(metrics.hitRate, previousMetrics?.hitRate)}`);
+
+  if (comparable) {
+    console.log(`\n🔺 ${improvements.length} améliorations, 🔻 ${regressions.length} régressions`);
+  }
+
+  if (args.saveBaseline) {
+    const saved: Baseline = {
+      goldenSetVersion: goldenSet.version,
+      k: args.k,
+      corpus: corpusLabel,
+      metrics,
+      results: Object.fromEntries(results.map((r) => [r.id, { rank: r.rank, recall: r.recall }])),
+    };
+    fs.writeFileSync(BASELINE_FILE, JSON.stringify(saved, null, 2) + "\n");
+    console.log(`\n💾 Référence enregistrée dans ${path.relative(process.cwd(), BASELINE_FILE)}`);
+  } else if (regressions.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((err) => {
+  console.error("❌", err);
+  process.exit(1);
+});
@@ -1,56 +1,61 @@
 import "dotenv/config";
 import { createClient } from "@supabase/supabase-js";
-import pdfParse from "pdf-parse";
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
+import { createEmbeddingProvider } from "../src/lib/embeddings";
+import {
+  createProviderForModel,
+  deleteOtherModelEmbeddings,
+  getActiveEmbeddingModel,
+  registerEmbeddingModel,
+  saveDocumentEmbeddings,
+} from "../src/lib/embedding-models";
+import {
+  Checkpoint,
+  createCheckpoint,
+  createProgress,
+  runWithConcurrency,
+  toBatches,
+  withRetry,
+} from "./lib/embedding-pipeline";
+import { chunkDocument, DocumentChunk, detectReferential, extractTextFromPDF } from "./lib/documents";
 
 // Configuration
-const CHUNK_SIZE = 500;
-const CHUNK_OVERLAP = 100;
 const DOCUMENTS_DIR = path.join(process.cwd(), "documents");
+const CHECKPOINT_FILE = path.join(process.cwd(), ".import-checkpoint.json");
+const DEFAULT_BATCH_SIZE = 16;
+const DEFAULT_CONCURRENCY = 3;
+
+// Ligne existante en base pour une source
+interface ExistingRow {
+  id: number;
+  chunk_key: string | null;
+  content_hash: string | null;
+  update_date: string | null;
+}
+
+// Bilan d'une synchronisation
+interface SyncSummary {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: number;
+  errors: number;
+}
 
-// Pattern pour détecter les fiches PSE : [07PR13 / 09-2019] PSE②
-const PSE_FICHE_PATTERN = /\[(\d{2})(AC|PR|FT)(\d+)\s*\/\s*(\d{2})-(\d{4})\]/g;
-
-// Noms des chapitres PSE
-const CHAPTER_NAMES: Record<string, string> = {
-  "01": "Attitude et comportement",
-  "02": "Bilans",
-  "03": "Protection et sécurité",
-  "04": "Hygiène et asepsie",
-  "05": "Urgences vitales",
-  "06": "Malaises et affections",
-  "07": "Atteintes circonstancielles",
-  "08": "Traumatismes",
-  "09": "Souffrance psychique",
-  "10": "Relevage et brancardage",
-  "11": "Situations à nombreuses victimes",
-  "12": "Divers",
-};
-
-// Types de fiches PSE
-const FICHE_TYPES: Record<string, string> = {
-  AC: "Apport de Connaissances",
-  PR: "Procédure",
-  FT: "Fiche Technique",
-};
-
-// Interface pour les métadonnées d'une fiche PSE
-interface PSEFiche {
-  content: string;
-  chapter: string;
-  chapterName: string;
-  ficheType: string;
-  ficheTypeName: string;
-  ficheRef: string;
-  ficheNumber: string;
-  updateDate: string;
-  pseLevel: number | null;
+interface ImportOptions {
+  dryRun: boolean;
+  batchSize: number;
+  concurrency: number;
 }
 
-// Utiliser BAAI/bge-small-en-v1.5 qui est optimisé pour les embeddings (384 dim)
-const HF_API_URL =
-  "https://router.huggingface.co/hf-inference/models/BAAI/bge-small-en-v1.5";
+// Chunk à embedder puis écrire en base
+interface PendingWrite {
+  chunk: DocumentChunk;
+  hash: string;
+  existingId?: number;
+}
 
 // Client Supabase
 const supabase = createClient(
@@ -58,342 +63,410 @@ const supabase = createClient(
   process.env.SUPABASE_KEY!
 );
 
-// Générer l'embedding via Hugging Face API
+// Fournisseur d'embeddings (EMBEDDING_PROVIDER), pour le modèle actif en base
+// ou, à la première installation, pour EMBEDDING_MODEL
+let embeddingProvider = createEmbeddingProvider();
+
+// Point de reprise local (créé une fois le modèle connu)
+let checkpoint: Checkpoint;
+
 async function generateEmbedding(text: string): Promise<number[]> {
-  const response = await fetch(HF_API_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${process.env.HUGGINGFACE_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      inputs: text,
-      options: { wait_for_model: true },
-    }),
-  });
+  const [embedding] = await embeddingProvider.embed([text]);
+  return embedding;
+}
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Hugging Face API error: ${error}`);
-  }
+// Clé d'un chunk dans une édition donnée (ex: 07PR13@09-2019)
+function editionKey(chunkKey: string, updateDate: string | number | null | undefined): string {
+  return updateDate ? `${chunkKey}@${updateDate}` : chunkKey;
+}
 
-  const result = await response.json();
-
-  // L'API retourne [[...embedding...]] pour feature-extraction
-  let embedding: number[];
-  if (Array.isArray(result) && Array.isArray(result[0])) {
-    // Si c'est un tableau de tableaux, moyenne des token embeddings
-    if (Array.isArray(result[0][0])) {
-      // Format: [[[token1], [token2], ...]] -> moyenne
-      const tokens = result[0];
-      const dim = tokens[0].length;
-      embedding = new Array(dim).fill(0);
-      for (const token of tokens) {
-        for (let i = 0; i < dim; i++) {
-          embedding[i] += token[i];
-        }
-      }
-      for (let i = 0; i < dim; i++) {
-        embedding[i] /= tokens.length;
-      }
-    } else {
-      // Format: [[embedding]]
-      embedding = result[0];
+// Empreinte du contenu et des métadonnées d'un chunk
+function hashChunk(chunk: DocumentChunk): string {
+  return crypto
+    .createHash("sha256")
+    .update(chunk.content)
+    .update(JSON.stringify(chunk.metadata))
+    .digest("hex");
+}
+
+// Lire toutes les lignes existantes d'une source (pagination Supabase par 1000)
+async function fetchExistingRows(source: string): Promise<ExistingRow[]> {
+  const rows: ExistingRow[] = [];
+  const pageSize = 1000;
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from("documents")
+      .select("id, chunk_key, content_hash, update_date")
+      .eq("source", source)
+      .order("id")
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      throw new Error(`Lecture des documents existants impossible: ${error.message}`);
     }
-  } else {
-    embedding = result;
+    rows.push(...(data || []));
+    if (!data || data.length < pageSize) break;
   }
 
-  return embedding;
+  return rows;
 }
 
-// Découper le texte en chunks avec chevauchement (fallback pour documents non-PSE)
-function splitIntoChunks(text: string): string[] {
-  const chunks: string[] = [];
-  let start = 0;
+// Embeddings d'un lot : réutilise ceux du point de reprise, calcule les autres en un appel
+async function embedBatch(batch: PendingWrite[]): Promise<number[][]> {
+  const missing = batch.filter((item) => !checkpoint.get(item.hash));
 
-  const cleanedText = text
-    .replace(/\r\n/g, "\n")
-    .replace(/\n{3,}/g, "\n\n")
-    .replace(/\s+/g, " ")
-    .trim();
+  if (missing.length > 0) {
+    const embeddings = await withRetry(() =>
+      embeddingProvider.embed(missing.map((item) => item.chunk.content))
+    );
+    missing.forEach((item, i) => checkpoint.set(item.hash, embeddings[i]));
+    checkpoint.save();
+  }
 
-  while (start < cleanedText.length) {
-    let end = start + CHUNK_SIZE;
+  return batch.map((item) => checkpoint.get(item.hash)!);
+}
 
-    if (end < cleanedText.length) {
-      const lastPeriod = cleanedText.lastIndexOf(".", end);
-      const lastNewline = cleanedText.lastIndexOf("\n", end);
-      const breakPoint = Math.max(lastPeriod, lastNewline);
+// Insérer ou mettre à jour un chunk et son embedding pour le modèle courant.
+// L'empreinte n'est écrite qu'avec un embedding à jour : une interruption entre les deux
+// laisse le chunk « modifié » ou sans embedding, repris à l'exécution suivante.
+// Seul l'enregistrement de l'embedding (upsert) est réessayé : une insertion réessayée
+// après une réponse perdue créerait une ligne en double.
+async function writeChunk(source: string, item: PendingWrite, embedding: number[]) {
+  const row = {
+    content: item.chunk.content,
+    source,
+    chunk_key: item.chunk.chunkKey,
+    content_hash: item.hash,
+    referential: detectReferential(source),
+    ...item.chunk.metadata,
+  };
+
+  if (item.existingId) {
+    const documentId = item.existingId;
+    await withRetry(() => saveDocumentEmbeddings(supabase, embeddingProvider.model, [{ documentId, embedding }]));
+    // Les vecteurs des autres modèles décrivent l'ancien contenu
+    await withRetry(() => deleteOtherModelEmbeddings(supabase, documentId, embeddingProvider.model));
+    const { error } = await supabase.from("documents").update(row).eq("id", documentId);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return;
+  }
 
-      if (breakPoint > start + CHUNK_SIZE / 2) {
-        end = breakPoint + 1;
-      }
+  const { data, error } = await supabase.from("documents").insert(row).select("id").single();
+  if (error) {
+    throw new Error(error.message);
+  }
+  // Ligne insérée : en cas d'échec, l'embedding manquant est complété en fin d'import
+  await withRetry(() =>
+    saveDocumentEmbeddings(supabase, embeddingProvider.model, [{ documentId: data.id, embedding }])
+  );
+}
+
+// Synchroniser les chunks d'une source : ajout, mise à jour, suppression des lignes obsolètes.
+// Les chunks inchangés (même empreinte) ne sont pas ré-embeddés.
+async function syncChunks(
+  source: string,
+  chunks: DocumentChunk[],
+  options: ImportOptions
+): Promise<SyncSummary> {
+  const summary: SyncSummary = { added: [], changed: [], removed: [], unchanged: 0, errors: 0 };
+
+  const existingRows = await fetchExistingRows(source);
+  const existingByKey = new Map<string, ExistingRow>();
+  const staleIds: number[] = [];
+
+  for (const row of existingRows) {
+    const key = row.chunk_key && editionKey(row.chunk_key, row.update_date);
+    // Lignes sans clé (ancien import) ou en double : obsolètes
+    if (!key || existingByKey.has(key)) {
+      staleIds.push(row.id);
+      summary.removed.push(row.chunk_key || `#${row.id}`);
+    } else {
+      existingByKey.set(key, row);
+    }
+  }
+
+  // Une ligne absente du document est obsolète, sauf si c'est une autre édition
+  // d'un chunk toujours présent : elle est conservée comme historique.
+  const parsedKeys = new Set(chunks.map((chunk) => editionKey(chunk.chunkKey, chunk.metadata.update_date)));
+  const parsedChunkKeys = new Set(chunks.map((chunk) => chunk.chunkKey));
+  existingByKey.forEach((row, key) => {
+    if (!parsedKeys.has(key) && !parsedChunkKeys.has(row.chunk_key!)) {
+      staleIds.push(row.id);
+      summary.removed.push(key);
     }
+  });
 
-    const chunk = cleanedText.slice(start, end).trim();
-    if (chunk.length > 50) {
-      chunks.push(chunk);
+  const toWrite: PendingWrite[] = [];
+  for (const chunk of chunks) {
+    const hash = hashChunk(chunk);
+    const key = editionKey(chunk.chunkKey, chunk.metadata.update_date);
+    const existing = existingByKey.get(key);
+
+    if (!existing) {
+      summary.added.push(key);
+      toWrite.push({ chunk, hash });
+    } else if (existing.content_hash !== hash) {
+      summary.changed.push(key);
+      toWrite.push({ chunk, hash, existingId: existing.id });
+    } else {
+      summary.unchanged++;
     }
+  }
 
-    start = end - CHUNK_OVERLAP;
+  if (options.dryRun) {
+    return summary;
   }
 
-  return chunks;
-}
+  // Écrire les chunks nouveaux ou modifiés : lots embeddés en un appel, lots en parallèle
+  const progress = createProgress("📤 Import", toWrite.length);
+  await runWithConcurrency(toBatches(toWrite, options.batchSize), options.concurrency, async (batch) => {
+    try {
+      const embeddings = await embedBatch(batch);
+      for (let i = 0; i < batch.length; i++) {
+        try {
+          await writeChunk(source, batch[i], embeddings[i]);
+        } catch (err) {
+          console.error(`\n  ❌ Erreur chunk [${batch[i].chunk.chunkKey}]:`, err);
+          summary.errors++;
+        }
+      }
+    } catch (err) {
+      console.error(`\n  ❌ Erreur embedding du lot [${batch[0].chunk.chunkKey}...]:`, err);
+      summary.errors += batch.length;
+    }
+    progress.tick(batch.length, batch[batch.length - 1].chunk.chunkKey);
+  });
+  progress.finish();
+
+  // Supprimer les lignes obsolètes (leurs embeddings suivent par cascade)
+  for (let i = 0; i < staleIds.length; i += 100) {
+    const { error } = await supabase.from("documents").delete().in("id", staleIds.slice(i, i + 100));
+    if (error) {
+      console.error("  ❌ Erreur suppression:", error.message);
+      summary.errors++;
+    }
+  }
 
-// Détecter le niveau PSE (PSE① ou PSE②) dans le texte
-function detectPSELevel(text: string): number | null {
-  // Cherche PSE① ou PSE1 ou PSE ①
-  if (/PSE\s*[①1]/i.test(text)) return 1;
-  // Cherche PSE② ou PSE2 ou PSE ②
-  if (/PSE\s*[②2]/i.test(text)) return 2;
-  return null;
+  return summary;
 }
 
-// Découper le texte PSE en fiches complètes avec métadonnées
-function splitIntoPSEFiches(text: string): PSEFiche[] {
-  const fiches: PSEFiche[] = [];
+// Sources présentes en base (pagination Supabase par 1000)
+async function fetchSources(): Promise<Set<string>> {
+  const sources = new Set<string>();
+  const pageSize = 1000;
 
-  // Nettoyer le texte en préservant les sauts de ligne significatifs
-  const cleanedText = text
-    .replace(/\r\n/g, "\n")
-    .replace(/\n{4,}/g, "\n\n\n") // Limite à 3 sauts de ligne max
-    .trim();
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from("documents")
+      .select("source")
+      .order("id")
+      .range(from, from + pageSize - 1);
 
-  // Trouver toutes les positions des patterns de fiches
-  const matches: { index: number; match: RegExpMatchArray }[] = [];
-  const regex = new RegExp(PSE_FICHE_PATTERN.source, "g");
-  let match;
-
-  while ((match = regex.exec(cleanedText)) !== null) {
-    matches.push({ index: match.index, match });
-  }
-
-  console.log(`    📋 ${matches.length} fiches PSE détectées`);
-
-  // Extraire chaque fiche avec son contenu complet
-  for (let i = 0; i < matches.length; i++) {
-    const currentMatch = matches[i];
-    const nextMatch = matches[i + 1];
-
-    // Le contenu de la fiche va du début du pattern jusqu'au début du suivant
-    const startIndex = currentMatch.index;
-    const endIndex = nextMatch ? nextMatch.index : cleanedText.length;
-
-    let ficheContent = cleanedText.slice(startIndex, endIndex).trim();
-
-    // Extraire les métadonnées depuis le match
-    const [fullMatch, chapter, ficheType, ficheNumber, month, year] = currentMatch.match;
-    const ficheRef = `${chapter}${ficheType}${ficheNumber}`;
-
-    // Détecter le niveau PSE dans les 200 premiers caractères de la fiche
-    const pseLevel = detectPSELevel(ficheContent.slice(0, 200));
-
-    // Nettoyer le contenu : normaliser les espaces multiples mais garder la structure
-    ficheContent = ficheContent
-      .replace(/\s{3,}/g, "  ") // Max 2 espaces consécutifs
-      .replace(/\n\s*\n\s*\n/g, "\n\n") // Max 2 sauts de ligne
-      .trim();
-
-    const fiche: PSEFiche = {
-      content: ficheContent,
-      chapter,
-      chapterName: CHAPTER_NAMES[chapter] || `Chapitre ${chapter}`,
-      ficheType,
-      ficheTypeName: FICHE_TYPES[ficheType] || ficheType,
-      ficheRef,
-      ficheNumber,
-      updateDate: `${month}-${year}`,
-      pseLevel,
-    };
-
-    fiches.push(fiche);
-
-    // Log de debug pour les fiches très longues ou très courtes
-    if (ficheContent.length > 5000) {
-      console.log(`    ⚠️  Fiche [${ficheRef}] très longue: ${ficheContent.length} caractères`);
-    } else if (ficheContent.length < 100) {
-      console.log(`    ⚠️  Fiche [${ficheRef}] très courte: ${ficheContent.length} caractères`);
+    if (error) {
+      throw new Error(`Lecture des sources impossible: ${error.message}`);
     }
+    (data || []).forEach((row) => sources.add(row.source));
+    if (!data || data.length < pageSize) break;
   }
 
-  return fiches;
+  return sources;
 }
 
-// Vérifier si un fichier est un document PSE
-function isPSEDocument(fileName: string): boolean {
-  return fileName.toLowerCase().includes("pse");
-}
+// Supprimer les lignes des documents retirés du dossier documents/ (embeddings par cascade)
+async function removeDeletedSources(fileNames: string[], options: ImportOptions): Promise<SyncSummary> {
+  const summary: SyncSummary = { added: [], changed: [], removed: [], unchanged: 0, errors: 0 };
+  const present = new Set(fileNames);
 
-// Extraire le texte d'un PDF
-async function extractTextFromPDF(filePath: string): Promise<string> {
-  const dataBuffer = fs.readFileSync(filePath);
-  const data = await pdfParse(dataBuffer);
-  return data.text;
-}
+  for (const source of Array.from(await fetchSources())) {
+    if (present.has(source)) continue;
 
-// Importer un document PSE avec chunking intelligent par fiche
-async function importPSEDocument(filePath: string) {
-  const fileName = path.basename(filePath);
-  console.log(`\n📄 Traitement PSE: ${fileName}`);
+    const keys = (await fetchExistingRows(source)).map((row) => `${source} ${row.chunk_key || `#${row.id}`}`);
+    if (options.dryRun) {
+      summary.removed.push(...keys);
+      continue;
+    }
+    const { error } = await supabase.from("documents").delete().eq("source", source);
+    if (error) {
+      console.error(`  ❌ Erreur suppression de ${source}:`, error.message);
+      summary.errors++;
+    } else {
+      summary.removed.push(...keys);
+    }
+  }
 
-  // Extraire le texte
-  console.log("  📖 Extraction du texte...");
-  const text = await extractTextFromPDF(filePath);
-  console.log(`  📝 ${text.length} caractères extraits`);
+  return summary;
+}
 
-  // Découper en fiches complètes
-  const fiches = splitIntoPSEFiches(text);
-  console.log(`  ✂️  ${fiches.length} fiches PSE extraites`);
+// Embedder les documents restés sans vecteur pour le modèle courant (import interrompu)
+async function repairMissingEmbeddings(options: ImportOptions): Promise<number> {
+  let repaired = 0;
+
+  while (true) {
+    const { data: pending, error } = await supabase.rpc("documents_missing_embedding", {
+      model_name: embeddingProvider.model,
+      max_rows: options.batchSize,
+    });
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!pending || pending.length === 0) break;
 
-  // Statistiques par chapitre
-  const chaptersStats: Record<string, number> = {};
-  for (const fiche of fiches) {
-    chaptersStats[fiche.chapter] = (chaptersStats[fiche.chapter] || 0) + 1;
-  }
-  console.log("  📊 Répartition par chapitre:");
-  for (const [ch, count] of Object.entries(chaptersStats).sort()) {
-    console.log(`      ${ch}: ${count} fiches (${CHAPTER_NAMES[ch] || "?"})`);
+    const embeddings = await withRetry(() =>
+      embeddingProvider.embed(pending.map((doc: { content: string }) => doc.content))
+    );
+    await withRetry(() =>
+      saveDocumentEmbeddings(
+        supabase,
+        embeddingProvider.model,
+        pending.map((doc: { id: number }, i: number) => ({ documentId: doc.id, embedding: embeddings[i] }))
+      )
+    );
+    repaired += pending.length;
   }
 
-  // Traiter chaque fiche
-  let imported = 0;
-  let errors = 0;
-
-  for (let i = 0; i < fiches.length; i++) {
-    const fiche = fiches[i];
+  return repaired;
+}
 
-    try {
-      // Générer l'embedding via Hugging Face
-      const embedding = await generateEmbedding(fiche.content);
-
-      // Insérer dans Supabase avec les métadonnées PSE
-      const { error } = await supabase.from("documents").insert({
-        content: fiche.content,
-        source: fileName,
-        embedding,
-        // Métadonnées PSE
-        chapter: fiche.chapter,
-        chapter_name: fiche.chapterName,
-        fiche_type: fiche.ficheType,
-        fiche_type_name: fiche.ficheTypeName,
-        fiche_ref: fiche.ficheRef,
-        pse_level: fiche.pseLevel,
-        update_date: fiche.updateDate,
-      });
-
-      if (error) {
-        console.error(`\n  ❌ Erreur fiche [${fiche.ficheRef}]:`, error.message);
-        errors++;
-      } else {
-        imported++;
-        process.stdout.write(
-          `\r  📤 Import: ${imported}/${fiches.length} [${fiche.ficheRef}]`
-        );
-      }
+// Afficher le bilan d'une synchronisation
+function printSummary(summary: SyncSummary, options: ImportOptions) {
+  const prefix = options.dryRun ? "  🔎 [dry-run]" : "  ✅";
+  console.log(
+    `${prefix} ${summary.added.length} ajoutés, ${summary.changed.length} modifiés, ` +
+      `${summary.removed.length} supprimés, ${summary.unchanged} inchangés, ${summary.errors} erreurs`
+  );
+
+  const preview = (label: string, keys: string[]) => {
+    if (keys.length === 0) return;
+    const shown = keys.slice(0, 20).join(", ");
+    console.log(`      ${label}: ${shown}${keys.length > 20 ? `, ... (+${keys.length - 20})` : ""}`);
+  };
+  preview("➕ ajoutés", summary.added);
+  preview("✏️  modifiés", summary.changed);
+  preview("➖ supprimés", summary.removed);
+}
 
-      // Délai pour éviter le rate limiting HF
-      await new Promise((r) => setTimeout(r, 200));
-    } catch (err) {
-      console.error(`\n  ❌ Erreur fiche [${fiche.ficheRef}]:`, err);
-      errors++;
-      await new Promise((r) => setTimeout(r, 3000));
-    }
+// Répartition des chunks par chapitre (fiches PSE et PSC, sections SST)
+function printChapterStats(chunks: DocumentChunk[]) {
+  const chaptersStats: Record<string, { name: string; count: number }> = {};
+  for (const chunk of chunks) {
+    const chapter = chunk.metadata.chapter as string | undefined;
+    if (!chapter) continue;
+    chaptersStats[chapter] ??= { name: String(chunk.metadata.chapter_name ?? "?"), count: 0 };
+    chaptersStats[chapter].count++;
   }
 
-  console.log(`\n  ✅ ${imported} fiches importées, ${errors} erreurs`);
+  if (Object.keys(chaptersStats).length === 0) return;
+  console.log("  📊 Répartition par chapitre:");
+  for (const [ch, { name, count }] of Object.entries(chaptersStats).sort()) {
+    console.log(`      ${ch}: ${count} chunks (${name})`);
+  }
 }
 
-// Importer un document standard (non-PSE) avec chunking classique
-async function importStandardDocument(filePath: string) {
+// Importer un document : par fiche (PSE, PSC), par section (SST) ou par chunks classiques
+async function importDocument(filePath: string, options: ImportOptions): Promise<SyncSummary> {
   const fileName = path.basename(filePath);
-  console.log(`\n📄 Traitement standard: ${fileName}`);
+  console.log(`\n📄 Traitement ${detectReferential(fileName) || "standard"}: ${fileName}`);
 
   // Extraire le texte
   console.log("  📖 Extraction du texte...");
   const text = await extractTextFromPDF(filePath);
   console.log(`  📝 ${text.length} caractères extraits`);
 
-  // Découper en chunks classiques
-  const chunks = splitIntoChunks(text);
+  // Découper selon la structure du référentiel
+  const chunks = chunkDocument(fileName, text);
   console.log(`  ✂️  ${chunks.length} chunks créés`);
+  printChapterStats(chunks);
 
-  // Traiter chaque chunk
-  let imported = 0;
-  let errors = 0;
-
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-
-    try {
-      // Générer l'embedding via Hugging Face
-      const embedding = await generateEmbedding(chunk);
-
-      // Insérer dans Supabase
-      const { error } = await supabase.from("documents").insert({
-        content: chunk,
-        source: fileName,
-        embedding,
-      });
-
-      if (error) {
-        console.error(`\n  ❌ Erreur chunk ${i + 1}:`, error.message);
-        errors++;
-      } else {
-        imported++;
-        process.stdout.write(`\r  📤 Import: ${imported}/${chunks.length}`);
-      }
+  const summary = await syncChunks(fileName, chunks, options);
+  printSummary(summary, options);
+  return summary;
+}
 
-      // Délai pour éviter le rate limiting HF
-      await new Promise((r) => setTimeout(r, 200));
-    } catch (err) {
-      console.error(`\n  ❌ Erreur chunk ${i + 1}:`, err);
-      errors++;
-      await new Promise((r) => setTimeout(r, 3000));
+// Arguments : [filtre] [--dry-run] [--batch-size N] [--concurrency N]
+function parseArgs(argv: string[]) {
+  const options: ImportOptions = {
+    dryRun: false,
+    batchSize: DEFAULT_BATCH_SIZE,
+    concurrency: DEFAULT_CONCURRENCY,
+  };
+  let filter: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--dry-run") {
+      options.dryRun = true;
+    } else if (argv[i] === "--batch-size") {
+      options.batchSize = Number(argv[++i]) || DEFAULT_BATCH_SIZE;
+    } else if (argv[i] === "--concurrency") {
+      options.concurrency = Number(argv[++i]) || DEFAULT_CONCURRENCY;
+    } else if (!argv[i].startsWith("--")) {
+      filter = argv[i];
     }
   }
 
-  console.log(`\n  ✅ ${imported} chunks importés, ${errors} erreurs`);
-}
-
-// Importer un document (dispatch vers PSE ou standard)
-async function importDocument(filePath: string) {
-  const fileName = path.basename(filePath);
-
-  if (isPSEDocument(fileName)) {
-    await importPSEDocument(filePath);
-  } else {
-    await importStandardDocument(filePath);
-  }
+  return { filter, options };
 }
 
 // Fonction principale
 async function main() {
-  console.log("🚀 Démarrage de l'import des documents SecouristIA\n");
-  console.log("📡 Utilisation de l'API Hugging Face (BAAI/bge-small-en-v1.5)\n");
+  console.log("🚀 Synchronisation des documents SecouristIA\n");
 
-  // Récupérer le filtre optionnel depuis les arguments
-  const filterArg = process.argv[2]; // ex: "PSE" ou "PSC" ou "SST"
+  // Filtre optionnel (ex: "PSE" ou "PSC" ou "SST"), mode simulation et réglages des lots
+  const { filter: filterArg, options } = parseArgs(process.argv.slice(2));
+  const { dryRun } = options;
 
   // Vérifier les variables d'environnement
   if (!process.env.SUPABASE_URL || !process.env.SUPABASE_KEY) {
     console.error("❌ Variables SUPABASE_URL et SUPABASE_KEY requises");
     process.exit(1);
   }
-  if (!process.env.HUGGINGFACE_API_KEY) {
+  if (!dryRun && embeddingProvider.name === "huggingface" && !process.env.HUGGINGFACE_API_KEY) {
     console.error("❌ Variable HUGGINGFACE_API_KEY requise");
     process.exit(1);
   }
 
-  // Test de l'API avant de commencer
-  console.log("🧪 Test de l'API Hugging Face...");
-  try {
-    const testEmb = await generateEmbedding("test");
-    console.log(`✅ API OK - Embedding dimension: ${testEmb.length}\n`);
-  } catch (err) {
-    console.error("❌ Erreur API:", err);
-    process.exit(1);
+  // Les nouveaux documents sont embeddés avec le modèle actif
+  const activeModel = await getActiveEmbeddingModel(supabase);
+  if (activeModel) {
+    embeddingProvider = createProviderForModel(activeModel.name);
+  }
+
+  if (dryRun) {
+    console.log("🔎 Mode simulation : aucune écriture, aucun embedding\n");
+  } else {
+    console.log(`📡 Embeddings: ${embeddingProvider.name} (${embeddingProvider.model})\n`);
+
+    // Test du fournisseur d'embeddings avant de commencer
+    console.log("🧪 Test du fournisseur d'embeddings...");
+    let dimension: number;
+    try {
+      const testEmb = await generateEmbedding("test");
+      dimension = testEmb.length;
+      console.log(`✅ Embeddings OK - dimension: ${dimension}\n`);
+    } catch (err) {
+      console.error("❌ Erreur embeddings:", err);
+      process.exit(1);
+    }
+
+    // Reprendre une exécution interrompue
+    checkpoint = createCheckpoint(CHECKPOINT_FILE, embeddingProvider.model);
+    if (checkpoint.size > 0) {
+      console.log(`♻️  Reprise : ${checkpoint.size} embeddings déjà calculés\n`);
+    }
+
+    if (activeModel && activeModel.dimension !== dimension) {
+      console.error(
+        `❌ Le modèle actif ${activeModel.name} attend ${activeModel.dimension} dimensions, reçu ${dimension}`
+      );
+      process.exit(1);
+    }
+
+    // Première installation : enregistrer le modèle configuré
+    if (!activeModel) {
+      await registerEmbeddingModel(supabase, embeddingProvider, dimension);
+    }
   }
 
   // Lister les PDFs
@@ -418,12 +491,86 @@ async function main() {
     return;
   }
 
-  // Importer chaque document
+  // Synchroniser chaque document
+  const summaries: SyncSummary[] = [];
   for (const file of files) {
-    await importDocument(file);
+    summaries.push(await importDocument(file, options));
+  }
+
+  // Documents retirés du dossier (sans filtre : les autres fichiers sont alors tous importés)
+  if (!filterArg) {
+    const deleted = await removeDeletedSources(files.map((f) => path.basename(f)), options);
+    if (deleted.removed.length > 0 || deleted.errors > 0) {
+      console.log("\n🗑️  Documents retirés du dossier documents/:");
+      printSummary(deleted, options);
+    }
+    summaries.push(deleted);
+  }
+
+  const totals = { added: 0, changed: 0, removed: 0, unchanged: 0, errors: 0 };
+  for (const summary of summaries) {
+    totals.added += summary.added.length;
+    totals.changed += summary.changed.length;
+    totals.removed += summary.removed.length;
+    totals.unchanged += summary.unchanged;
+    totals.errors += summary.errors;
+  }
+
+  console.log(
+    `\n📊 Total: ${totals.added} ajoutés, ${totals.changed} modifiés, ${totals.removed} supprimés, ` +
+      `${totals.unchanged} inchangés, ${totals.errors} erreurs`
+  );
+
+  if (dryRun) {
+    console.log("\n🔎 Simulation terminée (aucune modification)");
+    return;
+  }
+
+  // Marquer l'édition la plus récente de chaque fiche
+  const { error: editionsError } = await supabase.rpc("refresh_current_editions");
+  if (editionsError) {
+    console.error("❌ Mise à jour des éditions courantes impossible:", editionsError.message);
+  }
+
+  // Documents restés sans embedding lors d'une exécution précédente
+  const repaired = await repairMissingEmbeddings(options);
+  if (repaired > 0) {
+    console.log(`🩹 ${repaired} embeddings manquants complétés`);
+  }
+
+  // Corpus modifié : nouvelle version, les réponses en cache sont invalidées
+  if (totals.added + totals.changed + totals.removed > 0 || repaired > 0) {
+    const { data: version, error: versionError } = await supabase.rpc("bump_corpus_version");
+    if (versionError) {
+      console.error("❌ Invalidation du cache des réponses impossible:", versionError.message);
+    } else {
+      console.log(`🧹 Cache des réponses invalidé (corpus v${version})`);
+    }
+  }
+
+  if (totals.errors > 0) {
+    console.log(`\n⚠️  ${totals.errors} erreurs : relancez la commande pour reprendre`);
+  } else {
+    checkpoint.clear();
+  }
+
+  // Première installation : le modèle devient l'index actif
+  if (!activeModel) {
+    await supabase
+      .from("embedding_models")
+      .update({ status: "ready", completed_at: new Date().toISOString() })
+      .eq("name", embeddingProvider.model);
+    const { error } = await supabase.rpc("activate_embedding_model", {
+      model_name: embeddingProvider.model,
+    });
+    if (error) {
+      console.error("❌ Activation du modèle impossible:", error.message);
+    } else {
+      console.log(`🔀 Modèle actif: ${embeddingProvider.model}`);
+    }
   }
 
-  console.log("\n✅ Import terminé!");
+  console.log("\n✅ Synchronisation terminée!");
 }
 
 main().catch(console.error);
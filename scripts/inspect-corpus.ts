@@ -0,0 +1,356 @@
+import "dotenv/config";
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { getActiveEmbeddingModel, getQueryEmbeddingProvider } from "../src/lib/embedding-models";
+import {
+  createSupabaseStore,
+  DocumentMatch,
+  DocumentStore,
+  RETRIEVAL_CONFIG,
+  SearchFilters,
+  searchDocuments,
+} from "../src/lib/retrieval";
+import { normalizeText } from "../src/lib/text";
+
+// Inspection du corpus en base, pour le débogage de la recherche et de l'import.
+//
+// Usage : npm run inspect -- <commande> [options]
+//   search <texte>       recherche plein texte et vectorielle, avec les scores
+//   show <fiche_ref>     chunks d'une fiche (toutes éditions) et leurs métadonnées
+//   chapter <nn>         fiches d'un chapitre
+//   stats                répartition du corpus, longueurs, embeddings manquants
+//   retrieve <question>  pipeline searchDocuments complet, avec la trace du classement
+//
+// Options : --source PSE|PSC|SST  --chapter nn  --type AC|PR|FT  --level 1|2
+//           --limit n (search)  --query "<requête reformulée>" (retrieve)  --current (show)
+
+const PAGE_SIZE = 1000;
+const SNIPPET_LENGTH = 160;
+
+// Bornes des tranches de longueur des chunks (caractères)
+const LENGTH_BUCKETS = [500, 1000, 2000, 4000, 8000];
+
+// Client Supabase (créé une fois les variables d'environnement vérifiées)
+let supabase: SupabaseClient;
+
+interface Args {
+  command: string;
+  text: string;
+  filters: SearchFilters;
+  limit: number;
+  query: string | null;
+  currentOnly: boolean;
+}
+
+interface DocumentRow {
+  id: number;
+  content: string;
+  source: string;
+  title: string | null;
+  section_path: string | null;
+  chapter: string | null;
+  fiche_type: string | null;
+  fiche_ref: string | null;
+  pse_level: number | null;
+  update_date: string | null;
+  referential: string | null;
+  is_current: boolean;
+  chunk_key: string | null;
+}
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { command: argv[0] || "", text: "", filters: {}, limit: 10, query: null, currentOnly: false };
+  const words: string[] = [];
+
+  for (let i = 1; i < argv.length; i++) {
+    if (argv[i] === "--source") {
+      args.filters.source = argv[++i];
+    } else if (argv[i] === "--chapter") {
+      args.filters.chapter = argv[++i];
+    } else if (argv[i] === "--type") {
+      args.filters.ficheType = argv[++i];
+    } else if (argv[i] === "--level") {
+      args.filters.pseLevel = Number(argv[++i]) || undefined;
+    } else if (argv[i] === "--limit") {
+      args.limit = Number(argv[++i]) || args.limit;
+    } else if (argv[i] === "--query") {
+      args.query = argv[++i];
+    } else if (argv[i] === "--current") {
+      args.currentOnly = true;
+    } else {
+      words.push(argv[i]);
+    }
+  }
+
+  args.text = words.join(" ").trim();
+  return args;
+}
+
+// Extrait autour de la première occurrence d'un des mots recherchés (début du texte à défaut)
+function snippet(content: string, text = ""): string {
+  const normalized = normalizeText(content);
+  const terms = normalizeText(text).split(/\s+/).filter((t) => t.length > 2);
+  const index = terms.map((t) => normalized.indexOf(t)).find((i) => i >= 0) ?? 0;
+  const start = Math.max(0, index - SNIPPET_LENGTH / 4);
+  const excerpt = content.slice(start, start + SNIPPET_LENGTH).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${excerpt}${start + SNIPPET_LENGTH < content.length ? "…" : ""}`;
+}
+
+function label(doc: { id: number; fiche_ref?: string | null; source: string }): string {
+  return `#${doc.id} ${doc.fiche_ref || "·"} (${doc.source})`;
+}
+
+function printMatches(title: string, matches: DocumentMatch[], text: string) {
+  console.log(`\n${title} : ${matches.length} résultat${matches.length > 1 ? "s" : ""}`);
+  matches.forEach((doc, i) => {
+    console.log(`${String(i + 1).padStart(3)}. ${doc.similarity.toFixed(4)}  ${label(doc)}`);
+    console.log(`      ${snippet(doc.content, text)}`);
+  });
+}
+
+async function search(args: Args) {
+  if (!args.text) throw new Error("Texte requis : search <texte>");
+
+  const store = createSupabaseStore(supabase);
+  const embedder = await getQueryEmbeddingProvider(supabase);
+  const [embedding] = await embedder.embed([args.text]);
+
+  console.log(`🔍 « ${args.text} » (embedder ${embedder.model})`);
+  const [textMatches, vectorMatches] = await Promise.all([
+    store.matchByText(args.text, { count: args.limit, filters: args.filters }),
+    store.matchByEmbedding(embedding, { threshold: 0, count: args.limit, model: embedder.model, filters: args.filters }),
+  ]);
+
+  printMatches("📝 Plein texte (rang ts_rank)", textMatches, args.text);
+  printMatches("🧭 Vectorielle (similarité cosinus)", vectorMatches, args.text);
+}
+
+async function show(args: Args) {
+  if (!args.text) throw new Error("Référence requise : show <fiche_ref>");
+
+  let query = supabase
+    .from("documents")
+    .select("id, content, source, title, section_path, chapter, fiche_type, fiche_ref, pse_level, update_date, referential, is_current, chunk_key")
+    .eq("fiche_ref", args.text)
+    .order("source")
+    .order("id");
+  if (args.currentOnly) query = query.eq("is_current", true);
+  if (args.filters.source) query = query.eq("referential", args.filters.source);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Lecture de la fiche impossible: ${error.message}`);
+
+  const rows = (data || []) as DocumentRow[];
+  if (rows.length === 0) {
+    console.log(`❌ Aucun chunk pour ${args.text}`);
+    return;
+  }
+
+  console.log(`📄 ${args.text} : ${rows.length} chunk${rows.length > 1 ? "s" : ""}`);
+  for (const row of rows) {
+    console.log(`\n=== #${row.id} ${row.chunk_key || ""} ${row.is_current ? "(courante)" : "(ancienne édition)"} ===`);
+    console.log(`Titre     : ${row.title || "-"}`);
+    console.log(`Chemin    : ${row.section_path || "-"}`);
+    console.log(`Source    : ${row.source} · ${row.referential || "-"} · édition ${row.update_date || "-"}`);
+    console.log(`Chapitre  : ${row.chapter || "-"} · type ${row.fiche_type || "-"} · niveau PSE ${row.pse_level ?? "-"}`);
+    console.log(`Longueur  : ${row.content.length} caractères\n`);
+    console.log(row.content);
+  }
+}
+
+async function chapter(args: Args) {
+  const chapterNum = args.text.padStart(2, "0");
+  if (!/^\d{2}$/.test(chapterNum)) throw new Error("Numéro de chapitre requis : chapter <nn>");
+
+  let query = supabase
+    .from("documents")
+    .select("id, content, source, title, fiche_type, fiche_ref, pse_level, referential, chunk_key")
+    .eq("chapter", chapterNum)
+    .eq("is_current", true)
+    .order("fiche_ref")
+    .order("id");
+  if (args.filters.source) query = query.eq("referential", args.filters.source);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Lecture du chapitre impossible: ${error.message}`);
+
+  // Une ligne par fiche (ses chunks regroupés) et par référentiel
+  const fiches = new Map<string, { rows: DocumentRow[]; length: number }>();
+  for (const row of (data || []) as DocumentRow[]) {
+    const key = `${row.referential || "?"} ${row.fiche_ref || row.chunk_key || row.id}`;
+    const fiche = fiches.get(key) || { rows: [], length: 0 };
+    fiche.rows.push(row);
+    fiche.length += row.content.length;
+    fiches.set(key, fiche);
+  }
+
+  console.log(`📚 Chapitre ${chapterNum} : ${fiches.size} fiche${fiches.size > 1 ? "s" : ""}\n`);
+  fiches.forEach(({ rows, length }, key) => {
+    const first = rows[0];
+    const level = first.pse_level ? ` PSE${first.pse_level}` : "";
+    console.log(
+      `${key.padEnd(16)} ${(first.fiche_type || "-").padEnd(3)}${level.padEnd(6)} ` +
+        `${String(rows.length).padStart(2)} chunk(s) ${String(length).padStart(6)} car.  ${first.title || ""}`
+    );
+  });
+}
+
+async function fetchAllDocuments(): Promise<DocumentRow[]> {
+  const rows: DocumentRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("documents")
+      .select("id, content, source, chapter, fiche_type, pse_level, referential, is_current")
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Lecture des documents impossible: ${error.message}`);
+    rows.push(...((data || []) as DocumentRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+function printCounts(title: string, values: (string | number | null)[]) {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const key = value === null ? "(vide)" : String(value);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  console.log(`\n${title}`);
+  Array.from(counts.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .forEach(([key, n]) => console.log(`   ${key.padEnd(40)} ${String(n).padStart(6)}`));
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor((sorted.length * p) / 100))];
+}
+
+async function stats() {
+  const rows = await fetchAllDocuments();
+  const current = rows.filter((r) => r.is_current);
+  console.log(`📊 ${rows.length} documents, dont ${current.length} éditions courantes`);
+
+  printCounts("📁 Par source", current.map((r) => r.source));
+  printCounts("📖 Par référentiel et chapitre", current.map((r) => `${r.referential || "?"} ${r.chapter || "-"}`));
+  printCounts("🏷️  Par type de fiche", current.map((r) => r.fiche_type));
+  printCounts("🎚️  Par niveau PSE", current.map((r) => r.pse_level));
+
+  const lengths = current.map((r) => r.content.length).sort((a, b) => a - b);
+  if (lengths.length > 0) {
+    console.log(
+      `\n📏 Longueur des chunks : min ${lengths[0]}, médiane ${percentile(lengths, 50)}, ` +
+        `p90 ${percentile(lengths, 90)}, max ${lengths[lengths.length - 1]}`
+    );
+    let lower = 0;
+    for (const upper of [...LENGTH_BUCKETS, Infinity]) {
+      const n = lengths.filter((l) => l >= lower && l < upper).length;
+      const range = upper === Infinity ? `≥ ${lower}` : `${lower}–${upper - 1}`;
+      console.log(`   ${range.padEnd(12)} ${String(n).padStart(6)}`);
+      lower = upper;
+    }
+  }
+
+  // Embeddings manquants pour chaque modèle enregistré
+  const active = await getActiveEmbeddingModel(supabase);
+  const { data: models, error } = await supabase.from("embedding_models").select("name, status");
+  if (error) throw new Error(`Lecture des modèles impossible: ${error.message}`);
+
+  console.log("\n🧭 Embeddings");
+  for (const model of models || []) {
+    const { count } = await supabase
+      .from("document_embeddings")
+      .select("document_id", { count: "exact", head: true })
+      .eq("model", model.name);
+    const missing = Math.max(0, rows.length - (count || 0));
+    const marker = model.name === active?.name ? " (actif)" : "";
+    console.log(`   ${model.name}${marker} [${model.status}] : ${count || 0} vecteurs, ${missing} documents sans embedding`);
+  }
+}
+
+interface CandidateList {
+  // Nom court dans la trace du classement (vec, txt1, txt2)
+  key: string;
+  name: string;
+  matches: DocumentMatch[];
+}
+
+// Stockage qui garde une copie de chaque liste de candidats, pour la trace du classement
+function createTracingStore(store: DocumentStore, lists: CandidateList[]): DocumentStore {
+  let textSearches = 0;
+
+  return {
+    async matchByEmbedding(embedding, options) {
+      const matches = await store.matchByEmbedding(embedding, options);
+      lists.push({ key: "vec", name: "vectorielle", matches });
+      return matches;
+    },
+    async matchByText(text, options) {
+      const key = `txt${++textSearches}`;
+      const matches = await store.matchByText(text, options);
+      lists.push({ key, name: `plein texte « ${text} »`, matches });
+      return matches;
+    },
+  };
+}
+
+async function retrieve(args: Args) {
+  if (!args.text) throw new Error("Question requise : retrieve <question>");
+
+  const lists: CandidateList[] = [];
+  const embedder = await getQueryEmbeddingProvider(supabase);
+  const store = createTracingStore(createSupabaseStore(supabase), lists);
+  const query = args.query || args.text;
+
+  console.log(`🔍 Question : « ${args.text} »`);
+  console.log(`   Requête  : « ${query} »${args.query ? "" : " (sans reformulation : --query pour la fournir)"}`);
+  console.log(`   Filtres  : ${JSON.stringify(args.filters)} · embedder ${embedder.model}`);
+
+  const results = await searchDocuments(query, args.text, args.filters, { store, embedder });
+
+  for (const { key, name, matches } of lists) {
+    console.log(`\n📋 [${key}] Candidats ${name} : ${matches.length}`);
+    matches.forEach((doc, i) => console.log(`${String(i + 1).padStart(4)}. ${doc.similarity.toFixed(4)}  ${label(doc)}`));
+  }
+
+  // Contribution de chaque liste au score fusionné : 1 / (k + rang)
+  console.log(`\n🏆 Classement final (RRF, k = ${RETRIEVAL_CONFIG.rrfK}, ${RETRIEVAL_CONFIG.maxResults} extraits)`);
+  results.forEach((doc, i) => {
+    const ranks = lists.map(({ key, matches }) => {
+      const rank = matches.findIndex((m) => m.id === doc.id) + 1;
+      return `${key} ${rank > 0 ? `#${rank}` : "-"}`;
+    });
+    const similarity = doc.vector_similarity != null ? ` cos ${doc.vector_similarity.toFixed(3)}` : "";
+    console.log(`${String(i + 1).padStart(4)}. ${doc.similarity.toFixed(4)}  ${label(doc)}${similarity}  [${ranks.join(", ")}]`);
+    console.log(`      ${snippet(doc.content, args.text)}`);
+  });
+}
+
+const COMMANDS: Record<string, (args: Args) => Promise<void>> = { search, show, chapter, stats, retrieve };
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_KEY) {
+    console.error("❌ Variables SUPABASE_URL et SUPABASE_KEY requises");
+    process.exit(1);
+  }
+  supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_KEY);
+
+  const command = COMMANDS[args.command];
+  if (!command) {
+    console.error(`❌ Commande inconnue : ${args.command || "(aucune)"}`);
+    console.error("   Commandes : search <texte>, show <fiche_ref>, chapter <nn>, stats, retrieve <question>");
+    process.exit(1);
+  }
+
+  await command(args);
+}
+
+main().catch((err) => {
+  console.error("❌", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { splitIntoPSCFiches, splitIntoSSTSections } from "./documents";
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+// Texte extrait du PDF PSC : sommaire, puis fiches dont l'en-tête est coupé par l'extraction
+const PSC_TEXT = `SOMMAIRE
+CHAPITRE 01 - LA PROTECTION __________ 3
+01PR01 PSC ① Protection de la victime et des témoins __________ 4
+CHAPITRE 02 - LES HÉMORRAGIES __________ 6
+02PR01 PSC ① Hémorragie externe avec saignement abondant __________ 7
+
+11-2024] PSC ①  [01PR01 /
+Protection de la victime
+et des témoins
+Supprimer ou écarter le danger, sinon dégager la victime en urgence.
+
+11-2024] PSC ①  [02PR01 /
+Hémorragie externe
+avec saignement abondant
+Appuyer fortement sur l'endroit qui saigne.`;
+
+describe("splitIntoPSCFiches", () => {
+  it("remet les en-têtes coupés dans l'ordre et découpe une fiche par référence", () => {
+    const fiches = splitIntoPSCFiches(PSC_TEXT);
+
+    expect(fiches.map((f) => [f.ficheRef, f.updateDate, f.ficheTypeName])).toEqual([
+      ["01PR01", "11-2024", "Procédure"],
+      ["02PR01", "11-2024", "Procédure"],
+    ]);
+    expect(fiches[1].content).toMatch(/^\[02PR01 \/ 11-2024\] PSC ①/);
+    expect(fiches[1].content).toContain("Appuyer fortement");
+    expect(fiches[0].content).not.toContain("Appuyer fortement");
+  });
+
+  it("prend les titres complets et les chapitres du PSC dans le sommaire", () => {
+    const [protection, hemorragie] = splitIntoPSCFiches(PSC_TEXT);
+
+    expect(protection.title).toBe("Protection de la victime et des témoins");
+    expect(hemorragie.title).toBe("Hémorragie externe avec saignement abondant");
+    expect(hemorragie.chapterName).toBe("Les hémorragies");
+  });
+});
+
+// Document de référence SST : sommaire, titres de section, listes numérotées et pieds de page
+const SST_TEXT = `SOMMAIRE
+1. LE DISPOSITIF ........ 3
+1.1 P
+RÉAMBULE ........ 3
+2. LA FORMATION ........ 5
+2.1 Les compétences ........ 5
+2.2 Le maintien des compétences ........ 6
+
+1. LE DISPOSITIF
+1.1 PRÉAMBULE
+Le sauveteur secouriste du travail intervient sur son lieu de travail auprès d'une victime.
+2. LA FORMATION
+2.1 Les compétences
+Le programme comprend les compétences suivantes, évaluées en fin de formation :
+1. Situer le cadre juridique de son intervention
+2. Réaliser une protection adaptée
+12 Document de référence du dispositif SST
+2.2 Le maintien des compétences
+Le maintien et l'actualisation des compétences ont lieu tous les 24 mois.`;
+
+describe("splitIntoSSTSections", () => {
+  it("découpe les sections listées au sommaire, avec le chemin de leurs titres", () => {
+    const sections = splitIntoSSTSections(SST_TEXT);
+
+    expect(sections.map((s) => s.number)).toEqual(["1.1", "2.1", "2.2"]);
+    expect(sections[0].path).toEqual(["1. LE DISPOSITIF", "1.1 PRÉAMBULE"]);
+    expect(sections[1].content).toMatch(/^2\. LA FORMATION > 2\.1 Les compétences\n/);
+  });
+
+  it("garde les listes numérotées dans la section et retire les pieds de page", () => {
+    const competences = splitIntoSSTSections(SST_TEXT)[1];
+
+    expect(competences.content).toContain("1. Situer le cadre juridique");
+    expect(competences.content).toContain("2. Réaliser une protection adaptée");
+    expect(competences.content).not.toContain("Document de référence");
+  });
+});
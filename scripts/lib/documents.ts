@@ -0,0 +1,395 @@
+import pdfParse from "pdf-parse";
+import * as fs from "fs";
+import { CHAPTER_NAMES, FICHE_TYPES } from "../../src/lib/referentiel";
+
+// Lecture et découpage des documents PDF, communs à l'import et à l'évaluation.
+
+const CHUNK_SIZE = 500;
+const CHUNK_OVERLAP = 100;
+
+// Pattern pour détecter les fiches PSE : [07PR13 / 09-2019] PSE②
+const PSE_FICHE_PATTERN = /\[(\d{2})(AC|PR|FT)(\d+)\s*\/\s*(\d{2})-(\d{4})\]/g;
+
+// En-tête de fiche PSC coupé par l'extraction, date avant référence : 12-2023] PSC① [01AC01 /
+const PSC_SPLIT_HEADER_PATTERN = /^\s*(\d{2})-(\d{4})\]\s*(PSC\s*①?)\s*\[(\d{2})(AC|PR|FT)(\d+)\s*\/\s*$/gm;
+
+// Entrée du sommaire PSC : titre, points de suite et numéro de page
+const PSC_TOC_LINE_PATTERN = /_{5,}\s*\d+/;
+
+// Chapitre dans le sommaire PSC : CHAPITRE 02 - SECOURIR UNE PERSONNE ____ 14
+const PSC_CHAPTER_PATTERN = /CHAPITRE\s+(\d{2})\s*-\s*(.+?)\s*_{3,}/g;
+
+// Fiche dans le sommaire PSC : [02PR01 / 12-2023] PSC① Obstruction des voies aériennes ____ 15
+const PSC_TOC_FICHE_PATTERN = /PSC\s*①?\s*(.+?)\s*_{3,}/;
+const FICHE_REF_PATTERN = /\d{2}(?:AC|PR|FT)\d+/;
+
+// Titre numéroté du document SST : « 1. Titre » au premier niveau, « 4.1.2 Titre » ensuite
+const SST_HEADING_PATTERN = /^\s*(\d+(?:\.\d+)*)(\.?)\s+([A-ZÀ-ÖØ-Þ].*?)\s*$/;
+
+// Sommaire SST (points de suite) et pied de page répété
+const SST_TOC_LINE_PATTERN = /\.{5,}\s*\d*\s*$/;
+const SST_FOOTER_PATTERN = /^\s*\d+\s+Document de référence du dispositif SST/;
+
+// Interface pour les métadonnées d'une fiche PSE (format commun aux fiches PSC)
+export interface PSEFiche {
+  content: string;
+  title: string;
+  chapter: string;
+  chapterName: string;
+  ficheType: string;
+  ficheTypeName: string;
+  ficheRef: string;
+  ficheNumber: string;
+  updateDate: string;
+  pseLevel: number | null;
+}
+
+// Section numérotée d'un document (SST) : path = titres des sections parentes puis de la section
+export interface DocumentSection {
+  number: string;
+  title: string;
+  path: string[];
+  content: string;
+}
+
+// Chunk prêt à synchroniser, identifié dans sa source par une clé stable
+export interface DocumentChunk {
+  chunkKey: string;
+  content: string;
+  metadata: Record<string, string | number | null>;
+}
+
+// Découper le texte en chunks avec chevauchement (fallback pour documents non-PSE)
+export function splitIntoChunks(text: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  const cleanedText = text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  while (start < cleanedText.length) {
+    let end = start + CHUNK_SIZE;
+
+    if (end < cleanedText.length) {
+      const lastPeriod = cleanedText.lastIndexOf(".", end);
+      const lastNewline = cleanedText.lastIndexOf("\n", end);
+      const breakPoint = Math.max(lastPeriod, lastNewline);
+
+      if (breakPoint > start + CHUNK_SIZE / 2) {
+        end = breakPoint + 1;
+      }
+    }
+
+    const chunk = cleanedText.slice(start, end).trim();
+    if (chunk.length > 50) {
+      chunks.push(chunk);
+    }
+
+    start = end - CHUNK_OVERLAP;
+  }
+
+  return chunks;
+}
+
+// Détecter le niveau PSE (PSE① ou PSE②) dans le texte
+function detectPSELevel(text: string): number | null {
+  // Cherche PSE① ou PSE1 ou PSE ①
+  if (/PSE\s*[①1]/i.test(text)) return 1;
+  // Cherche PSE② ou PSE2 ou PSE ②
+  if (/PSE\s*[②2]/i.test(text)) return 2;
+  return null;
+}
+
+// Titre d'une fiche : première ligne non vide après l'en-tête [réf / date] PSE②
+function extractTitle(ficheContent: string): string {
+  const lines = ficheContent
+    .replace(/^\s*\[[^\]]*\]\s*(PS[CE]\s*[①②]?)?/i, "")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  return lines[0] || "Sans titre";
+}
+
+// Découper le texte PSE en fiches complètes avec métadonnées
+// (chapterNames : noms des chapitres du référentiel, ceux du PSE par défaut)
+export function splitIntoPSEFiches(
+  text: string,
+  chapterNames: Record<string, string> = CHAPTER_NAMES
+): PSEFiche[] {
+  const fiches: PSEFiche[] = [];
+
+  // Nettoyer le texte en préservant les sauts de ligne significatifs
+  const cleanedText = text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n{4,}/g, "\n\n\n") // Limite à 3 sauts de ligne max
+    .trim();
+
+  // Trouver toutes les positions des patterns de fiches
+  const matches: { index: number; match: RegExpMatchArray }[] = [];
+  const regex = new RegExp(PSE_FICHE_PATTERN.source, "g");
+  let match;
+
+  while ((match = regex.exec(cleanedText)) !== null) {
+    matches.push({ index: match.index, match });
+  }
+
+  console.log(`    📋 ${matches.length} fiches détectées`);
+
+  // Extraire chaque fiche avec son contenu complet
+  for (let i = 0; i < matches.length; i++) {
+    const currentMatch = matches[i];
+    const nextMatch = matches[i + 1];
+
+    // Le contenu de la fiche va du début du pattern jusqu'au début du suivant
+    const startIndex = currentMatch.index;
+    const endIndex = nextMatch ? nextMatch.index : cleanedText.length;
+
+    let ficheContent = cleanedText.slice(startIndex, endIndex).trim();
+
+    // Extraire les métadonnées depuis le match
+    const [fullMatch, chapter, ficheType, ficheNumber, month, year] = currentMatch.match;
+    const ficheRef = `${chapter}${ficheType}${ficheNumber}`;
+
+    // Détecter le niveau PSE dans les 200 premiers caractères de la fiche
+    const pseLevel = detectPSELevel(ficheContent.slice(0, 200));
+
+    // Nettoyer le contenu : normaliser les espaces multiples mais garder la structure
+    ficheContent = ficheContent
+      .replace(/\s{3,}/g, "  ") // Max 2 espaces consécutifs
+      .replace(/\n\s*\n\s*\n/g, "\n\n") // Max 2 sauts de ligne
+      .trim();
+
+    const fiche: PSEFiche = {
+      content: ficheContent,
+      title: extractTitle(ficheContent),
+      chapter,
+      chapterName: chapterNames[chapter] || `Chapitre ${chapter}`,
+      ficheType,
+      ficheTypeName: FICHE_TYPES[ficheType] || ficheType,
+      ficheRef,
+      ficheNumber,
+      updateDate: `${month}-${year}`,
+      pseLevel,
+    };
+
+    fiches.push(fiche);
+
+    // Log de debug pour les fiches très longues ou très courtes
+    if (ficheContent.length > 5000) {
+      console.log(`    ⚠️  Fiche [${ficheRef}] très longue: ${ficheContent.length} caractères`);
+    } else if (ficheContent.length < 100) {
+      console.log(`    ⚠️  Fiche [${ficheRef}] très courte: ${ficheContent.length} caractères`);
+    }
+  }
+
+  return fiches;
+}
+
+// Découper le texte PSC en fiches : mêmes références que le PSE, mais chapitres propres
+// au PSC et titres complets (lus dans le sommaire), en-têtes parfois coupés par l'extraction
+export function splitIntoPSCFiches(text: string): PSEFiche[] {
+  const lines = text.split("\n");
+  const tocLines = lines.filter((line) => PSC_TOC_LINE_PATTERN.test(line));
+
+  const chapterNames: Record<string, string> = {};
+  for (const [, chapter, name] of Array.from(text.matchAll(PSC_CHAPTER_PATTERN))) {
+    chapterNames[chapter] = name.charAt(0) + name.slice(1).toLowerCase();
+  }
+
+  // Dans le corps, un titre long est coupé sur plusieurs lignes : celui du sommaire est complet
+  const titles: Record<string, string> = {};
+  for (const line of tocLines) {
+    const ref = line.match(FICHE_REF_PATTERN);
+    const title = line.match(PSC_TOC_FICHE_PATTERN);
+    if (ref && title) titles[ref[0]] = title[1].replace(/\s+/g, " ");
+  }
+
+  // Retirer le sommaire (il répète chaque en-tête), puis remettre les en-têtes dans l'ordre
+  const body = lines
+    .filter((line) => !PSC_TOC_LINE_PATTERN.test(line))
+    .join("\n")
+    .replace(PSC_SPLIT_HEADER_PATTERN, "[$4$5$6 / $1-$2] $3");
+
+  return splitIntoPSEFiches(body, chapterNames).map((fiche) => ({
+    ...fiche,
+    title: titles[fiche.ficheRef] || fiche.title,
+  }));
+}
+
+// Numéro de section sous forme de liste : "4.1.2" → [4, 1, 2]
+function parseSectionNumber(number: string): number[] {
+  return number.split(".").map(Number);
+}
+
+// Une section ne peut suivre la précédente que comme première sous-section (4.1 → 4.1.1)
+// ou comme section suivante d'un niveau égal ou supérieur (4.1.2 → 4.1.3, 4.2, 5).
+// Avec le sommaire, cela écarte les listes numérotées du texte (compétences, épreuves).
+function isNextSection(previous: number[], next: number[]): boolean {
+  if (next.length === previous.length + 1) {
+    return next.slice(0, -1).every((n, i) => n === previous[i]) && next[next.length - 1] === 1;
+  }
+  if (next.length > previous.length) return false;
+
+  const depth = next.length - 1;
+  return next.slice(0, depth).every((n, i) => n === previous[i]) && next[depth] === previous[depth] + 1;
+}
+
+// Numéros de section listés dans le sommaire SST. Un titre long y est coupé
+// (« 1.1 P » puis « RÉAMBULE ...... 4 ») : le numéro est sur la ligne précédant les points.
+function readSSTTableOfContents(lines: string[]): Set<string> {
+  const numbers = new Set<string>();
+  lines.forEach((line, i) => {
+    if (!SST_TOC_LINE_PATTERN.test(line)) return;
+    const entry = line.match(/^\s*(\d+(?:\.\d+)*)/) || lines[i - 1]?.match(/^\s*(\d+(?:\.\d+)*)/);
+    if (entry) numbers.add(entry[1]);
+  });
+  return numbers;
+}
+
+// Découper le document de référence SST en sections numérotées (1., 1.1, 1.1.1)
+export function splitIntoSSTSections(text: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  const titles: string[] = [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const tableOfContents = readSSTTableOfContents(lines);
+  let current: { number: number[]; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const body = current.lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+    // Section sans contenu propre (ex : « 4. Les formations » suivi de « 4.1 ») : ignorée
+    if (body.length > 50) {
+      const path = titles.slice(0, current.number.length);
+      sections.push({
+        number: current.number.join("."),
+        title: path[path.length - 1],
+        path,
+        content: `${path.join(" > ")}\n${body}`,
+      });
+    }
+  };
+
+  for (const line of lines) {
+    if (SST_TOC_LINE_PATTERN.test(line) || SST_FOOTER_PATTERN.test(line)) continue;
+
+    const heading = line.match(SST_HEADING_PATTERN);
+    if (heading) {
+      const number = parseSectionNumber(heading[1]);
+      // « 1. » au premier niveau, « 1.1 » (sans point final) aux niveaux suivants,
+      // et présent au sommaire quand le document en a un
+      const wellFormed = number.length === 1 ? heading[2] === "." : heading[2] === "";
+      const listed = tableOfContents.size === 0 || tableOfContents.has(heading[1]);
+      const expected = current ? isNextSection(current.number, number) : heading[1] === "1";
+
+      if (wellFormed && listed && expected) {
+        flush();
+        titles.length = number.length - 1;
+        titles.push(`${heading[1]}${heading[2]} ${heading[3]}`);
+        current = { number, lines: [] };
+        continue;
+      }
+    }
+
+    current?.lines.push(line);
+  }
+  flush();
+
+  console.log(`    📋 ${sections.length} sections détectées`);
+  return sections;
+}
+
+// Extraire le texte d'un PDF
+export async function extractTextFromPDF(filePath: string): Promise<string> {
+  const dataBuffer = fs.readFileSync(filePath);
+  const data = await pdfParse(dataBuffer);
+  return data.text;
+}
+
+// Convertir les fiches PSE ou PSC en chunks (clé = référence de fiche, suffixée si répétée)
+export function toFicheChunks(fiches: PSEFiche[]): DocumentChunk[] {
+  const seen: Record<string, number> = {};
+
+  return fiches.map((fiche) => {
+    seen[fiche.ficheRef] = (seen[fiche.ficheRef] || 0) + 1;
+    const occurrence = seen[fiche.ficheRef];
+
+    return {
+      chunkKey: occurrence > 1 ? `${fiche.ficheRef}#${occurrence}` : fiche.ficheRef,
+      content: fiche.content,
+      metadata: {
+        title: fiche.title,
+        section_path: `Chapitre ${fiche.chapter} - ${fiche.chapterName} > ${fiche.ficheRef} ${fiche.title}`,
+        chapter: fiche.chapter,
+        chapter_name: fiche.chapterName,
+        fiche_type: fiche.ficheType,
+        fiche_type_name: fiche.ficheTypeName,
+        fiche_ref: fiche.ficheRef,
+        pse_level: fiche.pseLevel,
+        update_date: fiche.updateDate,
+      },
+    };
+  });
+}
+
+// Convertir les sections en chunks (clé = numéro de section) ; le chapitre est la section
+// de premier niveau, la date est celle de la version du document
+export function toSectionChunks(sections: DocumentSection[], updateDate: string | null): DocumentChunk[] {
+  return sections.map((section) => ({
+    chunkKey: `section-${section.number}`,
+    content: section.content,
+    metadata: {
+      title: section.title,
+      section_path: section.path.join(" > "),
+      chapter: section.number.split(".")[0].padStart(2, "0"),
+      chapter_name: section.path[0].replace(/^[\d.]+\s*/, ""),
+      update_date: updateDate,
+    },
+  }));
+}
+
+// Convertir les chunks classiques (clé = position dans le document)
+export function toStandardChunks(chunks: string[]): DocumentChunk[] {
+  return chunks.map((content, i) => ({
+    chunkKey: `chunk-${String(i + 1).padStart(4, "0")}`,
+    content,
+    metadata: {},
+  }));
+}
+
+// Référentiel d'un document d'après son nom de fichier
+export function detectReferential(fileName: string): string | null {
+  const name = fileName.toLowerCase();
+  if (name.includes("pse")) return "PSE";
+  if (name.includes("psc")) return "PSC";
+  if (name.includes("sst")) return "SST";
+  return null;
+}
+
+// Date de version d'un document : « Version 8 – 01/2021 » → 01-2021
+function detectVersionDate(text: string): string | null {
+  const match = text.match(/Version\s+\d+\s*[–-]\s*(\d{2})\/(\d{4})/);
+  return match ? `${match[1]}-${match[2]}` : null;
+}
+
+// Découper le texte d'un document en chunks : par fiche (PSE, PSC), par section
+// numérotée (SST), classique si la structure n'est pas reconnue
+export function chunkDocument(fileName: string, text: string): DocumentChunk[] {
+  switch (detectReferential(fileName)) {
+    case "PSE":
+      return toFicheChunks(splitIntoPSEFiches(text));
+    case "PSC": {
+      const fiches = splitIntoPSCFiches(text);
+      if (fiches.length > 0) return toFicheChunks(fiches);
+      break;
+    }
+    case "SST": {
+      const sections = splitIntoSSTSections(text);
+      if (sections.length > 0) return toSectionChunks(sections, detectVersionDate(text));
+      break;
+    }
+  }
+  return toStandardChunks(splitIntoChunks(text));
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DatabaseError, saveDocumentEmbeddings } from "../../src/lib/embedding-models";
+import { EmbeddingApiError } from "../../src/lib/embeddings";
+import { isTransientError, withRetry } from "./embedding-pipeline";
+
+const networkError = (code: string) => Object.assign(new Error(`connect ${code}`), { code });
+
+describe("isTransientError", () => {
+  it("réessaie le rate limit et les erreurs serveur de l'API", () => {
+    expect(isTransientError(new EmbeddingApiError("Too Many Requests", 429))).toBe(true);
+    expect(isTransientError(new EmbeddingApiError("Model is loading", 503))).toBe(true);
+  });
+
+  it("décide par le statut et non par le message", () => {
+    expect(isTransientError(new EmbeddingApiError("timeout 503 ECONNRESET", 400))).toBe(false);
+    expect(isTransientError(new EmbeddingApiError("Unauthorized", 401))).toBe(false);
+    expect(isTransientError(new Error("Request timed out (503)"))).toBe(false);
+  });
+
+  it("réessaie les erreurs réseau", () => {
+    expect(isTransientError(new TypeError("fetch failed", { cause: networkError("ENOTFOUND") }))).toBe(true);
+    expect(isTransientError(networkError("ECONNRESET"))).toBe(true);
+    expect(isTransientError(new Error("socket", { cause: networkError("ETIMEDOUT") }))).toBe(true);
+  });
+
+  it("réessaie les erreurs réseau et serveur de Supabase", () => {
+    expect(isTransientError(new DatabaseError("TypeError: fetch failed", 0, ""))).toBe(true);
+    expect(isTransientError(new DatabaseError("Service Unavailable", 503, ""))).toBe(true);
+    expect(isTransientError(new DatabaseError("duplicate key value", 409, "23505"))).toBe(false);
+  });
+
+  it("ne réessaie pas les autres erreurs", () => {
+    expect(isTransientError(new TypeError("Cannot read properties of undefined"))).toBe(false);
+    expect(isTransientError(networkError("ECONNREFUSED"))).toBe(false);
+    expect(isTransientError("fetch failed")).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  const noDelay = { retries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+  it("réessaie une erreur passagère jusqu'au succès", async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new EmbeddingApiError("Too Many Requests", 429))
+      .mockResolvedValueOnce("ok");
+
+    await expect(withRetry(task, noDelay)).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("renvoie immédiatement une erreur définitive", async () => {
+    const task = vi.fn().mockRejectedValue(new EmbeddingApiError("Bad Request", 400));
+
+    await expect(withRetry(task, noDelay)).rejects.toThrow("Bad Request");
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("withRetry et Supabase", () => {
+  it("réessaie l'enregistrement d'embeddings après une coupure réseau", async () => {
+    // supabase-js renvoie l'erreur réseau (statut 0) au lieu de la lever
+    const upsert = vi
+      .fn()
+      .mockResolvedValueOnce({ error: { message: "TypeError: fetch failed", code: "" }, status: 0 })
+      .mockResolvedValueOnce({ error: null, status: 201 });
+    const client = { from: () => ({ upsert }) } as unknown as SupabaseClient;
+
+    await withRetry(() => saveDocumentEmbeddings(client, "bge", [{ documentId: 1, embedding: [1, 0] }]), {
+      retries: 2,
+      baseDelayMs: 0,
+      maxDelayMs: 0,
+    });
+
+    expect(upsert).toHaveBeenCalledTimes(2);
+  });
+});
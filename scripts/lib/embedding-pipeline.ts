@@ -0,0 +1,179 @@
+import * as fs from "fs";
+import { DatabaseError } from "../../src/lib/embedding-models";
+import { EmbeddingApiError } from "../../src/lib/embeddings";
+
+// Outils communs aux scripts d'embedding : lots, concurrence bornée,
+// retry avec backoff exponentiel, progression et point de reprise local.
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY: RetryOptions = { retries: 5, baseDelayMs: 1000, maxDelayMs: 30_000 };
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Codes d'erreur réseau de Node (sur l'erreur ou sa cause)
+const NETWORK_ERROR_CODES = new Set(["ECONNRESET", "ETIMEDOUT"]);
+
+function errorCode(err: unknown): unknown {
+  return err && typeof err === "object" && "code" in err ? err.code : undefined;
+}
+
+// Erreurs qui peuvent disparaître en réessayant : rate limit et erreurs serveur de l'API
+// d'embeddings ou de Supabase (décidé par le statut HTTP), requête interrompue par le
+// réseau (statut 0 pour Supabase, qui renvoie l'erreur au lieu de la lever). Les autres erreurs
+// (requête invalide, clé refusée, bug) sont renvoyées immédiatement.
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof EmbeddingApiError) {
+    return err.status === 429 || err.status >= 500;
+  }
+  if (err instanceof DatabaseError) {
+    return err.status === 0 || err.status === 429 || err.status >= 500;
+  }
+  // fetch (undici) rejette toute erreur réseau en TypeError « fetch failed »
+  if (err instanceof TypeError && err.message === "fetch failed") {
+    return true;
+  }
+  const cause = err instanceof Error ? err.cause : undefined;
+  return NETWORK_ERROR_CODES.has(String(errorCode(err))) || NETWORK_ERROR_CODES.has(String(errorCode(cause)));
+}
+
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (attempt >= options.retries || !isTransientError(err)) {
+        throw err;
+      }
+      // Backoff exponentiel avec gigue
+      const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      await sleep(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+}
+
+export function toBatches<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+// Exécuter `worker` sur chaque élément avec au plus `concurrency` tâches en parallèle
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+}
+
+function formatDuration(seconds: number): string {
+  if (!isFinite(seconds)) return "?";
+  const s = Math.round(seconds);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  return m < 60 ? `${m}m${String(s % 60).padStart(2, "0")}s` : `${Math.floor(m / 60)}h${String(m % 60).padStart(2, "0")}m`;
+}
+
+// Progression avec débit et temps restant estimé
+export function createProgress(label: string, total: number) {
+  const startedAt = Date.now();
+  let done = 0;
+  let lastLoggedPercent = -1;
+
+  const render = (detail?: string) => {
+    const elapsed = (Date.now() - startedAt) / 1000;
+    const rate = elapsed > 0 ? done / elapsed : 0;
+    const eta = rate > 0 ? (total - done) / rate : Infinity;
+    const percent = total > 0 ? Math.floor((done / total) * 100) : 100;
+    const line =
+      `  ${label}: ${done}/${total} (${percent}%) · ${rate.toFixed(1)}/s · ` +
+      `reste ${formatDuration(eta)}${detail ? ` [${detail}]` : ""}`;
+
+    if (process.stdout.isTTY) {
+      process.stdout.write(`\r${line}\x1b[K`);
+    } else if (percent >= lastLoggedPercent + 10 || done === total) {
+      // Sortie non interactive (CI, fichier de log) : une ligne tous les 10 %
+      console.log(line);
+      lastLoggedPercent = percent;
+    }
+  };
+
+  return {
+    tick(count: number, detail?: string) {
+      done += count;
+      render(detail);
+    },
+    finish() {
+      if (process.stdout.isTTY && total > 0) {
+        process.stdout.write("\n");
+      }
+      const elapsed = (Date.now() - startedAt) / 1000;
+      return { done, seconds: elapsed };
+    },
+  };
+}
+
+// Point de reprise : embeddings déjà calculés, par modèle et empreinte de contenu.
+// Une exécution interrompue reprend sans recalculer ce qui l'a déjà été.
+interface CheckpointData {
+  model: string;
+  embeddings: Record<string, number[]>;
+}
+
+export function createCheckpoint(filePath: string, model: string) {
+  let data: CheckpointData = { model, embeddings: {} };
+
+  if (fs.existsSync(filePath)) {
+    try {
+      const saved = JSON.parse(fs.readFileSync(filePath, "utf-8")) as CheckpointData;
+      // Un point de reprise d'un autre modèle est inutilisable
+      if (saved.model === model) {
+        data = saved;
+      }
+    } catch {
+      // Fichier corrompu (interruption pendant l'écriture) : repartir de zéro
+    }
+  }
+
+  return {
+    get size() {
+      return Object.keys(data.embeddings).length;
+    },
+    get(hash: string): number[] | undefined {
+      return data.embeddings[hash];
+    },
+    set(hash: string, embedding: number[]) {
+      data.embeddings[hash] = embedding;
+    },
+    // Écriture atomique (fichier temporaire puis renommage)
+    save() {
+      const tmpPath = `${filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(data));
+      fs.renameSync(tmpPath, filePath);
+    },
+    clear() {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    },
+  };
+}
+
+export type Checkpoint = ReturnType<typeof createCheckpoint>;
@@ -0,0 +1,100 @@
+import { EmbeddingProvider } from "../../src/lib/embeddings";
+import { DocumentMatch, DocumentStore, SearchFilters } from "../../src/lib/retrieval";
+import { normalizeText } from "../../src/lib/text";
+
+// Stockage en mémoire reproduisant match_documents et search_documents_text,
+// pour évaluer la recherche hors ligne.
+
+// Mots vides de la configuration french de PostgreSQL (formes sans accents)
+const FRENCH_STOP_WORDS = new Set([
+  "au", "aux", "avec", "ce", "ces", "dans", "de", "des", "du", "elle", "en", "et", "eux", "il", "ils",
+  "je", "la", "le", "les", "leur", "lui", "ma", "mais", "me", "meme", "mes", "moi", "mon", "ne", "nos",
+  "notre", "nous", "on", "ou", "par", "pas", "pour", "qu", "que", "qui", "sa", "se", "ses", "son",
+  "sur", "ta", "te", "tes", "toi", "ton", "tu", "un", "une", "vos", "votre", "vous", "ete", "etre",
+  "est", "sont", "etait", "sera", "ai", "as", "avons", "avez", "ont", "avait", "cet", "cette",
+]);
+
+export interface LocalDocument {
+  id: number;
+  content: string;
+  source: string;
+  fiche_ref: string | null;
+  chunk_key?: string | null;
+  chapter?: string | null;
+  fiche_type?: string | null;
+  pse_level?: number | null;
+}
+
+// Mêmes conditions que les filtres SQL de match_documents et search_documents_text
+function matchesFilters(doc: LocalDocument, filters: SearchFilters): boolean {
+  return (
+    (!filters.source || doc.source.toLowerCase().includes(filters.source.toLowerCase())) &&
+    (!filters.pseLevel || doc.pse_level === filters.pseLevel) &&
+    (!filters.chapter || doc.chapter === filters.chapter) &&
+    (!filters.ficheType || doc.fiche_type === filters.ficheType)
+  );
+}
+
+// Approximation de to_tsvector('french_unaccent') : sans accents, sans mots vides,
+// racines tronquées à 6 caractères à défaut du stemmer Snowball
+function toLexemes(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !FRENCH_STOP_WORDS.has(word))
+    .map((word) => word.slice(0, 6));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Embedder tous les documents puis répondre aux recherches en mémoire
+export async function createLocalStore(
+  documents: LocalDocument[],
+  embedder: EmbeddingProvider,
+  batchSize = 64
+): Promise<DocumentStore> {
+  const embeddings: number[][] = [];
+  for (let i = 0; i < documents.length; i += batchSize) {
+    const batch = documents.slice(i, i + batchSize);
+    embeddings.push(...(await embedder.embed(batch.map((doc) => doc.content))));
+  }
+
+  const lexemes = documents.map((doc) => toLexemes(doc.content));
+
+  return {
+    async matchByEmbedding(embedding, { threshold, count, filters }) {
+      return documents
+        .map((doc, i): DocumentMatch & LocalDocument => ({
+          ...doc,
+          similarity: cosineSimilarity(embedding, embeddings[i]),
+        }))
+        .filter((doc) => doc.similarity > threshold && matchesFilters(doc, filters))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, count);
+    },
+
+    // Équivalent de ts_rank_cd(..., 1) : occurrences des termes, normalisées par 1 + log(longueur)
+    async matchByText(text, { count, filters }) {
+      const terms = new Set(toLexemes(text));
+      if (terms.size === 0) return [];
+
+      return documents
+        .map((doc, i): DocumentMatch & LocalDocument => {
+          const hits = lexemes[i].filter((lexeme) => terms.has(lexeme)).length;
+          return { ...doc, similarity: hits / (1 + Math.log(lexemes[i].length || 1)) };
+        })
+        .filter((doc) => doc.similarity > 0 && matchesFilters(doc, filters))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, count);
+    },
+  };
+}
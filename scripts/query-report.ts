@@ -0,0 +1,218 @@
+import "dotenv/config";
+import { createClient } from "@supabase/supabase-js";
+import { normalizeText } from "../src/lib/text";
+import type { UnansweredReason } from "../src/lib/query-log";
+
+// Rapport du journal des requêtes : volume, taux de questions sans réponse, cache,
+// durées par étape et tokens, puis les sujets sans réponse les plus fréquents
+// (questions regroupées par mots-clés communs) pour orienter l'enrichissement du corpus.
+//
+// Usage : npm run query-report -- [--days 30] [--topics 20] [--examples 3]
+
+const PAGE_SIZE = 1000;
+
+// Part minimale de mots-clés communs pour rattacher une question à un sujet
+const TOPIC_SIMILARITY = 0.4;
+
+const REASON_LABELS: Record<UnansweredReason, string> = {
+  no_documents: "aucun extrait",
+  missing_information: "information absente",
+  weak_similarity: "similarité faible",
+};
+
+// Mots des questions sans valeur de sujet (forme normalisée, sans accents)
+const STOP_WORDS = new Set([
+  "comment", "quoi", "quel", "quelle", "quelles", "quels", "quand", "pourquoi", "faire", "faut",
+  "dois", "doit", "peut", "peux", "avec", "dans", "pour", "sans", "chez", "cette", "sont", "etre",
+  "avoir", "entre", "plus", "tres", "victime", "personne", "situation", "conduite", "tenir",
+]);
+
+interface LogRow {
+  question: string;
+  reformulated_query: string | null;
+  latency_ms: Record<string, number>;
+  input_tokens: number;
+  output_tokens: number;
+  cached: boolean;
+  unanswered: boolean;
+  unanswered_reason: UnansweredReason | null;
+  error: string | null;
+}
+
+interface Topic {
+  stems: Set<string>;
+  words: Map<string, number>;
+  questions: Map<string, number>;
+  reasons: Map<UnansweredReason, number>;
+  count: number;
+}
+
+function parseArgs(argv: string[]) {
+  const args = { days: 30, topics: 20, examples: 3 };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--days") {
+      args.days = Number(argv[++i]) || args.days;
+    } else if (argv[i] === "--topics") {
+      args.topics = Number(argv[++i]) || args.topics;
+    } else if (argv[i] === "--examples") {
+      args.examples = Number(argv[++i]) || args.examples;
+    }
+  }
+
+  return args;
+}
+
+// Mots-clés d'une question : requête reformulée (vocabulaire du référentiel) et question
+function keywords(row: LogRow): { stem: string; word: string }[] {
+  const text = `${row.reformulated_query || ""} ${row.question}`;
+  const byStem = new Map<string, string>();
+
+  for (const word of normalizeText(text).split(/[^a-z0-9]+/)) {
+    // Mots tronqués pour regrouper pluriels et accords
+    const stem = word.slice(0, 6);
+    if (word.length > 3 && !STOP_WORDS.has(word) && !byStem.has(stem)) {
+      byStem.set(stem, word);
+    }
+  }
+  return Array.from(byStem, ([stem, word]) => ({ stem, word }));
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  const shared = Array.from(a).filter((stem) => b.has(stem)).length;
+  return shared / (Math.min(a.size, b.size) || 1);
+}
+
+// Regroupement glouton : chaque question rejoint le sujet le plus proche, sinon en crée un
+function groupTopics(rows: LogRow[]): Topic[] {
+  const topics: Topic[] = [];
+
+  for (const row of rows) {
+    const words = keywords(row);
+    if (words.length === 0) continue;
+    const stems = new Set(words.map((w) => w.stem));
+
+    let topic = topics
+      .map((t) => ({ t, score: overlap(stems, t.stems) }))
+      .filter(({ score }) => score >= TOPIC_SIMILARITY)
+      .sort((a, b) => b.score - a.score)[0]?.t;
+
+    if (!topic) {
+      topic = { stems, words: new Map(), questions: new Map(), reasons: new Map(), count: 0 };
+      topics.push(topic);
+    }
+
+    topic.count++;
+    for (const { word } of words) topic.words.set(word, (topic.words.get(word) || 0) + 1);
+    const question = row.question.trim();
+    topic.questions.set(question, (topic.questions.get(question) || 0) + 1);
+    if (row.unanswered_reason) {
+      topic.reasons.set(row.unanswered_reason, (topic.reasons.get(row.unanswered_reason) || 0) + 1);
+    }
+  }
+
+  return topics.sort((a, b) => b.count - a.count);
+}
+
+function topEntries<K>(map: Map<K, number>, n: number): [K, number][] {
+  return Array.from(map.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, n);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function percent(part: number, total: number): string {
+  return `${total > 0 ? ((part / total) * 100).toFixed(1) : "0.0"} %`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_KEY) {
+    console.error("❌ Variables SUPABASE_URL et SUPABASE_KEY requises");
+    process.exit(1);
+  }
+
+  const supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_KEY);
+  const since = new Date(Date.now() - args.days * 24 * 60 * 60 * 1000).toISOString();
+  const rows: LogRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("query_log")
+      .select("question, reformulated_query, latency_ms, input_tokens, output_tokens, cached, unanswered, unanswered_reason, error")
+      .gte("created_at", since)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("❌ Lecture du journal impossible:", error.message);
+      process.exit(1);
+    }
+    rows.push(...((data || []) as LogRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  console.log(`📊 Rapport des requêtes (${args.days} derniers jours)\n`);
+
+  if (rows.length === 0) {
+    console.log("Aucune requête journalisée sur la période.");
+    return;
+  }
+
+  const unanswered = rows.filter((r) => r.unanswered);
+  const cached = rows.filter((r) => r.cached).length;
+  const errors = rows.filter((r) => r.error).length;
+  console.log(`❓ ${rows.length} questions, ${unanswered.length} sans réponse (${percent(unanswered.length, rows.length)})`);
+  console.log(`⚡ ${cached} servies par le cache (${percent(cached, rows.length)}), ❌ ${errors} en erreur`);
+
+  const stages = Array.from(new Set(rows.flatMap((r) => Object.keys(r.latency_ms || {}))));
+  const latencies = stages.map((stage) => {
+    const values = rows.map((r) => r.latency_ms?.[stage]).filter((v): v is number => typeof v === "number");
+    return `${stage} ${median(values)} ms`;
+  });
+  console.log(`⏱️  Durées médianes : ${latencies.join(", ")}`);
+
+  const inputTokens = rows.reduce((sum, r) => sum + r.input_tokens, 0);
+  const outputTokens = rows.reduce((sum, r) => sum + r.output_tokens, 0);
+  const generated = rows.filter((r) => !r.cached).length || 1;
+  console.log(
+    `🔤 Tokens : ${inputTokens} en entrée, ${outputTokens} en sortie ` +
+      `(${Math.round(inputTokens / generated)} / ${Math.round(outputTokens / generated)} par question hors cache)`
+  );
+
+  const reasons = new Map<UnansweredReason, number>();
+  for (const row of unanswered) {
+    if (row.unanswered_reason) reasons.set(row.unanswered_reason, (reasons.get(row.unanswered_reason) || 0) + 1);
+  }
+  if (reasons.size > 0) {
+    const summary = topEntries(reasons, 3).map(([reason, n]) => `${REASON_LABELS[reason]} ${n}`);
+    console.log(`🔎 Motifs : ${summary.join(", ")}`);
+  }
+
+  const topics = groupTopics(unanswered).slice(0, args.topics);
+  if (topics.length === 0) return;
+
+  console.log("\n📚 Sujets sans réponse les plus fréquents\n");
+  topics.forEach((topic, i) => {
+    const label = topEntries(topic.words, 3).map(([word]) => word).join(" ");
+    const detail = topEntries(topic.reasons, 3)
+      .map(([reason, n]) => `${REASON_LABELS[reason]} ${n}`)
+      .join(", ");
+    console.log(`${String(i + 1).padStart(2)}. ${label} — ${topic.count} question${topic.count > 1 ? "s" : ""} (${detail})`);
+    for (const [question, n] of topEntries(topic.questions, args.examples)) {
+      console.log(`      « ${question} »${n > 1 ? ` ×${n}` : ""}`);
+    }
+  });
+}
+
+main().catch((err) => {
+  console.error("❌", err);
+  process.exit(1);
+});
@@ -0,0 +1,140 @@
+import "dotenv/config";
+import { createClient } from "@supabase/supabase-js";
+import {
+  createProviderForModel,
+  getActiveEmbeddingModel,
+  registerEmbeddingModel,
+  saveDocumentEmbeddings,
+} from "../src/lib/embedding-models";
+import { createProgress, withRetry } from "./lib/embedding-pipeline";
+
+// Ré-embedding de tous les documents avec un nouveau modèle (dimension libre).
+// Les vecteurs sont écrits dans document_embeddings à côté de ceux du modèle actif :
+// la recherche continue sur l'ancien modèle jusqu'à la bascule (--activate).
+// Relancer la commande reprend là où elle s'est arrêtée.
+//
+// Usage : npm run reembed -- --model intfloat/multilingual-e5-small [--activate] [--batch-size 16]
+
+const DEFAULT_BATCH_SIZE = 16;
+
+// Client Supabase
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_KEY!
+);
+
+// Nombre de documents sans vecteur pour un modèle
+async function countMissing(model: string): Promise<number> {
+  const { count: total } = await supabase.from("documents").select("id", { count: "exact", head: true });
+  const { count: done } = await supabase
+    .from("document_embeddings")
+    .select("document_id", { count: "exact", head: true })
+    .eq("model", model);
+  return Math.max(0, (total || 0) - (done || 0));
+}
+
+function parseArgs(argv: string[]) {
+  const args = { model: process.env.EMBEDDING_MODEL, activate: false, batchSize: DEFAULT_BATCH_SIZE };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--model") {
+      args.model = argv[++i];
+    } else if (argv[i] === "--activate") {
+      args.activate = true;
+    } else if (argv[i] === "--batch-size") {
+      args.batchSize = Number(argv[++i]) || DEFAULT_BATCH_SIZE;
+    }
+  }
+
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_KEY) {
+    console.error("❌ Variables SUPABASE_URL et SUPABASE_KEY requises");
+    process.exit(1);
+  }
+  if (!args.model) {
+    console.error("❌ Modèle requis : --model <nom> (ou EMBEDDING_MODEL)");
+    process.exit(1);
+  }
+
+  const provider = createProviderForModel(args.model);
+  console.log(`🚀 Ré-embedding avec ${provider.model} (${provider.name})\n`);
+
+  const activeModel = await getActiveEmbeddingModel(supabase);
+  console.log(`📌 Modèle actif: ${activeModel ? `${activeModel.name} (${activeModel.dimension} dim)` : "aucun"}`);
+
+  // Dimension du nouveau modèle
+  const [testEmb] = await provider.embed(["test"]);
+  console.log(`🧪 Dimension du nouveau modèle: ${testEmb.length}\n`);
+
+  // Enregistrer le modèle et son index
+  const model = await registerEmbeddingModel(supabase, provider, testEmb.length);
+  if (model.status === "ready") {
+    // Nouveaux documents importés depuis la dernière exécution
+    await supabase.from("embedding_models").update({ status: "building" }).eq("name", model.name);
+  }
+
+  // Embedder les documents qui n'ont pas encore de vecteur pour ce modèle
+  const progress = createProgress("📤 Ré-embedding", await countMissing(provider.model));
+
+  while (true) {
+    const { data: pending, error } = await supabase.rpc("documents_missing_embedding", {
+      model_name: provider.model,
+      max_rows: args.batchSize,
+    });
+
+    if (error) {
+      console.error("\n❌ Lecture des documents impossible:", error.message);
+      process.exit(1);
+    }
+    if (!pending || pending.length === 0) break;
+
+    try {
+      const embeddings = await withRetry(() =>
+        provider.embed(pending.map((doc: { content: string }) => doc.content))
+      );
+      await withRetry(() =>
+        saveDocumentEmbeddings(
+          supabase,
+          provider.model,
+          pending.map((doc: { id: number }, i: number) => ({ documentId: doc.id, embedding: embeddings[i] }))
+        )
+      );
+      progress.tick(pending.length);
+    } catch (err) {
+      // Erreur non transitoire ou retries épuisés : la base sert de point de reprise
+      console.error("\n❌ Erreur lot:", err);
+      console.error("❌ Relancez la commande pour reprendre");
+      process.exit(1);
+    }
+  }
+
+  const { done: processed } = progress.finish();
+
+  await supabase
+    .from("embedding_models")
+    .update({ status: "ready", completed_at: new Date().toISOString() })
+    .eq("name", provider.model);
+  console.log(`✅ ${processed} documents ré-embeddés, modèle ${provider.model} prêt`);
+
+  if (!args.activate) {
+    console.log("ℹ️  Relancez avec --activate pour basculer la recherche sur ce modèle");
+    return;
+  }
+
+  // Bascule atomique (transaction SQL) vers le nouvel index
+  const { error: activateError } = await supabase.rpc("activate_embedding_model", {
+    model_name: provider.model,
+  });
+  if (activateError) {
+    console.error("❌ Activation impossible:", activateError.message);
+    process.exit(1);
+  }
+  console.log(`🔀 Modèle actif: ${provider.model}`);
+}
+
+main().catch(console.error);
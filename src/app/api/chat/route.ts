@@ -1,11 +1,35 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { NextRequest, NextResponse } from "next/server";
+import { anthropic, CLAUDE_MODEL, ModelOutputError, OnUsage } from "@/lib/anthropic";
 import { supabase } from "@/lib/supabase";
-import { generateEmbedding } from "@/lib/embeddings";
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { getQueryEmbeddingProvider } from "@/lib/embedding-models";
+import { createSupabaseStore, DocumentMatch, searchDocuments } from "@/lib/retrieval";
+import { buildCitations, Citation, stripCitations } from "@/lib/citations";
+import { Comparison, compareReferentials, summarizeComparison } from "@/lib/comparison";
+import { CacheScope, createAnswerCache, isAnswerCacheEnabled } from "@/lib/answer-cache";
+import { ChatStreamEvent, formatStreamEvent, GroundingSummary } from "@/lib/chat-stream";
+import { createQueryLogger, QueryLogger, QueryOutcome } from "@/lib/query-log";
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  rateLimitHeaders,
+  rateLimitKeys,
+} from "@/lib/rate-limit";
+import { hasFicheChapter } from "@/lib/fiches";
+import { isChapterNumber, isFicheType, REFERENTIALS } from "@/lib/referentiel";
+import { checkGrounding, getGroundingMode, groundingPayload } from "@/lib/grounding";
+import {
+  ChatTurn,
+  exceedsHistoryLimits,
+  fitHistoryToBudget,
+  formatRecentTurns,
+  lastUserQuestion,
+  MAX_QUESTION_LENGTH,
+  parseHistory,
+} from "@/lib/conversation";
+
+// Limite par IP et par clé d'API : chaque question déclenche plusieurs appels au modèle
+const rateLimiter = createRateLimiter(createMemoryRateLimitStore());
 
 const REFORMULATION_PROMPT = `Tu es un expert en secourisme français. Reformule la question de l'utilisateur en utilisant les termes techniques officiels des référentiels PSE1, PSE2, PSC1 et SST.
 
@@ -14,6 +38,7 @@ Règles :
 - Pas de phrase, pas de ponctuation, pas d'explication
 - Utilise le vocabulaire exact des référentiels français
 - Ajoute les synonymes techniques pertinents
+- Si la question est une relance (ex: "et chez le nourrisson ?"), reprends le sujet des échanges précédents pour produire une requête autonome
 
 Exemples :
 - "étouffement" → "obstruction voies aériennes corps étranger désobstruction"
@@ -37,6 +62,7 @@ INTERDIT :
 
 OBLIGATOIRE :
 - Citer UNIQUEMENT ce qui est écrit dans les extraits fournis
+- Terminer chaque élément par le numéro de l'extrait qui le justifie : [1], ou [1][3] si plusieurs
 - Si une info manque, dire "Cette information n'apparaît pas dans les extraits consultés"
 - Reformuler pour clarifier, mais JAMAIS ajouter de contenu
 
@@ -46,23 +72,23 @@ Utilise ces blocs pour structurer visuellement :
 
 ### Actions À FAIRE (bloc vert) :
 :::do
-- Action 1 (telle qu'écrite dans le référentiel)
-- Action 2
+- Action 1 (telle qu'écrite dans le référentiel) [1]
+- Action 2 [2]
 :::
 
 ### Actions À NE PAS FAIRE (bloc rouge) :
 :::dont
-- Interdit 1 (si mentionné dans le contexte)
+- Interdit 1 (si mentionné dans le contexte) [1]
 :::
 
 ### Points d'ATTENTION (bloc jaune) :
 :::warning
-Point de vigilance mentionné dans le référentiel
+- Point de vigilance mentionné dans le référentiel [3]
 :::
 
 ### INFORMATIONS complémentaires (bloc bleu) :
 :::info
-- Information additionnelle du contexte
+- Information additionnelle du contexte [2]
 :::
 
 ## RÈGLES DE FORMAT :
@@ -70,32 +96,25 @@ Point de vigilance mentionné dans le référentiel
 2. Utilise les blocs colorés pour le contenu principal
 3. Ordre recommandé : :::do → :::dont → :::warning → :::info
 4. Chaque bloc contient une liste (- item)
-5. NE PAS mentionner les sources (affichées automatiquement)
+5. Chaque item se termine par son marqueur d'extrait [n] (numéro de l'« Extrait n » du contexte)
+6. NE PAS écrire le nom des documents ou des fiches (affichés automatiquement)
 
 Tu réponds en français, de manière claire et structurée.`;
 
-interface DocumentMatch {
-  id: number;
-  content: string;
-  source: string;
-  similarity: number;
-  fiche_ref?: string;
-}
-
-function extractDocumentTitle(content: string): string {
-  const firstLine = content.split("\n")[0].toLowerCase();
-  const match = firstLine.match(/pse[①②]?\s+(.+)/i);
-  return match ? match[1].trim() : firstLine;
-}
+async function reformulateQuery(question: string, history: ChatTurn[] = [], onUsage?: OnUsage): Promise<string> {
+  const content =
+    history.length > 0
+      ? `Échanges précédents :\n${formatRecentTurns(history)}\n\nNouvelle question : ${question}`
+      : question;
 
-async function reformulateQuery(question: string): Promise<string> {
   try {
     const message = await anthropic.messages.create({
-      model: "claude-sonnet-4-20250514",
+      model: CLAUDE_MODEL,
       max_tokens: 100,
       system: REFORMULATION_PROMPT,
-      messages: [{ role: "user", content: question }],
+      messages: [{ role: "user", content }],
     });
+    onUsage?.(message.usage);
 
     return message.content[0].type === "text"
       ? message.content[0].text.trim()
@@ -106,150 +125,352 @@ async function reformulateQuery(question: string): Promise<string> {
   }
 }
 
-async function searchDocuments(query: string, originalQuery: string, sourceFilter?: string): Promise<DocumentMatch[]> {
-  try {
-    const queryWords = query.toLowerCase().split(/\s+/).filter(w => w.length > 2);
-    const originalWords = originalQuery.toLowerCase().split(/\s+/).filter(w => w.length > 2);
-    const allKeywords = Array.from(new Set([...queryWords, ...originalWords]));
-
-    // 1. RECHERCHE VECTORIELLE
-    const embedding = await generateEmbedding(query);
-    const { data: vectorResults, error: vectorError } = await supabase.rpc("match_documents", {
-      query_embedding: embedding,
-      match_threshold: 0.18,
-      match_count: 12,
-    });
+function buildContextFromDocuments(documents: DocumentMatch[]): string {
+  if (documents.length === 0) {
+    return "Aucun document pertinent trouvé dans la base de connaissances.";
+  }
 
-    if (vectorError) {
-      console.error("Erreur recherche vectorielle:", vectorError);
-    }
+  const context = documents
+    .map((doc, i) => {
+      const ficheRef = doc.fiche_ref ? `[${doc.fiche_ref}]` : "";
+      return `[Extrait ${i + 1} ${ficheRef} - ${doc.source}]\n${doc.content}`;
+    })
+    .join("\n\n---\n\n");
 
-    // 2. RECHERCHE TEXTUELLE
-    const stopWords = ["quoi", "que", "faire", "comment", "quel", "quelle", "est", "sont", "cas", "pour", "dans", "avec", "sans", "lors", "une", "qui", "les", "des", "aux", "tenir", "face", "conduite"];
-    const keyWords = originalQuery
-      .toLowerCase()
-      .split(/\s+/)
-      .filter(w => w.length > 3 && !stopWords.includes(w));
-
-    let exactResults: DocumentMatch[] = [];
-    if (keyWords.length >= 1) {
-      let exactQuery = supabase
-        .from("documents")
-        .select("id, content, source, fiche_ref");
-
-      for (const word of keyWords.slice(0, 2)) {
-        exactQuery = exactQuery.ilike("content", `%${word}%`);
-      }
+  return `Voici les extraits des référentiels de secourisme. UTILISE UNIQUEMENT ces informations pour répondre :\n\n${context}`;
+}
 
-      if (sourceFilter) {
-        exactQuery = exactQuery.ilike("source", `%${sourceFilter}%`);
-      }
+function extractReferences(documents: DocumentMatch[]) {
+  const sources = Array.from(new Set(documents.map(d => d.source)));
+  const ficheRefs = Array.from(new Set(documents.map(d => d.fiche_ref).filter(Boolean))) as string[];
+  return { sources, ficheRefs, citations: buildCitations(documents) };
+}
 
-      const { data: exactData } = await exactQuery.limit(10);
+// Réponse renvoyée au client, telle qu'enregistrée dans le cache
+interface AnswerPayload {
+  response: string;
+  sources?: string[];
+  ficheRefs?: string[];
+  citations?: Citation[];
+  grounding?: GroundingSummary;
+  comparison?: Comparison;
+}
 
-      if (exactData) {
-        exactResults = exactData.map(doc => {
-          const contentLower = doc.content.toLowerCase();
-          const matchCount = keyWords.filter(k => contentLower.includes(k)).length;
-          return { ...doc, similarity: 0.75 + (matchCount / keyWords.length) * 0.2 };
+// Construire les messages envoyés au modèle : tours précédents + contexte et question courante
+function buildMessages(
+  context: string,
+  question: string,
+  history: ChatTurn[]
+): Anthropic.MessageParam[] {
+  const { turns, summary } = fitHistoryToBudget(history);
+  const preamble = summary ? `${summary}\n\n---\n\n` : "";
+
+  return [
+    ...turns.map((turn) => ({
+      role: turn.role,
+      content: turn.role === "assistant" ? stripCitations(turn.content) : turn.content,
+    })),
+    { role: "user", content: `${preamble}${context}\n\n---\n\nQuestion : ${question}` },
+  ];
+}
+
+// Réponse en streaming : les références d'abord, puis les tokens de la réponse,
+// puis la réponse vérifiée (affirmations non étayées signalées ou retirées).
+// En mode "remove", les tokens ne sont pas envoyés : une affirmation retirée ensuite
+// aurait déjà été affichée, seule la réponse vérifiée est transmise.
+// onComplete reçoit la réponse finale (cache et journal) ; log chronomètre les étapes
+function streamAnswer(
+  messages: Anthropic.MessageParam[],
+  documents: DocumentMatch[],
+  log: QueryLogger,
+  onComplete: (payload: AnswerPayload) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const groundingMode = getGroundingMode();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(formatStreamEvent(event)));
+
+      const references = extractReferences(documents);
+      send({ event: "meta", data: references });
+
+      let payload: AnswerPayload;
+      try {
+        const answer = await log.stage("generation", async () => {
+          const stream = anthropic.messages.stream({
+            model: CLAUDE_MODEL,
+            max_tokens: 2048,
+            system: SYSTEM_PROMPT,
+            messages,
+          });
+
+          let text = "";
+          for await (const event of stream) {
+            if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+              text += event.delta.text;
+              if (groundingMode !== "remove") {
+                send({ event: "delta", data: { text: event.delta.text } });
+              }
+            }
+          }
+          log.recordUsage((await stream.finalMessage()).usage);
+          return text;
         });
-      }
-    }
 
-    // 3. COMBINER ET DÉDUPLIQUER
-    const allResults = [...exactResults, ...(vectorResults || [])];
-    const seen = new Set<number>();
-    let combinedResults: DocumentMatch[] = [];
+        payload = { response: answer, ...references };
+        if (groundingMode !== "off") {
+          const grounding = await log.stage("grounding", () =>
+            checkGrounding(answer, references.citations, groundingMode, log.recordUsage)
+          );
+          send({ event: "grounding", data: { response: grounding.response, ...groundingPayload(grounding) } });
+          payload = { ...payload, response: grounding.response, grounding: groundingPayload(grounding) };
+        }
 
-    const relevanceKeywords = originalQuery.toLowerCase().split(/\s+/).filter(w => w.length > 4);
+        send({ event: "done", data: {} });
+      } catch (err) {
+        console.error("Erreur streaming:", err);
+        send({ event: "error", data: { error: "Erreur lors de la communication avec l'assistant" } });
+        await log.finish({ answer: "", error: String(err) });
+        controller.close();
+        return;
+      }
 
-    for (const doc of allResults) {
-      if (!seen.has(doc.id)) {
-        seen.add(doc.id);
+      // Réponse transmise : une erreur de mise en cache ne concerne plus le client
+      controller.close();
+      try {
+        await onComplete(payload);
+      } catch (err) {
+        console.error("Erreur enregistrement de la réponse:", err);
+      }
+    },
+  });
 
-        const docTitle = extractDocumentTitle(doc.content);
-        const isOnTopic = relevanceKeywords.some(k => docTitle.includes(k));
+  return eventStreamResponse(body);
+}
 
-        if (!isOnTopic && doc.similarity < 0.9) {
-          doc.similarity *= 0.4;
-        }
+// Réponse en cache rejouée avec les mêmes événements qu'une réponse générée
+function streamCachedAnswer(payload: AnswerPayload): Response {
+  const encoder = new TextEncoder();
+  const { response, grounding, sources, ficheRefs, citations } = payload;
 
-        combinedResults.push(doc);
-      }
-    }
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(formatStreamEvent(event)));
 
-    if (sourceFilter) {
-      combinedResults = combinedResults.filter(doc =>
-        doc.source.toUpperCase().includes(sourceFilter.toUpperCase())
-      );
-    }
+      send({ event: "meta", data: { sources, ficheRefs, citations, cached: true } });
+      send({ event: "delta", data: { text: response } });
+      if (grounding) {
+        send({ event: "grounding", data: { response, ...grounding } });
+      }
+      send({ event: "done", data: {} });
+      controller.close();
+    },
+  });
 
-    combinedResults.sort((a, b) => b.similarity - a.similarity);
-    return combinedResults.slice(0, 6);
-  } catch (err) {
-    console.error("Erreur recherche:", err);
-    return [];
-  }
+  return eventStreamResponse(body);
 }
 
-function buildContextFromDocuments(documents: DocumentMatch[]): string {
-  if (documents.length === 0) {
-    return "Aucun document pertinent trouvé dans la base de connaissances.";
-  }
-
-  const context = documents
-    .map((doc, i) => {
-      const ficheRef = doc.fiche_ref ? `[${doc.fiche_ref}]` : "";
-      return `[Extrait ${i + 1} ${ficheRef} - ${doc.source}]\n${doc.content}`;
-    })
-    .join("\n\n---\n\n");
+function eventStreamResponse(body: ReadableStream<Uint8Array>): Response {
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
 
-  return `Voici les extraits des référentiels de secourisme. UTILISE UNIQUEMENT ces informations pour répondre :\n\n${context}`;
+// Requête refusée avant tout appel au modèle
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
 }
 
 export async function POST(request: NextRequest) {
+  let log: QueryLogger | null = null;
+
+  const limit = await rateLimiter.check(rateLimitKeys(request));
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Trop de questions en peu de temps : réessayez dans ${limit.retryAfter} s` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  let body;
   try {
-    const { question, sourceFilter } = await request.json();
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== "object") {
+    return badRequest("Requête invalide : corps JSON attendu");
+  }
 
-    if (!question || typeof question !== "string") {
-      return NextResponse.json(
-        { error: "La question est requise" },
-        { status: 400 }
-      );
+  try {
+    const { question, sourceFilter, stream } = body;
+    const filters = body.filters || {};
+    const chapter = filters.chapter ? String(filters.chapter) : undefined;
+    const ficheType = filters.ficheType ? String(filters.ficheType) : undefined;
+    const pseLevel = filters.pseLevel ? Number(filters.pseLevel) : undefined;
+
+    if (!question || typeof question !== "string" || !question.trim()) {
+      return badRequest("La question est requise");
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return badRequest(`La question ne doit pas dépasser ${MAX_QUESTION_LENGTH} caractères`);
+    }
+    if (sourceFilter && !REFERENTIALS.includes(sourceFilter)) {
+      return badRequest(`Source invalide (attendu : ${REFERENTIALS.join(", ")})`);
+    }
+    if (body.mode !== undefined && body.mode !== "compare") {
+      return badRequest(`Mode ${body.mode} inconnu`);
+    }
+    if (body.history !== undefined && !Array.isArray(body.history)) {
+      return badRequest("Historique invalide");
+    }
+    if (exceedsHistoryLimits(body.history)) {
+      return badRequest("Conversation trop longue : commencez une nouvelle conversation");
+    }
+    // Chapitre du référentiel choisi (numérotation propre à chaque référentiel)
+    if (chapter && !sourceFilter) {
+      return badRequest("Un filtre de chapitre nécessite une source");
+    }
+    if (chapter && !(isChapterNumber(chapter) && (await hasFicheChapter(sourceFilter, chapter)))) {
+      return badRequest(`Chapitre ${chapter} inconnu au ${sourceFilter}`);
+    }
+    if (ficheType && !isFicheType(ficheType)) {
+      return badRequest(`Type de fiche ${ficheType} inconnu`);
+    }
+    if (pseLevel !== undefined && pseLevel !== 1 && pseLevel !== 2) {
+      return badRequest("Le niveau PSE doit être 1 ou 2");
+    }
+
+    const history = parseHistory(body.history);
+
+    const compare = body.mode === "compare";
+    const searchFilters = { source: sourceFilter, chapter, ficheType, pseLevel };
+    const requestLog = createQueryLogger(supabase, {
+      question,
+      mode: compare ? "compare" : "chat",
+      filters: searchFilters,
+    });
+    log = requestLog;
+    const deps = {
+      store: createSupabaseStore(supabase),
+      embedder: await getQueryEmbeddingProvider(supabase),
+    };
+
+    // 0. Question sans historique déjà posée (ou très proche) : réponse en cache,
+    // tant que les documents n'ont pas changé
+    const scope: CacheScope = compare ? { mode: "compare" } : { mode: "chat", filters: searchFilters };
+    const cache =
+      history.length === 0 && isAnswerCacheEnabled()
+        ? await requestLog.stage("cache", () =>
+            createAnswerCache(supabase, deps.embedder).lookup<AnswerPayload>(question, scope)
+          )
+        : null;
+
+    if (cache?.hit) {
+      const citations = cache.hit.comparison?.citations || cache.hit.citations || [];
+      requestLog.setDocuments(citations.map((c) => ({ id: c.documentId, fiche_ref: c.ficheRef })));
+      await requestLog.finish({
+        answer: cache.hit.response,
+        cached: true,
+        silent: cache.hit.comparison?.answers.every((a) => a.silent),
+      });
+      return stream && !compare
+        ? streamCachedAnswer(cache.hit)
+        : NextResponse.json({ ...cache.hit, cached: true });
     }
 
-    // 1. Reformuler la question
-    const technicalQuery = await reformulateQuery(question);
+    // Réponse terminée : mise en cache et journal de la requête
+    const complete = async (payload: AnswerPayload, outcome: Partial<QueryOutcome> = {}) => {
+      await cache?.save(payload);
+      await requestLog.finish({ answer: payload.response, ...outcome });
+    };
 
-    // 2. Rechercher les documents
-    const documents = await searchDocuments(technicalQuery, question, sourceFilter);
+    // 1. Reformuler la question (en tenant compte des échanges précédents)
+    const technicalQuery = await requestLog.stage("reformulation", () =>
+      reformulateQuery(question, history, requestLog.recordUsage)
+    );
+    requestLog.setQuery(technicalQuery);
+
+    // 2. Rechercher les documents (filtres appliqués dans la base, avant la limite)
+    // Pour une relance, la question précédente complète les mots-clés de la recherche textuelle
+    const previousQuestion = lastUserQuestion(history);
+    const originalQuery = previousQuestion ? `${question} ${previousQuestion}` : question;
+
+    // Mode comparaison : une recherche et une réponse par référentiel, côte à côte
+    if (compare) {
+      const comparison = await requestLog.stage("comparison", () =>
+        compareReferentials(question, technicalQuery, originalQuery, deps, {
+          onSearch: requestLog.setDocuments,
+          onUsage: requestLog.recordUsage,
+        })
+      );
+      const payload = { response: summarizeComparison(comparison), comparison };
+      await complete(payload, { silent: comparison.answers.every((a) => a.silent) });
+      return NextResponse.json(payload);
+    }
+
+    const documents = await requestLog.stage("search", () =>
+      searchDocuments(technicalQuery, originalQuery, searchFilters, deps)
+    );
+    requestLog.setDocuments(documents);
 
     // 3. Construire le contexte
     const context = buildContextFromDocuments(documents);
 
     // 4. Générer la réponse avec Claude
-    const userMessage = `${context}\n\n---\n\nQuestion : ${question}`;
+    const messages = buildMessages(context, question, history);
 
-    const message = await anthropic.messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 2048,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: "user", content: userMessage }],
-    });
+    if (stream) {
+      return streamAnswer(messages, documents, requestLog, complete);
+    }
+
+    const message = await requestLog.stage("generation", () =>
+      anthropic.messages.create({
+        model: CLAUDE_MODEL,
+        max_tokens: 2048,
+        system: SYSTEM_PROMPT,
+        messages,
+      })
+    );
+    requestLog.recordUsage(message.usage);
 
-    const response = message.content[0].type === "text" ? message.content[0].text : "";
+    const answer = message.content[0].type === "text" ? message.content[0].text : "";
 
     // 5. Extraire les références
-    const sources = Array.from(new Set(documents.map(d => d.source)));
-    const ficheRefs = Array.from(new Set(documents.map(d => d.fiche_ref).filter(Boolean))) as string[];
+    const references = extractReferences(documents);
 
-    return NextResponse.json({
-      response,
-      sources,
-      ficheRefs,
-    });
+    // 6. Vérifier l'ancrage de chaque affirmation dans les extraits
+    if (getGroundingMode() === "off") {
+      const payload = { response: answer, ...references };
+      await complete(payload);
+      return NextResponse.json(payload);
+    }
+
+    const grounding = await requestLog.stage("grounding", () =>
+      checkGrounding(answer, references.citations, undefined, requestLog.recordUsage)
+    );
+    const payload = {
+      response: grounding.response,
+      ...references,
+      grounding: groundingPayload(grounding),
+    };
+    await complete(payload);
+    return NextResponse.json(payload);
   } catch (error) {
     console.error("Erreur API:", error);
+    await log?.finish({ answer: "", error: String(error) });
+    // Comparaison : réponse du modèle inexploitable malgré une nouvelle tentative
+    if (error instanceof ModelOutputError) {
+      return NextResponse.json(
+        { error: "La comparaison n'a pas pu être générée, réessayez" },
+        { status: 502 }
+      );
+    }
     return NextResponse.json(
       { error: "Erreur lors de la communication avec l'assistant" },
       { status: 500 }
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createMemoryRateLimitStore, createRateLimiter, rateLimitHeaders, rateLimitKeys } from "@/lib/rate-limit";
+import { MAX_SHARED_CONVERSATION_SIZE, parseSharedMessages, shareConversation } from "@/lib/shared-conversations";
+
+const rateLimiter = createRateLimiter(createMemoryRateLimitStore());
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+// Partager une conversation : { messages } → { id } (lien /partage/[id])
+export async function POST(request: NextRequest) {
+  const limit = await rateLimiter.check(rateLimitKeys(request));
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Trop de partages en peu de temps : réessayez dans ${limit.retryAfter} s` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  try {
+    const text = await request.text();
+    if (text.length > MAX_SHARED_CONVERSATION_SIZE) {
+      return badRequest("Conversation trop longue pour être partagée");
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = null;
+    }
+    if (!body || typeof body !== "object" || !("messages" in body)) {
+      return badRequest("Requête invalide : corps JSON attendu");
+    }
+
+    const messages = parseSharedMessages(body.messages);
+    if (!messages || !messages.some((msg) => msg.role === "assistant")) {
+      return badRequest("Conversation invalide : aucune réponse à partager");
+    }
+
+    const id = await shareConversation(messages);
+    return NextResponse.json({ id });
+  } catch (error) {
+    console.error("Erreur API partage:", error);
+    return NextResponse.json(
+      { error: "Erreur lors du partage de la conversation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_QUESTION_LENGTH, MAX_TURN_LENGTH } from "@/lib/conversation";
+import {
+  FEEDBACK_RATINGS,
+  MAX_FEEDBACK_COMMENT_LENGTH,
+  MAX_FEEDBACK_DOCUMENTS,
+  parseFeedbackFilters,
+  saveFeedback,
+} from "@/lib/feedback";
+import { createMemoryRateLimitStore, createRateLimiter, rateLimitHeaders, rateLimitKeys } from "@/lib/rate-limit";
+
+const rateLimiter = createRateLimiter(createMemoryRateLimitStore());
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+// Enregistrer un retour : { rating: "up" | "down", comment?, question, answer, documentIds, filters }
+export async function POST(request: NextRequest) {
+  const limit = await rateLimiter.check(rateLimitKeys(request));
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Trop de retours en peu de temps : réessayez dans ${limit.retryAfter} s` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return badRequest("Requête invalide : corps JSON attendu");
+    }
+
+    const rating = FEEDBACK_RATINGS.find((r) => r === body.rating);
+    const comment = typeof body.comment === "string" ? body.comment.trim() : "";
+    const { question, answer, documentIds } = body;
+
+    if (!rating) {
+      return badRequest(`Avis invalide (attendu : ${FEEDBACK_RATINGS.join(", ")})`);
+    }
+    if (typeof question !== "string" || !question.trim() || question.length > MAX_QUESTION_LENGTH) {
+      return badRequest("Question invalide");
+    }
+    if (typeof answer !== "string" || !answer.trim() || answer.length > MAX_TURN_LENGTH) {
+      return badRequest("Réponse invalide");
+    }
+    if (comment.length > MAX_FEEDBACK_COMMENT_LENGTH) {
+      return badRequest(`Le commentaire ne doit pas dépasser ${MAX_FEEDBACK_COMMENT_LENGTH} caractères`);
+    }
+    if (
+      !Array.isArray(documentIds) ||
+      documentIds.length > MAX_FEEDBACK_DOCUMENTS ||
+      !documentIds.every((id) => Number.isInteger(id) && id > 0)
+    ) {
+      return badRequest("Identifiants d'extraits invalides");
+    }
+
+    await saveFeedback({
+      rating,
+      comment: comment || null,
+      question,
+      answer,
+      documentIds,
+      filters: parseFeedbackFilters(body.filters || {}),
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Erreur API retours:", error);
+    return NextResponse.json(
+      { error: "Erreur lors de l'enregistrement du retour" },
+      { status: 500 }
+    );
+  }
+}
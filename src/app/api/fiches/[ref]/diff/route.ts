@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { compareEditions, getFicheEditions } from "@/lib/fiches";
+import { REFERENTIALS } from "@/lib/referentiel";
+
+// Différences entre deux éditions d'une fiche : ?referential=PSE&from=09-2019&to=05-2024
+// Le référentiel est obligatoire (une même référence existe au PSE et au PSC).
+// Sans from/to, compare l'avant-dernière édition à la plus récente.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { ref: string } }
+) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const referential = REFERENTIALS.find((r) => r === searchParams.get("referential"));
+    if (!referential) {
+      return NextResponse.json(
+        { error: `Référentiel attendu : ${REFERENTIALS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const editions = await getFicheEditions(params.ref, referential);
+
+    if (editions.length === 0) {
+      return NextResponse.json(
+        { error: `Fiche ${params.ref} introuvable` },
+        { status: 404 }
+      );
+    }
+
+    const comparison = compareEditions(editions, searchParams.get("from"), searchParams.get("to"));
+    if (!comparison) {
+      return NextResponse.json(
+        { error: "Deux éditions distinctes sont nécessaires pour une comparaison" },
+        { status: 400 }
+      );
+    }
+
+    const { from, to, segments, stats } = comparison;
+    return NextResponse.json({
+      ref: params.ref,
+      from: { updateDate: from.updateDate, source: from.source, referential: from.referential },
+      to: { updateDate: to.updateDate, source: to.source, referential: to.referential },
+      stats,
+      segments,
+    });
+  } catch (error) {
+    console.error("Erreur API diff:", error);
+    return NextResponse.json(
+      { error: "Erreur lors de la comparaison des éditions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFicheEditions } from "@/lib/fiches";
+import { REFERENTIALS } from "@/lib/referentiel";
+
+// Liste des éditions d'une fiche dans un référentiel (sans le contenu) : ?referential=PSE
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { ref: string } }
+) {
+  try {
+    const referential = REFERENTIALS.find((r) => r === request.nextUrl.searchParams.get("referential"));
+    if (!referential) {
+      return NextResponse.json(
+        { error: `Référentiel attendu : ${REFERENTIALS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const editions = await getFicheEditions(params.ref, referential);
+
+    if (editions.length === 0) {
+      return NextResponse.json(
+        { error: `Fiche ${params.ref} introuvable` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ref: params.ref,
+      editions: editions.map(({ content, ...edition }) => edition),
+    });
+  } catch (error) {
+    console.error("Erreur API éditions:", error);
+    return NextResponse.json(
+      { error: "Erreur lors de la lecture des éditions" },
+      { status: 500 }
+    );
+  }
+}
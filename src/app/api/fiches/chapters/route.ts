@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFicheChapters } from "@/lib/fiches";
+import { isFicheType } from "@/lib/referentiel";
+
+// Chapitres ayant des fiches, par référentiel : ?type=PR pour les seules fiches procédures
+export async function GET(request: NextRequest) {
+  const type = request.nextUrl.searchParams.get("type") || undefined;
+
+  if (type && !isFicheType(type)) {
+    return NextResponse.json({ error: `Type de fiche ${type} inconnu` }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ chapters: await getFicheChapters(type) });
+  } catch (error) {
+    console.error("Erreur API chapitres:", error);
+    return NextResponse.json(
+      { error: "Erreur lors de la lecture des chapitres" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCitedFiches } from "@/lib/fiches";
+
+// Une réponse cite au plus quelques extraits par référentiel
+const MAX_DOCUMENTS = 50;
+
+// Fiches (référence et édition) des extraits cités : ?documents=12,34,56
+export async function GET(request: NextRequest) {
+  const ids = (request.nextUrl.searchParams.get("documents") || "")
+    .split(",")
+    .filter(Boolean)
+    .map(Number);
+
+  if (ids.length === 0 || ids.length > MAX_DOCUMENTS || !ids.every((id) => Number.isInteger(id) && id > 0)) {
+    return NextResponse.json({ error: "Identifiants d'extraits invalides" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ fiches: await getCitedFiches(ids) });
+  } catch (error) {
+    console.error("Erreur API fiches citées:", error);
+    return NextResponse.json(
+      { error: "Erreur lors de la lecture des fiches citées" },
+      { status: 500 }
+    );
+  }
+}
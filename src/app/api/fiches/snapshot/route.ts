@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getFicheSnapshot } from "@/lib/fiches";
+
+export const dynamic = "force-dynamic";
+
+// Copie de toutes les fiches courantes (contenu et métadonnées) pour le mode hors ligne
+export async function GET() {
+  try {
+    const fiches = await getFicheSnapshot();
+    return NextResponse.json({ generatedAt: new Date().toISOString(), fiches });
+  } catch (error) {
+    console.error("Erreur API copie des fiches:", error);
+    return NextResponse.json(
+      { error: "Erreur lors de la lecture des fiches" },
+      { status: 500 }
+    );
+  }
+}
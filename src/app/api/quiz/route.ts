@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ModelOutputError } from "@/lib/anthropic";
+import { getFicheChapters } from "@/lib/fiches";
+import { createQuiz, QUIZ_MAX_QUESTIONS, QUIZ_MIN_QUESTIONS } from "@/lib/quiz";
+import { createMemoryRateLimitStore, createRateLimiter, rateLimitHeaders, rateLimitKeys } from "@/lib/rate-limit";
+import { isFicheType, REFERENTIALS } from "@/lib/referentiel";
+
+// Chaque quiz déclenche un appel au modèle
+const rateLimiter = createRateLimiter(createMemoryRateLimitStore());
+
+// Générer un QCM : { referential, chapter?, ficheType?, pseLevel?, count? }
+export async function POST(request: NextRequest) {
+  const limit = await rateLimiter.check(rateLimitKeys(request));
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Trop de quiz demandés en peu de temps : réessayez dans ${limit.retryAfter} s` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Requête invalide : corps JSON attendu" }, { status: 400 });
+  }
+
+  try {
+    const referential = REFERENTIALS.find((r) => r === body.referential);
+    const chapter = body.chapter ? String(body.chapter) : undefined;
+    const ficheType = body.ficheType ? String(body.ficheType) : undefined;
+    const pseLevel = body.pseLevel ? Number(body.pseLevel) : undefined;
+    const count = body.count ? Number(body.count) : 5;
+
+    if (!referential) {
+      return NextResponse.json(
+        { error: `Référentiel invalide (attendu : ${REFERENTIALS.join(", ")})` },
+        { status: 400 }
+      );
+    }
+    if (ficheType && !isFicheType(ficheType)) {
+      return NextResponse.json({ error: `Type de fiche ${ficheType} inconnu` }, { status: 400 });
+    }
+    if (pseLevel !== undefined && pseLevel !== 1 && pseLevel !== 2) {
+      return NextResponse.json({ error: "Le niveau PSE doit être 1 ou 2" }, { status: 400 });
+    }
+    if (!Number.isInteger(count) || count < QUIZ_MIN_QUESTIONS || count > QUIZ_MAX_QUESTIONS) {
+      return NextResponse.json(
+        { error: `Le nombre de questions doit être compris entre ${QUIZ_MIN_QUESTIONS} et ${QUIZ_MAX_QUESTIONS}` },
+        { status: 400 }
+      );
+    }
+
+    // Chapitres propres au référentiel (ceux du PSC ne sont pas numérotés comme ceux du PSE)
+    if (chapter && !(await getFicheChapters())[referential].some((c) => c.chapter === chapter)) {
+      return NextResponse.json({ error: `Chapitre ${chapter} inconnu pour le ${referential}` }, { status: 400 });
+    }
+
+    const quiz = await createQuiz({ referential, chapter, ficheType, pseLevel }, count);
+
+    if (!quiz) {
+      return NextResponse.json(
+        { error: "Aucune fiche ne correspond à ces critères" },
+        { status: 404 }
+      );
+    }
+    if (quiz.questions.length === 0) {
+      return NextResponse.json(
+        { error: "Aucune question fiable n'a pu être générée, réessayez" },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(quiz);
+  } catch (error) {
+    console.error("Erreur API quiz:", error);
+    if (error instanceof ModelOutputError) {
+      return NextResponse.json(
+        { error: "Aucune question fiable n'a pu être générée, réessayez" },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Erreur lors de la génération du quiz" },
+      { status: 500 }
+    );
+  }
+}
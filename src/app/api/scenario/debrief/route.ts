@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { exceedsHistoryLimits, parseHistory } from "@/lib/conversation";
+import { createMemoryRateLimitStore, createRateLimiter, rateLimitHeaders, rateLimitKeys } from "@/lib/rate-limit";
+import { debriefScenario, getScenarioFiche } from "@/lib/scenario";
+
+// Chaque étape d'un cas concret déclenche un appel au modèle
+const rateLimiter = createRateLimiter(createMemoryRateLimitStore());
+
+// Débriefing : { ficheRef, referential, history }
+export async function POST(request: NextRequest) {
+  const limit = await rateLimiter.check(rateLimitKeys(request));
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Trop de demandes en peu de temps : réessayez dans ${limit.retryAfter} s` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Requête invalide : corps JSON attendu" }, { status: 400 });
+  }
+
+  if (exceedsHistoryLimits(body.history)) {
+    return NextResponse.json({ error: "Cas concret trop long : recommencez un nouveau cas" }, { status: 400 });
+  }
+
+  try {
+    const history = parseHistory(body.history);
+
+    if (!history.some((turn) => turn.role === "user")) {
+      return NextResponse.json(
+        { error: "Aucune action à débriefer" },
+        { status: 400 }
+      );
+    }
+
+    const fiche = await getScenarioFiche(String(body.ficheRef || ""), String(body.referential || ""));
+    if (!fiche) {
+      return NextResponse.json(
+        { error: `Fiche procédure ${body.ficheRef} introuvable` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await debriefScenario(fiche, history));
+  } catch (error) {
+    console.error("Erreur API débriefing:", error);
+    return NextResponse.json(
+      { error: "Erreur lors du débriefing" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createMemoryRateLimitStore, createRateLimiter, rateLimitHeaders, rateLimitKeys } from "@/lib/rate-limit";
+import { getFicheChapters } from "@/lib/fiches";
+import { REFERENTIALS } from "@/lib/referentiel";
+import { startScenario } from "@/lib/scenario";
+
+// Chaque étape d'un cas concret déclenche un appel au modèle
+const rateLimiter = createRateLimiter(createMemoryRateLimitStore());
+
+// Démarrer un cas concret : { referential, chapter? }
+export async function POST(request: NextRequest) {
+  const limit = await rateLimiter.check(rateLimitKeys(request));
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Trop de demandes en peu de temps : réessayez dans ${limit.retryAfter} s` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Requête invalide : corps JSON attendu" }, { status: 400 });
+  }
+
+  try {
+    const referential = REFERENTIALS.find((r) => r === body.referential);
+    const chapter = body.chapter ? String(body.chapter) : undefined;
+
+    if (!referential) {
+      return NextResponse.json(
+        { error: `Référentiel invalide (attendu : ${REFERENTIALS.join(", ")})` },
+        { status: 400 }
+      );
+    }
+    // Chapitres du référentiel ayant des fiches procédures
+    if (chapter && !(await getFicheChapters("PR"))[referential].some((c) => c.chapter === chapter)) {
+      return NextResponse.json({ error: `Chapitre ${chapter} inconnu pour le ${referential}` }, { status: 400 });
+    }
+
+    const scenario = await startScenario(referential, chapter);
+
+    if (!scenario) {
+      return NextResponse.json(
+        { error: "Aucune fiche procédure ne correspond à ces critères" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(scenario);
+  } catch (error) {
+    console.error("Erreur API cas concret:", error);
+    return NextResponse.json(
+      { error: "Erreur lors de la création du cas concret" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { exceedsHistoryLimits, parseHistory } from "@/lib/conversation";
+import { createMemoryRateLimitStore, createRateLimiter, rateLimitHeaders, rateLimitKeys } from "@/lib/rate-limit";
+import { getScenarioFiche, MAX_SCENARIO_TURNS, playScenarioTurn } from "@/lib/scenario";
+
+// Chaque étape d'un cas concret déclenche un appel au modèle
+const rateLimiter = createRateLimiter(createMemoryRateLimitStore());
+
+// Jouer un tour : { ficheRef, referential, history } (history se termine par l'action de l'apprenant)
+export async function POST(request: NextRequest) {
+  const limit = await rateLimiter.check(rateLimitKeys(request));
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Trop de demandes en peu de temps : réessayez dans ${limit.retryAfter} s` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Requête invalide : corps JSON attendu" }, { status: 400 });
+  }
+
+  if (exceedsHistoryLimits(body.history)) {
+    return NextResponse.json({ error: "Cas concret trop long : recommencez un nouveau cas" }, { status: 400 });
+  }
+
+  try {
+    const history = parseHistory(body.history);
+
+    if (history.length === 0 || history[history.length - 1].role !== "user") {
+      return NextResponse.json(
+        { error: "L'historique doit se terminer par une action de l'apprenant" },
+        { status: 400 }
+      );
+    }
+    if (history.length > MAX_SCENARIO_TURNS) {
+      return NextResponse.json(
+        { error: "Le cas concret est terminé : demandez le débriefing" },
+        { status: 400 }
+      );
+    }
+
+    const fiche = await getScenarioFiche(String(body.ficheRef || ""), String(body.referential || ""));
+    if (!fiche) {
+      return NextResponse.json(
+        { error: `Fiche procédure ${body.ficheRef} introuvable` },
+        { status: 404 }
+      );
+    }
+
+    const response = await playScenarioTurn(fiche, history);
+    return NextResponse.json({ response });
+  } catch (error) {
+    console.error("Erreur API cas concret:", error);
+    return NextResponse.json(
+      { error: "Erreur lors du déroulement du cas concret" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,284 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import ReactMarkdown from "react-markdown";
+import type { FicheChapter } from "@/lib/fiches";
+import type { Debriefing, Scenario } from "@/lib/scenario";
+import { REFERENTIALS, Referential, SCENARIO_CHAPTERS } from "@/lib/referentiel";
+
+interface Turn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Appel d'une route du cas concret, avec le message d'erreur renvoyé par l'API
+async function postScenario<T>(path: string, payload: unknown): Promise<T> {
+  const res = await fetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  const data = await res.json();
+
+  if (!res.ok) {
+    throw new Error(data.error || "Une erreur est survenue");
+  }
+  return data;
+}
+
+export default function ScenarioPage() {
+  const [referential, setReferential] = useState<Referential>("PSE");
+  const [chapter, setChapter] = useState("");
+  // Chapitres ayant des fiches procédures, par référentiel (SST : aucune, non proposé)
+  const [chapters, setChapters] = useState<Record<string, FicheChapter[]>>({});
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [turns, setTurns] = useState<Turn[]>([]);
+  const [action, setAction] = useState("");
+  const [debriefing, setDebriefing] = useState<Debriefing | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetch("/api/fiches/chapters?type=PR")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setChapters(data.chapters))
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    const available = REFERENTIALS.find((r) => chapters[r]?.length > 0);
+    if (chapters[referential]?.length === 0 && available) {
+      setReferential(available);
+      setChapter("");
+    }
+  }, [chapters, referential]);
+
+  // Tant que les chapitres ne sont pas chargés, tous les référentiels restent proposés
+  const referentials = REFERENTIALS.filter((r) => !chapters[r] || chapters[r].length > 0);
+  // PSE : chapitres de mise en situation uniquement (numérotation propre au PSE)
+  const referentialChapters = (chapters[referential] || []).filter(
+    (c) => referential !== "PSE" || SCENARIO_CHAPTERS.includes(c.chapter)
+  );
+
+  const selectReferential = (r: Referential) => {
+    setReferential(r);
+    setChapter("");
+  };
+
+  const run = async (task: () => Promise<void>) => {
+    setIsLoading(true);
+    setError("");
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Une erreur est survenue");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const start = () =>
+    run(async () => {
+      setScenario(null);
+      setTurns([]);
+      setDebriefing(null);
+
+      const data = await postScenario<Scenario>("/api/scenario", {
+        referential,
+        chapter: chapter || undefined,
+      });
+      setScenario(data);
+      setTurns([{ role: "assistant", content: data.opening }]);
+    });
+
+  const sendAction = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scenario || !action.trim()) return;
+
+    const history: Turn[] = [...turns, { role: "user", content: action.trim() }];
+    setTurns(history);
+    setAction("");
+
+    run(async () => {
+      try {
+        const data = await postScenario<{ response: string }>("/api/scenario/turn", {
+          ficheRef: scenario.ficheRef,
+          referential: scenario.referential,
+          history,
+        });
+        setTurns([...history, { role: "assistant", content: data.response }]);
+      } catch (err) {
+        // Rendre l'action à l'apprenant pour qu'il puisse la renvoyer
+        setTurns(turns);
+        setAction(history[history.length - 1].content);
+        throw err;
+      }
+    });
+  };
+
+  const debrief = () =>
+    run(async () => {
+      if (!scenario) return;
+      const data = await postScenario<Debriefing>("/api/scenario/debrief", {
+        ficheRef: scenario.ficheRef,
+        referential: scenario.referential,
+        history: turns,
+      });
+      setDebriefing(data);
+    });
+
+  const hasActions = turns.some((turn) => turn.role === "user");
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 pt-8 bg-[var(--bg-secondary)]">
+      <div className="w-full max-w-2xl space-y-6">
+        <div>
+          <Link href="/" className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+            ← Retour à SecouristIA
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-[var(--text-primary)]">Cas concret</h1>
+          <p className="mt-1 text-[var(--text-secondary)]">
+            Faites votre bilan et annoncez vos actions : le débriefing les compare aux fiches procédures
+          </p>
+        </div>
+
+        {/* Choix du cas */}
+        {!scenario && (
+          <div className="space-y-4 rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-4 shadow-sm">
+            <div className="flex gap-2">
+              {referentials.map((r) => (
+                <button
+                  key={r}
+                  onClick={() => selectReferential(r)}
+                  className={`rounded-lg px-6 py-2 text-sm font-semibold transition-colors ${
+                    r === referential
+                      ? "bg-red-600 text-white"
+                      : "border border-[var(--border-color)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                  }`}
+                >
+                  {r}
+                </button>
+              ))}
+            </div>
+            <select
+              value={chapter}
+              onChange={(e) => setChapter(e.target.value)}
+              className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-3 py-2 text-sm text-[var(--text-primary)]"
+            >
+              <option value="">Chapitre au hasard</option>
+              {referentialChapters.map(({ chapter: num, name }) => (
+                <option key={num} value={num}>
+                  {num} - {name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={start}
+              disabled={isLoading}
+              className="w-full rounded-lg bg-red-600 px-6 py-3 font-semibold text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoading ? "Préparation du cas..." : "Démarrer un cas concret"}
+            </button>
+          </div>
+        )}
+
+        {/* Déroulé */}
+        {turns.length > 0 && (
+          <div className="space-y-4">
+            {turns.map((turn, i) =>
+              turn.role === "user" ? (
+                <div key={i} className="flex justify-end">
+                  <div className="max-w-[85%] rounded-xl bg-red-600 px-4 py-3 text-white">{turn.content}</div>
+                </div>
+              ) : (
+                <div
+                  key={i}
+                  className="rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-4 text-[var(--text-primary)] shadow-sm"
+                >
+                  <p className="mb-1 text-xs font-medium text-red-600 dark:text-red-400">🚑 Situation</p>
+                  <p className="whitespace-pre-wrap">{turn.content}</p>
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        {scenario && !debriefing && (
+          <div className="space-y-3">
+            <form onSubmit={sendAction} className="flex gap-2">
+              <input
+                type="text"
+                value={action}
+                onChange={(e) => setAction(e.target.value)}
+                placeholder="Annoncez votre action ou votre question de bilan..."
+                className="flex-1 rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-4 py-3 text-[var(--text-primary)] placeholder-[var(--text-secondary)] focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500/20"
+                disabled={isLoading}
+              />
+              <button
+                type="submit"
+                disabled={isLoading || !action.trim()}
+                className="rounded-lg bg-red-600 px-6 py-3 font-semibold text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Agir
+              </button>
+            </form>
+            <button
+              onClick={debrief}
+              disabled={isLoading || !hasActions}
+              className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-6 py-2 text-sm font-semibold text-[var(--text-primary)] hover:border-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Terminer et débriefer
+            </button>
+          </div>
+        )}
+
+        {isLoading && scenario && (
+          <p className="text-center text-sm text-[var(--text-secondary)]">La situation évolue...</p>
+        )}
+
+        {error && (
+          <div className="rounded-lg bg-red-100 dark:bg-red-900/30 p-4 text-red-700 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Débriefing */}
+        {scenario && debriefing && (
+          <div className="rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-6 shadow-sm">
+            <p className="text-xs font-medium text-red-600 dark:text-red-400">
+              Débriefing · {scenario.ficheTitle} ({scenario.ficheRef})
+            </p>
+            <div className="prose prose-gray dark:prose-invert mt-2 max-w-none">
+              <ReactMarkdown>{debriefing.debrief}</ReactMarkdown>
+            </div>
+            <div className="mt-4 border-t border-[var(--border-color)] pt-4">
+              <p className="mb-1 text-xs font-medium text-[var(--text-secondary)]">Fiches procédures :</p>
+              <div className="flex flex-wrap gap-2">
+                {debriefing.ficheRefs.map((ref) => (
+                  <Link
+                    key={ref}
+                    href={`/fiches/${ref}`}
+                    className="inline-flex items-center rounded-full bg-blue-100 dark:bg-blue-900/30 px-3 py-1 text-xs font-medium text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/50"
+                  >
+                    {ref}
+                  </Link>
+                ))}
+              </div>
+            </div>
+            <button
+              onClick={() => {
+                setScenario(null);
+                setTurns([]);
+                setDebriefing(null);
+              }}
+              className="mt-4 rounded-lg bg-red-600 px-4 py-2 text-sm font-semibold text-white hover:bg-red-700"
+            >
+              Nouveau cas concret
+            </button>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,132 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { compareEditions, FicheEdition, getFicheEditions } from "@/lib/fiches";
+import { REFERENTIALS } from "@/lib/referentiel";
+
+export const dynamic = "force-dynamic";
+
+interface DiffPageProps {
+  params: { ref: string };
+  searchParams: { from?: string; to?: string; referential?: string };
+}
+
+function editionLabel(edition: FicheEdition): string {
+  const date = edition.updateDate || "sans date";
+  return edition.isCurrent ? `${date} (en vigueur)` : date;
+}
+
+// Lien vers la même page avec d'autres éditions sélectionnées
+function diffHref(ref: string, params: Record<string, string | null | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) query.set(key, value);
+  }
+  return `/fiches/${encodeURIComponent(ref)}/diff?${query.toString()}`;
+}
+
+export default async function FicheDiffPage({ params, searchParams }: DiffPageProps) {
+  const ref = decodeURIComponent(params.ref);
+  const referential = REFERENTIALS.find((r) => r === searchParams.referential);
+  if (!referential) {
+    notFound();
+  }
+  const editions = await getFicheEditions(ref, referential);
+  const comparison = compareEditions(editions, searchParams.from, searchParams.to);
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 pt-8 bg-[var(--bg-secondary)]">
+      <div className="w-full max-w-3xl space-y-6">
+        <div>
+          <Link href="/" className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+            ← Retour à SecouristIA
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-[var(--text-primary)]">Fiche {ref}</h1>
+          <p className="mt-1 text-[var(--text-secondary)]">Évolution entre deux éditions du référentiel</p>
+        </div>
+
+        {editions.length === 0 && (
+          <div className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] p-4 text-[var(--text-secondary)]">
+            Aucune édition trouvée pour cette fiche.
+          </div>
+        )}
+
+        {editions.length === 1 && (
+          <div className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] p-4 text-[var(--text-secondary)]">
+            Une seule édition de cette fiche est disponible ({editionLabel(editions[0])}).
+          </div>
+        )}
+
+        {editions.length > 1 && !comparison && (
+          <div className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] p-4 text-[var(--text-secondary)]">
+            Choisissez deux éditions distinctes :{" "}
+            <Link href={diffHref(ref, { referential })} className="underline hover:text-[var(--text-primary)]">
+              comparer les deux plus récentes
+            </Link>
+            .
+          </div>
+        )}
+
+        {comparison && (
+          <>
+            {/* Sélection des éditions */}
+            <div className="space-y-3 rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-4 shadow-sm">
+              {(["from", "to"] as const).map((side) => (
+                <div key={side} className="flex flex-wrap items-center gap-2">
+                  <span className="w-28 text-xs font-medium text-[var(--text-secondary)]">
+                    {side === "from" ? "Édition de départ" : "Édition comparée"}
+                  </span>
+                  {editions.map((edition) => {
+                    const selected = comparison[side] === edition;
+                    return (
+                      <Link
+                        key={`${edition.source}-${edition.updateDate}`}
+                        href={diffHref(ref, {
+                          ...searchParams,
+                          [side]: edition.updateDate,
+                        })}
+                        className={`rounded-full px-3 py-1 text-xs font-medium ${
+                          selected
+                            ? "bg-red-600 text-white"
+                            : "bg-gray-100 dark:bg-gray-700 text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                        }`}
+                      >
+                        {editionLabel(edition)}
+                        {edition.referential ? ` · ${edition.referential}` : ""}
+                      </Link>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+
+            {/* Résumé */}
+            <p className="text-sm text-[var(--text-secondary)]">
+              <span className="font-medium text-green-700 dark:text-green-400">+{comparison.stats.added} mots</span>
+              {" · "}
+              <span className="font-medium text-red-700 dark:text-red-400">−{comparison.stats.removed} mots</span>
+              {" entre "}
+              {editionLabel(comparison.from)} et {editionLabel(comparison.to)}
+            </p>
+
+            {/* Texte annoté */}
+            <div className="whitespace-pre-wrap rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-6 text-sm leading-relaxed text-[var(--text-primary)] shadow-sm">
+              {comparison.segments.map((segment, i) =>
+                segment.type === "added" ? (
+                  <ins key={i} className="bg-green-100 text-green-900 no-underline dark:bg-green-900/40 dark:text-green-200">
+                    {segment.text}
+                  </ins>
+                ) : segment.type === "removed" ? (
+                  <del key={i} className="bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-200">
+                    {segment.text}
+                  </del>
+                ) : (
+                  <span key={i}>{segment.text}</span>
+                )
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,75 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getFicheByRef } from "@/lib/fiches";
+
+export const dynamic = "force-dynamic";
+
+interface FichePageProps {
+  params: { ref: string };
+}
+
+export default async function FichePage({ params }: FichePageProps) {
+  const ref = decodeURIComponent(params.ref);
+  const fiches = await getFicheByRef(ref);
+
+  if (fiches.length === 0) {
+    notFound();
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 pt-8 bg-[var(--bg-secondary)]">
+      <div className="w-full max-w-3xl space-y-6">
+        <Link href="/fiches" className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+          ← Catalogue des fiches
+        </Link>
+
+        {fiches.map((fiche) => (
+          <article
+            key={`${fiche.referential}-${fiche.ref}`}
+            className="rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-6 shadow-sm"
+          >
+            <p className="text-sm font-medium text-red-600 dark:text-red-400">
+              {fiche.ref}
+              {fiche.ficheTypeName && ` · ${fiche.ficheTypeName}`}
+            </p>
+            <h1 className="text-2xl font-bold text-[var(--text-primary)]">{fiche.title}</h1>
+
+            <div className="mt-3 flex flex-wrap gap-2 text-xs">
+              {fiche.referential && (
+                <span className="rounded-full bg-gray-100 dark:bg-gray-700 px-3 py-1 text-[var(--text-secondary)]">
+                  {fiche.referential}
+                  {fiche.pseLevel ? ` · niveau ${fiche.pseLevel}` : ""}
+                </span>
+              )}
+              {fiche.chapter && (
+                <Link
+                  href={`/fiches/chapitre/${fiche.chapter}?referentiel=${fiche.referential || "PSE"}`}
+                  className="rounded-full bg-gray-100 dark:bg-gray-700 px-3 py-1 text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                >
+                  Chapitre {fiche.chapter}
+                  {fiche.chapterName && ` · ${fiche.chapterName}`}
+                </Link>
+              )}
+              {fiche.updateDate && (
+                <Link
+                  href={`/fiches/${fiche.ref}/diff?referential=${fiche.referential || ""}`}
+                  className="rounded-full bg-gray-100 dark:bg-gray-700 px-3 py-1 text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                >
+                  Édition {fiche.updateDate} · historique
+                </Link>
+              )}
+            </div>
+
+            <div className="mt-6 whitespace-pre-wrap text-sm leading-relaxed text-[var(--text-primary)]">
+              {fiche.content}
+            </div>
+
+            <p className="mt-6 border-t border-[var(--border-color)] pt-4 text-xs text-[var(--text-secondary)]">
+              Source : {fiche.source}
+            </p>
+          </article>
+        ))}
+      </div>
+    </main>
+  );
+}
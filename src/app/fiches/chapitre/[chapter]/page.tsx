@@ -0,0 +1,73 @@
+import Link from "next/link";
+import { getFichesByChapter } from "@/lib/fiches";
+import { FICHE_TYPES, REFERENTIALS } from "@/lib/referentiel";
+
+export const dynamic = "force-dynamic";
+
+interface ChapterPageProps {
+  params: { chapter: string };
+  searchParams: { referentiel?: string };
+}
+
+export default async function ChapterPage({ params, searchParams }: ChapterPageProps) {
+  const referential = REFERENTIALS.find((r) => r === searchParams.referentiel) || "PSE";
+  const fichesByType = await getFichesByChapter(params.chapter, referential);
+  const fiches = Object.values(fichesByType).flat();
+  // Nom du chapitre dans ce référentiel, lu sur ses fiches
+  const chapterName = fiches.find((fiche) => fiche.chapterName)?.chapterName || `Chapitre ${params.chapter}`;
+  const isEmpty = fiches.length === 0;
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 pt-8 bg-[var(--bg-secondary)]">
+      <div className="w-full max-w-3xl space-y-6">
+        <div>
+          <Link
+            href={`/fiches?referentiel=${referential}`}
+            className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+          >
+            ← Catalogue {referential}
+          </Link>
+          <p className="mt-2 text-sm font-medium text-red-600 dark:text-red-400">Chapitre {params.chapter}</p>
+          <h1 className="text-3xl font-bold text-[var(--text-primary)]">{chapterName}</h1>
+        </div>
+
+        {isEmpty && (
+          <div className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] p-4 text-[var(--text-secondary)]">
+            Aucune fiche dans ce chapitre.
+          </div>
+        )}
+
+        {Object.entries(fichesByType)
+          .filter(([, fiches]) => fiches.length > 0)
+          .map(([type, fiches]) => (
+            <section key={type} className="space-y-2">
+              <h2 className="text-lg font-semibold text-[var(--text-primary)]">
+                {FICHE_TYPES[type] || type} <span className="text-sm font-normal text-[var(--text-secondary)]">({fiches.length})</span>
+              </h2>
+              <ul className="divide-y divide-[var(--border-color)] rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] shadow-sm">
+                {fiches.map((fiche) => (
+                  <li key={fiche.ref}>
+                    <Link
+                      href={`/fiches/${fiche.ref}`}
+                      className="flex items-center gap-3 px-4 py-3 transition-colors hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    >
+                      <span className="inline-flex items-center rounded-full bg-blue-100 dark:bg-blue-900/30 px-3 py-1 text-xs font-medium text-blue-700 dark:text-blue-300">
+                        {fiche.ref}
+                      </span>
+                      <span className="flex-1 text-sm text-[var(--text-primary)]">{fiche.title}</span>
+                      {fiche.pseLevel && (
+                        <span className="text-xs text-[var(--text-secondary)]">PSE{fiche.pseLevel}</span>
+                      )}
+                      {fiche.updateDate && (
+                        <span className="text-xs text-[var(--text-secondary)]">{fiche.updateDate}</span>
+                      )}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,84 @@
+import Link from "next/link";
+import { getChapterCounts, getFicheChapters } from "@/lib/fiches";
+import { FICHE_TYPES, REFERENTIALS } from "@/lib/referentiel";
+
+export const dynamic = "force-dynamic";
+
+interface CataloguePageProps {
+  searchParams: { referentiel?: string };
+}
+
+export default async function CataloguePage({ searchParams }: CataloguePageProps) {
+  const referential = REFERENTIALS.find((r) => r === searchParams.referentiel) || "PSE";
+  // Chapitres et noms propres au référentiel (le PSC ne numérote pas ses chapitres comme le PSE)
+  const [counts, chaptersByReferential] = await Promise.all([getChapterCounts(referential), getFicheChapters()]);
+  const chapters = chaptersByReferential[referential] || [];
+  const hasFiches = chapters.length > 0;
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 pt-8 bg-[var(--bg-secondary)]">
+      <div className="w-full max-w-3xl space-y-6">
+        <div>
+          <Link href="/" className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+            ← Retour à SecouristIA
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-[var(--text-primary)]">Catalogue des fiches</h1>
+          <p className="mt-1 text-[var(--text-secondary)]">Consultez les fiches complètes des référentiels, par chapitre</p>
+        </div>
+
+        {/* Référentiels */}
+        <div className="flex gap-2">
+          {REFERENTIALS.map((r) => (
+            <Link
+              key={r}
+              href={`/fiches?referentiel=${r}`}
+              className={`rounded-lg px-6 py-2 text-sm font-semibold transition-colors ${
+                r === referential
+                  ? "bg-red-600 text-white"
+                  : "bg-[var(--bg-card)] border border-[var(--border-color)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+              }`}
+            >
+              {r}
+            </Link>
+          ))}
+        </div>
+
+        {!hasFiches && (
+          <div className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] p-4 text-[var(--text-secondary)]">
+            Aucune fiche référencée pour le {referential}.
+          </div>
+        )}
+
+        {hasFiches && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {chapters.map(({ chapter, name }) => {
+              const chapterCounts = counts[chapter] || {};
+              const total = Object.values(chapterCounts).reduce((sum, n) => sum + n, 0);
+
+              return (
+                <Link
+                  key={chapter}
+                  href={`/fiches/chapitre/${chapter}?referentiel=${referential}`}
+                  className={`rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-4 shadow-sm transition-colors hover:border-red-500 ${
+                    total === 0 ? "pointer-events-none opacity-50" : ""
+                  }`}
+                >
+                  <p className="text-xs font-medium text-red-600 dark:text-red-400">Chapitre {chapter}</p>
+                  <p className="font-semibold text-[var(--text-primary)]">{name}</p>
+                  <p className="mt-2 text-xs text-[var(--text-secondary)]">
+                    {total === 0
+                      ? "Aucune fiche"
+                      : Object.keys(FICHE_TYPES)
+                          .filter((type) => chapterCounts[type])
+                          .map((type) => `${chapterCounts[type]} ${type}`)
+                          .join(" · ")}
+                  </p>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,9 +1,16 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
 import "./globals.css";
 
 export const metadata: Metadata = {
   title: "SecouristIA - Assistant Secourisme",
   description: "Chatbot IA spécialisé dans les référentiels de secourisme français (PSE1, PSE2, PSC, SST)",
+  icons: { icon: "/icon.svg", apple: "/icon.svg" },
+  appleWebApp: { capable: true, title: "SecouristIA" },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#dc2626",
 };
 
 export default function RootLayout({
@@ -14,6 +21,7 @@ export default function RootLayout({
   return (
     <html lang="fr">
       <body className="min-h-screen bg-gray-50">
+        <ServiceWorkerRegistration />
         {children}
       </body>
     </html>
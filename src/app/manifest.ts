@@ -0,0 +1,16 @@
+import type { MetadataRoute } from "next";
+
+// Application installable (PWA) : voir public/sw.js pour le fonctionnement hors ligne
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "SecouristIA - Assistant Secourisme",
+    short_name: "SecouristIA",
+    description: "Chatbot IA spécialisé dans les référentiels de secourisme français (PSE1, PSE2, PSC, SST)",
+    lang: "fr",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#f9fafb",
+    theme_color: "#dc2626",
+    icons: [{ src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" }],
+  };
+}
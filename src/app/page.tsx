@@ -1,56 +1,50 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import ReactMarkdown from "react-markdown";
-import rehypeRaw from "rehype-raw";
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import AssistantMessage from "@/components/AssistantMessage";
+import ConversationHistory from "@/components/ConversationHistory";
+import FeedbackButtons from "@/components/FeedbackButtons";
+import FicheMemo from "@/components/FicheMemo";
+import OfflineFicheResults from "@/components/OfflineFicheResults";
+import { readStreamEvents } from "@/lib/chat-stream";
+import type { FeedbackFilters } from "@/lib/feedback";
+import { MAX_QUESTION_LENGTH } from "@/lib/conversation";
+import type { FicheChapter } from "@/lib/fiches";
+import { FICHE_TYPES } from "@/lib/referentiel";
+import {
+  FicheSnapshot,
+  OfflineMatch,
+  downloadFicheSnapshot,
+  loadFicheSnapshot,
+  searchFiches,
+} from "@/lib/offline-fiches";
+import {
+  ChatMessage,
+  SavedConversation,
+  completedMessages,
+  loadActiveConversationId,
+  loadConversations,
+  newConversationId,
+  removeConversation,
+  setActiveConversationId,
+  storeConversation,
+} from "@/lib/saved-conversations";
 
 type SourceFilter = "PSE" | "PSC" | "SST";
 
-interface Message {
-  role: "user" | "assistant";
-  content: string;
-  sources?: string[];
-  ficheRefs?: string[];
-}
-
 const filterConfig: { value: SourceFilter; label: string; bgColor: string }[] = [
   { value: "PSE", label: "PSE", bgColor: "bg-blue-600" },
   { value: "PSC", label: "PSC", bgColor: "bg-green-600" },
   { value: "SST", label: "SST", bgColor: "bg-orange-500" },
 ];
 
-// Transformer le markdown en blocs colorés
-function transformMarkdownToBlocks(markdown: string): string {
-  let result = markdown
-    .replace(/\t/g, ' ')
-    .replace(/([^\n]) {2,}/g, '$1 ')
-    .replace(/^\s+$/gm, '');
-
-  // :::do → bloc vert
-  result = result.replace(
-    /:::do\s*\n([\s\S]*?):::/g,
-    '<div class="action-block action-block-do"><div class="action-title">✅ À FAIRE</div>\n\n$1</div>'
-  );
-
-  // :::dont → bloc rouge
-  result = result.replace(
-    /:::dont\s*\n([\s\S]*?):::/g,
-    '<div class="action-block action-block-dont"><div class="action-title">❌ À NE PAS FAIRE</div>\n\n$1</div>'
-  );
-
-  // :::warning → bloc jaune
-  result = result.replace(
-    /:::warning\s*\n([\s\S]*?):::/g,
-    '<div class="action-block action-block-warning"><div class="action-title">⚠️ ATTENTION</div>\n\n$1</div>'
-  );
-
-  // :::info → bloc bleu
-  result = result.replace(
-    /:::info\s*\n([\s\S]*?):::/g,
-    '<div class="action-block action-block-info"><div class="action-title">ℹ️ INFORMATIONS</div>\n\n$1</div>'
-  );
-
-  return result;
+// Message d'erreur renvoyé par l'API (400 : question refusée, 429 : trop de questions)
+async function readApiError(res: Response): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  if (data.error) return data.error;
+  if (res.status === 429) return "Trop de questions en peu de temps : patientez avant de réessayer";
+  return "Une erreur est survenue";
 }
 
 // Toggle mode sombre
@@ -74,11 +68,77 @@ function DarkModeToggle({ isDark, onToggle }: { isDark: boolean; onToggle: () =>
 
 export default function Home() {
   const [question, setQuestion] = useState("");
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [sourceFilter, setSourceFilter] = useState<SourceFilter>("PSE");
+  const [pseLevel, setPseLevel] = useState("");
+  const [chapter, setChapter] = useState("");
+  // Chapitres ayant des fiches, par référentiel (chacun a sa propre numérotation)
+  const [chapters, setChapters] = useState<Record<string, FicheChapter[]>>({});
+  const [ficheType, setFicheType] = useState("");
+  const [compareMode, setCompareMode] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<SavedConversation[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [shareUrl, setShareUrl] = useState("");
+  const [isSharing, setIsSharing] = useState(false);
+  // Réponse en cours d'impression en fiche mémo
+  const [memo, setMemo] = useState<ChatMessage | null>(null);
+  const closeMemo = useCallback(() => setMemo(null), []);
+  const [isOnline, setIsOnline] = useState(true);
+  const [snapshot, setSnapshot] = useState<FicheSnapshot | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [offlineResults, setOfflineResults] = useState<{ query: string; matches: OfflineMatch[] } | null>(null);
+
+  // Reprendre la conversation affichée avant le rechargement de la page
+  useEffect(() => {
+    const saved = loadConversations();
+    const active = saved.find((conv) => conv.id === loadActiveConversationId());
+    setConversations(saved);
+    if (active) {
+      setConversationId(active.id);
+      setMessages(active.messages);
+    }
+  }, []);
+
+  // Enregistrer la conversation à la fin de chaque réponse (ou question refusée)
+  useEffect(() => {
+    if (isLoading || !conversationId || messages.length === 0) return;
+    setConversations(storeConversation(conversationId, messages));
+    setActiveConversationId(conversationId);
+  }, [isLoading, conversationId, messages]);
+
+  useEffect(() => {
+    fetch("/api/fiches/chapters")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setChapters(data.chapters))
+      .catch(() => {});
+  }, []);
+
+  // Un chapitre n'a de sens que dans son référentiel
+  const selectSource = (source: SourceFilter) => {
+    setSourceFilter(source);
+    setChapter("");
+  };
+  const sourceChapters = chapters[sourceFilter] || [];
+
+  // Mode hors ligne : état du réseau et copie des fiches déjà téléchargée
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    updateOnline();
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+    loadFicheSnapshot()
+      .then(setSnapshot)
+      .catch(() => setSnapshot(null));
+
+    return () => {
+      window.removeEventListener("online", updateOnline);
+      window.removeEventListener("offline", updateOnline);
+    };
+  }, []);
 
   useEffect(() => {
     const savedMode = localStorage.getItem("darkMode");
@@ -101,33 +161,135 @@ export default function Home() {
     e.preventDefault();
     if (!question.trim()) return;
 
-    const userMessage: Message = { role: "user", content: question };
+    // Hors ligne : recherche par mots-clés dans les fiches téléchargées, sans génération
+    if (!isOnline) {
+      setOfflineResults({
+        query: question,
+        matches: searchFiches(snapshot?.fiches || [], question, {
+          referential: compareMode ? undefined : sourceFilter,
+        }),
+      });
+      setQuestion("");
+      return;
+    }
+
+    const userMessage: ChatMessage = { role: "user", content: question };
     setMessages((prev) => [...prev, userMessage]);
     setQuestion("");
     setIsLoading(true);
     setError("");
+    setShareUrl("");
+    if (!conversationId) {
+      setConversationId(newConversationId());
+    }
+    let answered = false;
+    const filters: FeedbackFilters = compareMode
+      ? { mode: "compare" }
+      : {
+          mode: "chat",
+          source: sourceFilter,
+          pseLevel: sourceFilter === "PSE" && pseLevel ? Number(pseLevel) : undefined,
+          chapter: chapter || undefined,
+          ficheType: ficheType || undefined,
+        };
 
     try {
+      // Mode comparaison : réponse côte à côte des trois référentiels, sans streaming
+      if (compareMode) {
+        const res = await fetch("/api/chat", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            question: userMessage.content,
+            mode: "compare",
+            history: messages.map(({ role, content }) => ({ role, content })),
+          }),
+        });
+        if (!res.ok) {
+          throw new Error(await readApiError(res));
+        }
+        const data = await res.json();
+        answered = true;
+        setMessages((prev) => [
+          ...prev,
+          {
+            role: "assistant",
+            content: data.response,
+            comparison: data.comparison,
+            cached: data.cached,
+            question: userMessage.content,
+            filters,
+          },
+        ]);
+        return;
+      }
+
       const res = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question: userMessage.content, sourceFilter }),
+        body: JSON.stringify({
+          question: userMessage.content,
+          sourceFilter,
+          filters: { pseLevel: filters.pseLevel, chapter: filters.chapter, ficheType: filters.ficheType },
+          history: messages.map(({ role, content }) => ({ role, content })),
+          stream: true,
+        }),
       });
 
-      const data = await res.json();
-
       if (!res.ok) {
-        throw new Error(data.error || "Une erreur est survenue");
+        throw new Error(await readApiError(res));
       }
 
-      const assistantMessage: Message = {
-        role: "assistant",
-        content: data.response,
-        sources: data.sources || [],
-        ficheRefs: data.ficheRefs || [],
-      };
-      setMessages((prev) => [...prev, assistantMessage]);
+      // Mettre à jour le dernier message (la réponse en cours)
+      const updateAssistant = (update: (msg: ChatMessage) => ChatMessage) =>
+        setMessages((prev) => {
+          const last = prev[prev.length - 1];
+          if (!last || last.role !== "assistant") return prev;
+          return [...prev.slice(0, -1), update(last)];
+        });
+
+      let streamError = "";
+
+      await readStreamEvents(res, ({ event, data }) => {
+        if (event === "meta") {
+          const assistantMessage: ChatMessage = {
+            role: "assistant",
+            content: "",
+            sources: data.sources || [],
+            ficheRefs: data.ficheRefs || [],
+            citations: data.citations || [],
+            cached: data.cached,
+            question: userMessage.content,
+            filters,
+            isStreaming: true,
+          };
+          answered = true;
+          setMessages((prev) => [...prev, assistantMessage]);
+        } else if (event === "delta") {
+          updateAssistant((msg) => ({ ...msg, content: msg.content + data.text }));
+        } else if (event === "grounding") {
+          // Réponse vérifiée : affirmations non étayées signalées ou retirées
+          updateAssistant((msg) => ({
+            ...msg,
+            content: data.response,
+            grounding: { score: data.score, unsupported: data.unsupported || [] },
+          }));
+        } else if (event === "error") {
+          streamError = data.error;
+        }
+      });
+
+      updateAssistant((msg) => ({ ...msg, isStreaming: false }));
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
     } catch (err) {
+      // Question restée sans réponse (refusée ou limitée) : la remettre dans le champ
+      if (!answered) {
+        setMessages((prev) => prev.filter((msg) => msg !== userMessage));
+        setQuestion(userMessage.content);
+      }
       setError(err instanceof Error ? err.message : "Une erreur est survenue");
     } finally {
       setIsLoading(false);
@@ -136,14 +298,101 @@ export default function Home() {
 
   const handleNewConversation = () => {
     setMessages([]);
+    setConversationId(null);
+    setActiveConversationId(null);
+    setError("");
+    setShareUrl("");
+  };
+
+  const handleDownloadFiches = async () => {
+    setIsDownloading(true);
     setError("");
+
+    try {
+      setSnapshot(await downloadFicheSnapshot());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Téléchargement des fiches impossible, réessayez");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleSelectConversation = (conversation: SavedConversation) => {
+    if (isLoading) return;
+    setMessages(conversation.messages);
+    setConversationId(conversation.id);
+    setActiveConversationId(conversation.id);
+    setShowHistory(false);
+    setError("");
+    setShareUrl("");
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    setConversations(removeConversation(id));
+    if (id === conversationId) {
+      handleNewConversation();
+    }
+  };
+
+  // Figer une copie de la conversation côté serveur et copier son lien
+  // (position : ancre d'une réponse précise dans la conversation partagée)
+  const handleShare = async (position?: number) => {
+    setIsSharing(true);
+    setError("");
+
+    try {
+      const res = await fetch("/api/conversations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messages: completedMessages(messages) }),
+      });
+      if (!res.ok) {
+        throw new Error(await readApiError(res));
+      }
+      const { id } = await res.json();
+      const url = `${window.location.origin}/partage/${id}${position !== undefined ? `#reponse-${position}` : ""}`;
+      setShareUrl(url);
+      await navigator.clipboard?.writeText(url).catch(() => undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Partage impossible, réessayez");
+    } finally {
+      setIsSharing(false);
+    }
   };
 
   return (
-    <main className="flex min-h-screen flex-col items-center p-4 pt-8 bg-[var(--bg-secondary)] transition-colors">
-      <div className="w-full max-w-2xl space-y-6">
+    <main className="flex min-h-screen flex-col items-center p-4 pt-8 bg-[var(--bg-secondary)] transition-colors print:block print:bg-white print:p-0">
+      {memo && <FicheMemo message={memo} onDone={closeMemo} />}
+      {showHistory && (
+        <ConversationHistory
+          conversations={conversations}
+          activeId={conversationId}
+          onSelect={handleSelectConversation}
+          onDelete={handleDeleteConversation}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+      <div className="w-full max-w-2xl space-y-6 print:hidden">
         {/* Header */}
-        <div className="flex justify-end">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <button
+              type="button"
+              onClick={() => setShowHistory(true)}
+              className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+            >
+              🕘 Historique
+            </button>
+            <Link href="/fiches" className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+              📚 Catalogue des fiches
+            </Link>
+            <Link href="/quiz" className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+              📝 Quiz
+            </Link>
+            <Link href="/cas-concret" className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+              🚑 Cas concret
+            </Link>
+          </div>
           <div className="flex items-center gap-2">
             <span className="text-sm text-[var(--text-secondary)]">{isDarkMode ? "🌙" : "☀️"}</span>
             <DarkModeToggle isDark={isDarkMode} onToggle={toggleDarkMode} />
@@ -167,7 +416,7 @@ export default function Home() {
         </div>
 
         {/* Filtres */}
-        <div className="relative flex justify-center">
+        <div className={`relative flex justify-center transition-opacity ${compareMode ? "pointer-events-none opacity-40" : ""}`}>
           <div className="relative flex rounded-lg bg-[var(--bg-card)] dark:bg-gray-800 p-1 shadow-sm">
             <div
               className={`absolute top-1 bottom-1 rounded-md transition-all duration-300 ease-out ${
@@ -182,7 +431,7 @@ export default function Home() {
               <button
                 key={filter.value}
                 type="button"
-                onClick={() => setSourceFilter(filter.value)}
+                onClick={() => selectSource(filter.value)}
                 className={`relative z-10 px-8 py-3 text-base font-semibold transition-colors duration-300 ${
                   sourceFilter === filter.value ? "text-white" : "text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
                 }`}
@@ -193,6 +442,84 @@ export default function Home() {
           </div>
         </div>
 
+        {/* Comparaison des référentiels */}
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={() => setCompareMode(!compareMode)}
+            aria-pressed={compareMode}
+            className={`rounded-lg px-4 py-2 text-sm font-semibold transition-colors ${
+              compareMode
+                ? "bg-red-600 text-white hover:bg-red-700"
+                : "border border-[var(--border-color)] bg-[var(--bg-card)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+            }`}
+          >
+            ⚖️ {compareMode ? "Comparaison PSE / PSC / SST activée" : "Comparer PSE / PSC / SST"}
+          </button>
+        </div>
+
+        {/* Filtres de métadonnées (appliqués par la recherche, avant la sélection des extraits) */}
+        {!compareMode && (
+          <div className="flex flex-wrap justify-center gap-2">
+            {sourceFilter === "PSE" && (
+              <select
+                value={pseLevel}
+                onChange={(e) => setPseLevel(e.target.value)}
+                className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-3 py-2 text-sm text-[var(--text-primary)]"
+              >
+                <option value="">PSE1 et PSE2</option>
+                <option value="1">PSE1</option>
+                <option value="2">PSE2</option>
+              </select>
+            )}
+            <select
+              value={ficheType}
+              onChange={(e) => setFicheType(e.target.value)}
+              className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-3 py-2 text-sm text-[var(--text-primary)]"
+            >
+              <option value="">Tous les types</option>
+              {Object.entries(FICHE_TYPES).map(([code, name]) => (
+                <option key={code} value={code}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            {sourceChapters.length > 0 && (
+              <select
+                value={chapter}
+                onChange={(e) => setChapter(e.target.value)}
+                className="max-w-[16rem] rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-3 py-2 text-sm text-[var(--text-primary)]"
+              >
+                <option value="">Tous les chapitres</option>
+                {sourceChapters.map(({ chapter: num, name }) => (
+                  <option key={num} value={num}>
+                    {num} - {name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+
+        {/* Mode hors ligne */}
+        {!isOnline && (
+          <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-800 dark:border-amber-700 dark:bg-amber-900/20 dark:text-amber-200">
+            <strong>📴 Mode hors ligne.</strong>{" "}
+            {snapshot ? (
+              <>
+                Recherche par mots-clés dans les {snapshot.fiches.length} fiches téléchargées le{" "}
+                {new Date(snapshot.generatedAt).toLocaleDateString("fr-FR")} : aucune réponse n&apos;est rédigée par
+                l&apos;IA, lisez la fiche complète.
+              </>
+            ) : (
+              <>
+                Aucune fiche téléchargée sur cet appareil : la recherche hors ligne est indisponible. Une fois
+                connecté, téléchargez les fiches en bas de la page.
+              </>
+            )}
+          </div>
+        )}
+
         {/* Formulaire */}
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="relative">
@@ -200,13 +527,14 @@ export default function Home() {
               type="text"
               value={question}
               onChange={(e) => setQuestion(e.target.value)}
-              placeholder="Posez votre question sur le secourisme..."
+              placeholder={isOnline ? "Posez votre question sur le secourisme..." : "Mots-clés à rechercher dans les fiches..."}
+              maxLength={MAX_QUESTION_LENGTH}
               disabled={isLoading}
               className="w-full rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] px-6 py-4 pr-14 text-lg text-[var(--text-primary)] shadow-sm transition-all focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500/20 disabled:opacity-50 placeholder:text-[var(--text-secondary)]"
             />
             <button
               type="submit"
-              disabled={!question.trim() || isLoading}
+              disabled={!question.trim() || isLoading || (!isOnline && !snapshot)}
               className="absolute right-2 top-1/2 -translate-y-1/2 rounded-lg bg-red-600 p-2 text-white transition-colors hover:bg-red-700 disabled:cursor-not-allowed disabled:bg-gray-400"
             >
               {isLoading ? (
@@ -230,9 +558,12 @@ export default function Home() {
           </div>
         )}
 
-        {/* Bouton nouvelle conversation */}
+        {/* Fiches trouvées hors ligne */}
+        {!isOnline && offlineResults && <OfflineFicheResults query={offlineResults.query} matches={offlineResults.matches} />}
+
+        {/* Nouvelle conversation et partage */}
         {messages.length > 0 && (
-          <div className="flex justify-center">
+          <div className="flex justify-center gap-2">
             <button
               onClick={handleNewConversation}
               className="flex items-center gap-2 rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-4 py-2 text-sm text-[var(--text-secondary)] transition-colors hover:bg-gray-100 dark:hover:bg-gray-700"
@@ -242,13 +573,41 @@ export default function Home() {
               </svg>
               Nouvelle conversation
             </button>
+            {messages.some((msg) => msg.role === "assistant") && (
+              <button
+                onClick={() => handleShare()}
+                disabled={isLoading || isSharing}
+                className="flex items-center gap-2 rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-4 py-2 text-sm text-[var(--text-secondary)] transition-colors hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                🔗 {isSharing ? "Partage..." : "Partager"}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Lien de partage (lecture seule, copié dans le presse-papiers) */}
+        {shareUrl && (
+          <div className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] p-4 text-sm">
+            <div className="mb-2 flex items-center justify-between text-[var(--text-secondary)]">
+              Lien copié : la conversation est partagée telle qu&apos;elle est maintenant.
+              <button type="button" onClick={() => setShareUrl("")} aria-label="Fermer" className="hover:text-[var(--text-primary)]">
+                ✕
+              </button>
+            </div>
+            <input
+              type="text"
+              readOnly
+              value={shareUrl}
+              onFocus={(e) => e.target.select()}
+              className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-secondary)] px-3 py-2 text-[var(--text-primary)]"
+            />
           </div>
         )}
 
         {/* Messages */}
         {messages.length > 0 && (
           <div className="space-y-4">
-            {isLoading && (
+            {isLoading && messages[messages.length - 1]?.role !== "assistant" && (
               <div className="rounded-xl bg-[var(--bg-card)] border border-[var(--border-color)] p-6 shadow-sm">
                 <div className="flex items-center gap-2 text-sm text-[var(--text-secondary)]">
                   <svg className="h-5 w-5 animate-spin" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -259,54 +618,44 @@ export default function Home() {
                 </div>
               </div>
             )}
+            {/* Clé = position dans la conversation, pour que l'état des retours reste sur son message */}
             {[...messages].reverse().map((msg, index) => (
-              <div key={index} className={`${msg.role === "user" ? "flex justify-end" : ""}`}>
+              <div key={messages.length - 1 - index} className={`${msg.role === "user" ? "flex justify-end" : ""}`}>
                 {msg.role === "user" ? (
                   <div className="max-w-[85%] rounded-xl bg-red-600 px-4 py-3 text-white">
                     {msg.content}
                   </div>
                 ) : (
-                  <div className="rounded-xl bg-[var(--bg-card)] border border-[var(--border-color)] p-6 shadow-sm">
-                    <div className="mb-3 flex items-center gap-2 text-sm font-medium text-red-600 dark:text-red-400">
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
-                      </svg>
-                      SecouristIA
-                    </div>
-                    <div className="prose prose-gray dark:prose-invert max-w-none">
-                      <ReactMarkdown rehypePlugins={[rehypeRaw]}>
-                        {transformMarkdownToBlocks(msg.content)}
-                      </ReactMarkdown>
-                    </div>
-                    {((msg.ficheRefs && msg.ficheRefs.length > 0) || (msg.sources && msg.sources.length > 0)) && (
-                      <div className="mt-4 pt-4 border-t border-[var(--border-color)]">
-                        {msg.ficheRefs && msg.ficheRefs.length > 0 && (
-                          <div className="mb-2">
-                            <p className="text-xs font-medium text-[var(--text-secondary)] mb-1">Fiches consultées :</p>
-                            <div className="flex flex-wrap gap-2">
-                              {msg.ficheRefs.map((ref) => (
-                                <span key={ref} className="inline-flex items-center rounded-full bg-blue-100 dark:bg-blue-900/30 px-3 py-1 text-xs font-medium text-blue-700 dark:text-blue-300">
-                                  {ref}
-                                </span>
-                              ))}
-                            </div>
-                          </div>
-                        )}
-                        {msg.sources && msg.sources.length > 0 && (
-                          <div>
-                            <p className="text-xs font-medium text-[var(--text-secondary)] mb-1">Sources :</p>
-                            <div className="flex flex-wrap gap-2">
-                              {msg.sources.map((source) => (
-                                <span key={source} className="inline-flex items-center rounded-full bg-gray-100 dark:bg-gray-700 px-3 py-1 text-xs text-[var(--text-secondary)]">
-                                  {source}
-                                </span>
-                              ))}
-                            </div>
-                          </div>
-                        )}
+                  <AssistantMessage message={msg}>
+                    {!msg.isStreaming && msg.question && msg.filters && (
+                      <FeedbackButtons
+                        question={msg.question}
+                        answer={msg.content}
+                        citations={msg.comparison?.citations || msg.citations || []}
+                        filters={msg.filters}
+                      />
+                    )}
+                    {!msg.isStreaming && !isLoading && (
+                      <div className="mt-2 flex gap-4 text-xs text-[var(--text-secondary)]">
+                        <button
+                          type="button"
+                          onClick={() => handleShare(messages.length - 1 - index)}
+                          disabled={isSharing}
+                          className="hover:text-[var(--text-primary)] disabled:opacity-50"
+                        >
+                          🔗 Lien vers cette réponse
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setMemo(msg)}
+                          disabled={memo !== null}
+                          className="hover:text-[var(--text-primary)] disabled:opacity-50"
+                        >
+                          🖨️ Fiche mémo
+                        </button>
                       </div>
                     )}
-                  </div>
+                  </AssistantMessage>
                 )}
               </div>
             ))}
@@ -331,6 +680,26 @@ export default function Home() {
           </div>
         )}
 
+        {/* Fiches pour le mode hors ligne */}
+        <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-[var(--text-secondary)]">
+          <span>
+            📥{" "}
+            {snapshot
+              ? `${snapshot.fiches.length} fiches disponibles hors ligne (téléchargées le ${new Date(snapshot.generatedAt).toLocaleDateString("fr-FR")})`
+              : "Fiches non disponibles hors ligne sur cet appareil"}
+          </span>
+          {isOnline && (
+            <button
+              type="button"
+              onClick={handleDownloadFiches}
+              disabled={isDownloading}
+              className="underline hover:text-[var(--text-primary)] disabled:opacity-50"
+            >
+              {isDownloading ? "Téléchargement..." : snapshot ? "Mettre à jour" : "Télécharger les fiches"}
+            </button>
+          )}
+        </div>
+
         {/* Disclaimer */}
         <div className="mt-8 pt-6 border-t border-[var(--border-color)]">
           <div className="flex items-start gap-2 text-xs text-[var(--text-secondary)]">
@@ -338,7 +707,7 @@ export default function Home() {
               <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
             </svg>
             <p>
-              <strong className="text-amber-600 dark:text-amber-400">Avertissement :</strong> SecouristIA est un outil d'aide basé sur les référentiels officiels.
+              <strong className="text-amber-600 dark:text-amber-400">Avertissement :</strong> SecouristIA est un outil d&apos;aide basé sur les référentiels officiels.
               Vérifiez toujours les informations avec les documents sources (PSE, PSC, SST) avant toute intervention.
             </p>
           </div>
@@ -0,0 +1,72 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import AssistantMessage from "@/components/AssistantMessage";
+import { getSharedConversation } from "@/lib/shared-conversations";
+
+export const dynamic = "force-dynamic";
+
+interface SharedConversationPageProps {
+  params: { id: string };
+}
+
+// Conversation partagée, en lecture seule : réponses, extraits cités, fiches et sources
+// tels qu'ils étaient au moment du partage
+export default async function SharedConversationPage({ params }: SharedConversationPageProps) {
+  const conversation = await getSharedConversation(decodeURIComponent(params.id));
+
+  if (!conversation) {
+    notFound();
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 pt-8 bg-[var(--bg-secondary)]">
+      <div className="w-full max-w-2xl space-y-6">
+        <div>
+          <Link href="/" className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+            ← Poser une question à SecouristIA
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold text-[var(--text-primary)]">{conversation.title}</h1>
+          <p className="mt-1 text-sm text-[var(--text-secondary)]">
+            Conversation partagée le {new Date(conversation.createdAt).toLocaleString("fr-FR")}. Les réponses et
+            extraits sont ceux de cette date : les fiches ont pu être mises à jour depuis.
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          {conversation.messages.map((msg, index) =>
+            msg.role === "user" ? (
+              <div key={index} className="flex justify-end">
+                <div className="max-w-[85%] rounded-xl bg-red-600 px-4 py-3 text-white">{msg.content}</div>
+              </div>
+            ) : (
+              <AssistantMessage key={index} id={`reponse-${index}`} message={msg}>
+                {msg.filters && (
+                  <div className="mt-3 flex flex-wrap gap-2 text-xs text-[var(--text-secondary)]">
+                    {[
+                      msg.filters.mode === "compare" ? "Comparaison PSE / PSC / SST" : msg.filters.source,
+                      msg.filters.pseLevel && `PSE${msg.filters.pseLevel}`,
+                      msg.filters.chapter && `Chapitre ${msg.filters.chapter}`,
+                      msg.filters.ficheType,
+                    ]
+                      .filter(Boolean)
+                      .map((label) => (
+                        <span key={String(label)} className="rounded-full bg-gray-100 dark:bg-gray-700 px-3 py-1">
+                          {label}
+                        </span>
+                      ))}
+                  </div>
+                )}
+              </AssistantMessage>
+            )
+          )}
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-[var(--border-color)] text-xs text-[var(--text-secondary)]">
+          <strong className="text-amber-600 dark:text-amber-400">Avertissement :</strong> SecouristIA est un outil d&apos;aide
+          basé sur les référentiels officiels. Vérifiez toujours les informations avec les documents sources (PSE, PSC, SST)
+          avant toute intervention.
+        </div>
+      </div>
+    </main>
+  );
+}
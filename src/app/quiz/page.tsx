@@ -0,0 +1,342 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { FicheChapter } from "@/lib/fiches";
+import type { QuizQuestion } from "@/lib/quiz";
+import { FICHE_TYPES, REFERENTIALS, Referential } from "@/lib/referentiel";
+
+// Scores cumulés par référentiel et chapitre, conservés dans le navigateur
+type ChapterScores = Record<string, { correct: number; total: number }>;
+
+const SCORES_STORAGE_KEY = "quizScores";
+
+// En dessous, le chapitre est signalé comme point faible
+const WEAK_AREA_RATE = 0.6;
+
+function loadScores(): ChapterScores {
+  try {
+    return JSON.parse(localStorage.getItem(SCORES_STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function scoreKey(question: QuizQuestion): string {
+  return `${question.referential || "?"}|${question.chapter || "?"}`;
+}
+
+function chapterLabel(key: string, chapters: Record<string, FicheChapter[]>): string {
+  const [referential, chapter] = key.split("|");
+  const name = chapters[referential]?.find((c) => c.chapter === chapter)?.name;
+  return name ? `${referential} · ${chapter} ${name}` : `${referential} · chapitre ${chapter}`;
+}
+
+export default function QuizPage() {
+  const [referential, setReferential] = useState<Referential>("PSE");
+  const [chapter, setChapter] = useState("");
+  // Chapitres ayant des fiches, par référentiel (un référentiel sans fiche n'est pas proposé)
+  const [chapters, setChapters] = useState<Record<string, FicheChapter[]>>({});
+  const [ficheType, setFicheType] = useState("");
+  const [pseLevel, setPseLevel] = useState("");
+  const [count, setCount] = useState(5);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<string, number>>({});
+  const [scores, setScores] = useState<ChapterScores>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setScores(loadScores());
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/fiches/chapters")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setChapters(data.chapters))
+      .catch(() => {});
+  }, []);
+
+  // Tant que les chapitres ne sont pas chargés, tous les référentiels restent proposés
+  const referentials = REFERENTIALS.filter((r) => !chapters[r] || chapters[r].length > 0);
+
+  useEffect(() => {
+    const available = REFERENTIALS.find((r) => chapters[r]?.length > 0);
+    if (chapters[referential]?.length === 0 && available) {
+      setReferential(available);
+      setChapter("");
+    }
+  }, [chapters, referential]);
+
+  const selectReferential = (r: Referential) => {
+    setReferential(r);
+    setChapter("");
+  };
+
+  const generateQuiz = async () => {
+    setIsLoading(true);
+    setError("");
+    setQuestions([]);
+    setAnswers({});
+
+    try {
+      const res = await fetch("/api/quiz", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          referential,
+          chapter: chapter || undefined,
+          ficheType: ficheType || undefined,
+          pseLevel: referential === "PSE" && pseLevel ? Number(pseLevel) : undefined,
+          count,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Une erreur est survenue");
+      }
+      setQuestions(data.questions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Une erreur est survenue");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const answerQuestion = (question: QuizQuestion, choice: number) => {
+    if (answers[question.id] !== undefined) return;
+    setAnswers((prev) => ({ ...prev, [question.id]: choice }));
+
+    const key = scoreKey(question);
+    const previous = scores[key] || { correct: 0, total: 0 };
+    const updated = {
+      ...scores,
+      [key]: {
+        correct: previous.correct + (choice === question.answer ? 1 : 0),
+        total: previous.total + 1,
+      },
+    };
+    setScores(updated);
+    localStorage.setItem(SCORES_STORAGE_KEY, JSON.stringify(updated));
+  };
+
+  const resetScores = () => {
+    setScores({});
+    localStorage.removeItem(SCORES_STORAGE_KEY);
+  };
+
+  const answeredCount = Object.keys(answers).length;
+  const correctCount = questions.filter((q) => answers[q.id] === q.answer).length;
+  const isFinished = questions.length > 0 && answeredCount === questions.length;
+
+  // Chapitres du plus faible au plus fort
+  const chapterScores = Object.entries(scores).sort(
+    ([, a], [, b]) => a.correct / a.total - b.correct / b.total
+  );
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 pt-8 bg-[var(--bg-secondary)]">
+      <div className="w-full max-w-2xl space-y-6">
+        <div>
+          <Link href="/" className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+            ← Retour à SecouristIA
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-[var(--text-primary)]">Quiz de révision</h1>
+          <p className="mt-1 text-[var(--text-secondary)]">QCM générés à partir des fiches des référentiels</p>
+        </div>
+
+        {/* Paramètres du quiz */}
+        <div className="space-y-4 rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-4 shadow-sm">
+          <div className="flex gap-2">
+            {referentials.map((r) => (
+              <button
+                key={r}
+                onClick={() => selectReferential(r)}
+                className={`rounded-lg px-6 py-2 text-sm font-semibold transition-colors ${
+                  r === referential
+                    ? "bg-red-600 text-white"
+                    : "border border-[var(--border-color)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                }`}
+              >
+                {r}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <select
+              value={chapter}
+              onChange={(e) => setChapter(e.target.value)}
+              className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-3 py-2 text-sm text-[var(--text-primary)]"
+            >
+              <option value="">Tous les chapitres</option>
+              {(chapters[referential] || []).map(({ chapter: num, name }) => (
+                <option key={num} value={num}>
+                  {num} - {name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={ficheType}
+              onChange={(e) => setFicheType(e.target.value)}
+              className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-3 py-2 text-sm text-[var(--text-primary)]"
+            >
+              <option value="">Tous les types de fiches</option>
+              {Object.entries(FICHE_TYPES).map(([type, name]) => (
+                <option key={type} value={type}>
+                  {type} - {name}
+                </option>
+              ))}
+            </select>
+            {referential === "PSE" && (
+              <select
+                value={pseLevel}
+                onChange={(e) => setPseLevel(e.target.value)}
+                className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-3 py-2 text-sm text-[var(--text-primary)]"
+              >
+                <option value="">PSE1 et PSE2</option>
+                <option value="1">PSE1</option>
+                <option value="2">PSE2</option>
+              </select>
+            )}
+            <select
+              value={count}
+              onChange={(e) => setCount(Number(e.target.value))}
+              className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-3 py-2 text-sm text-[var(--text-primary)]"
+            >
+              {[5, 10].map((n) => (
+                <option key={n} value={n}>
+                  {n} questions
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            onClick={generateQuiz}
+            disabled={isLoading}
+            className="w-full rounded-lg bg-red-600 px-6 py-3 font-semibold text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isLoading ? "Génération du quiz..." : "Générer le quiz"}
+          </button>
+        </div>
+
+        {error && (
+          <div className="rounded-lg bg-red-100 dark:bg-red-900/30 p-4 text-red-700 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Questions */}
+        {questions.map((question, index) => {
+          const selected = answers[question.id];
+          const isAnswered = selected !== undefined;
+
+          return (
+            <div
+              key={question.id}
+              className="space-y-3 rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-6 shadow-sm"
+            >
+              <p className="text-xs font-medium text-red-600 dark:text-red-400">
+                Question {index + 1} / {questions.length}
+              </p>
+              <p className="font-semibold text-[var(--text-primary)]">{question.question}</p>
+
+              <div className="space-y-2">
+                {question.choices.map((choice, i) => {
+                  const style = !isAnswered
+                    ? "border-[var(--border-color)] hover:border-red-500"
+                    : i === question.answer
+                      ? "border-green-500 bg-green-50 dark:bg-green-900/20"
+                      : i === selected
+                        ? "border-red-500 bg-red-50 dark:bg-red-900/20"
+                        : "border-[var(--border-color)] opacity-60";
+
+                  return (
+                    <button
+                      key={i}
+                      onClick={() => answerQuestion(question, i)}
+                      disabled={isAnswered}
+                      className={`w-full rounded-lg border px-4 py-2 text-left text-sm text-[var(--text-primary)] transition-colors ${style}`}
+                    >
+                      {String.fromCharCode(65 + i)}. {choice}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {isAnswered && (
+                <div className="rounded-lg bg-[var(--bg-secondary)] p-3 text-sm text-[var(--text-primary)]">
+                  <p className="font-medium">
+                    {selected === question.answer ? "✅ Bonne réponse" : "❌ Mauvaise réponse"}
+                  </p>
+                  <p className="mt-1">{question.explanation}</p>
+                  <Link
+                    href={`/fiches/${question.ficheRef}`}
+                    className="mt-2 inline-block text-xs font-medium text-blue-700 dark:text-blue-300 hover:underline"
+                  >
+                    Revoir la fiche {question.ficheRef} - {question.ficheTitle} →
+                  </Link>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {isFinished && (
+          <div className="rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-4 text-center shadow-sm">
+            <p className="text-2xl font-bold text-[var(--text-primary)]">
+              {correctCount} / {questions.length}
+            </p>
+            <button
+              onClick={generateQuiz}
+              className="mt-3 rounded-lg bg-red-600 px-4 py-2 text-sm font-semibold text-white hover:bg-red-700"
+            >
+              Nouveau quiz
+            </button>
+          </div>
+        )}
+
+        {/* Résultats par chapitre */}
+        {chapterScores.length > 0 && (
+          <div className="space-y-3 rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-4 shadow-sm">
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold text-[var(--text-primary)]">Vos résultats par chapitre</h2>
+              <button
+                onClick={resetScores}
+                className="text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+              >
+                Réinitialiser
+              </button>
+            </div>
+            {chapterScores.map(([key, { correct, total }]) => {
+              const rate = correct / total;
+              return (
+                <div key={key}>
+                  <div className="flex justify-between text-xs text-[var(--text-secondary)]">
+                    <span>
+                      {chapterLabel(key, chapters)}
+                      {rate < WEAK_AREA_RATE && (
+                        <span className="ml-2 font-medium text-red-600 dark:text-red-400">Point faible</span>
+                      )}
+                    </span>
+                    <span>
+                      {correct} / {total} ({Math.round(rate * 100)} %)
+                    </span>
+                  </div>
+                  <div className="mt-1 h-2 rounded-full bg-gray-100 dark:bg-gray-700">
+                    <div
+                      className={`h-2 rounded-full ${rate < WEAK_AREA_RATE ? "bg-red-500" : "bg-green-500"}`}
+                      style={{ width: `${Math.round(rate * 100)}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
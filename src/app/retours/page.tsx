@@ -0,0 +1,99 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getNegativeFeedback, isReviewTokenValid } from "@/lib/feedback";
+
+export const dynamic = "force-dynamic";
+
+interface ReviewPageProps {
+  searchParams: { token?: string };
+}
+
+// Relecture des retours négatifs, avec les extraits exacts utilisés pour chaque réponse.
+// Accessible uniquement avec ?token=FEEDBACK_REVIEW_TOKEN (404 si le jeton n'est pas défini)
+export default async function ReviewPage({ searchParams }: ReviewPageProps) {
+  if (!isReviewTokenValid(searchParams.token)) {
+    notFound();
+  }
+
+  const feedback = await getNegativeFeedback();
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 pt-8 bg-[var(--bg-secondary)]">
+      <div className="w-full max-w-3xl space-y-6">
+        <div>
+          <Link href="/" className="text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+            ← Retour à SecouristIA
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-[var(--text-primary)]">Retours à relire</h1>
+          <p className="mt-1 text-[var(--text-secondary)]">
+            Réponses signalées comme fausses ou incomplètes, les plus récentes d&apos;abord
+          </p>
+        </div>
+
+        {feedback.length === 0 && (
+          <div className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] p-4 text-[var(--text-secondary)]">
+            Aucun retour négatif.
+          </div>
+        )}
+
+        {feedback.map((item) => (
+          <article
+            key={item.id}
+            className="rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-6 shadow-sm"
+          >
+            <div className="flex flex-wrap items-center gap-2 text-xs text-[var(--text-secondary)]">
+              <span>👎 {new Date(item.createdAt).toLocaleString("fr-FR")}</span>
+              {[
+                item.filters.mode === "compare" ? "Comparaison PSE / PSC / SST" : item.filters.source,
+                item.filters.pseLevel && `PSE${item.filters.pseLevel}`,
+                item.filters.chapter && `Chapitre ${item.filters.chapter}`,
+                item.filters.ficheType,
+              ]
+                .filter(Boolean)
+                .map((label) => (
+                  <span key={String(label)} className="rounded-full bg-gray-100 dark:bg-gray-700 px-3 py-1">
+                    {label}
+                  </span>
+                ))}
+            </div>
+
+            <h2 className="mt-3 text-lg font-semibold text-[var(--text-primary)]">{item.question}</h2>
+
+            {item.comment && (
+              <p className="mt-2 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 p-3 text-sm text-yellow-800 dark:text-yellow-200">
+                {item.comment}
+              </p>
+            )}
+
+            <details className="mt-4">
+              <summary className="cursor-pointer text-sm font-medium text-[var(--text-primary)]">Réponse donnée</summary>
+              <div className="mt-2 whitespace-pre-wrap text-sm leading-relaxed text-[var(--text-primary)]">
+                {item.answer}
+              </div>
+            </details>
+
+            <div className="mt-4 space-y-2">
+              <p className="text-sm font-medium text-[var(--text-primary)]">
+                Extraits utilisés ({item.documents.length})
+              </p>
+              {item.documents.length < item.documentIds.length && (
+                <p className="text-xs text-[var(--text-secondary)]">
+                  {item.documentIds.length - item.documents.length} extrait(s) déjà supprimé(s) lors du retour
+                </p>
+              )}
+              {item.documents.map((doc) => (
+                <details key={doc.id} className="rounded-lg border border-[var(--border-color)] p-3">
+                  <summary className="cursor-pointer text-xs font-medium text-[var(--text-secondary)]">
+                    [{item.documentIds.indexOf(doc.id) + 1}] {doc.fiche_ref || "Sans fiche"}
+                    {doc.update_date && ` · édition ${doc.update_date}`} · {doc.source} · document #{doc.id}
+                  </summary>
+                  <div className="mt-2 whitespace-pre-wrap text-sm text-[var(--text-primary)]">{doc.content}</div>
+                </details>
+              ))}
+            </div>
+          </article>
+        ))}
+      </div>
+    </main>
+  );
+}
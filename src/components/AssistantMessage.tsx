@@ -0,0 +1,113 @@
+"use client";
+
+import Link from "next/link";
+import ReactMarkdown from "react-markdown";
+import CitationMarker from "@/components/CitationMarker";
+import ComparisonView from "@/components/ComparisonView";
+import { transformMarkdownToBlocks } from "@/lib/action-blocks";
+import { ANSWER_REHYPE_PLUGINS, renderUnsupportedClaims } from "@/lib/answer-markup";
+import { markCitations } from "@/lib/citations";
+import type { ChatMessage } from "@/lib/saved-conversations";
+
+interface AssistantMessageProps {
+  message: ChatMessage;
+  // Ancre de la réponse (lien vers une réponse précise d'une conversation partagée)
+  id?: string;
+  // Actions sous la réponse (retours, partage)
+  children?: React.ReactNode;
+}
+
+// Réponse de SecouristIA : texte avec marqueurs [n], ancrage, fiches et sources consultées
+export default function AssistantMessage({ message, id, children }: AssistantMessageProps) {
+  return (
+    <div id={id} className="scroll-mt-4 rounded-xl bg-[var(--bg-card)] border border-[var(--border-color)] p-6 shadow-sm target:ring-2 target:ring-red-500">
+      <div className="mb-3 flex items-center gap-2 text-sm font-medium text-red-600 dark:text-red-400">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+        </svg>
+        SecouristIA
+        {message.isStreaming && (
+          <span className="ml-1 inline-block h-2 w-2 animate-pulse rounded-full bg-red-600 dark:bg-red-400" />
+        )}
+        {message.grounding && (
+          <span
+            title="Part des affirmations retrouvées dans les extraits consultés"
+            className={`ml-auto rounded-full px-2 py-0.5 text-xs font-medium ${
+              message.grounding.score >= 0.9
+                ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300"
+                : message.grounding.score >= 0.7
+                  ? "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300"
+                  : "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300"
+            }`}
+          >
+            Ancrage : {Math.round(message.grounding.score * 100)} %
+          </span>
+        )}
+        {message.cached && (
+          <span
+            title="Question déjà posée : réponse enregistrée pour la version actuelle des référentiels"
+            className={`${message.grounding ? "" : "ml-auto "}rounded-full bg-gray-100 dark:bg-gray-800 px-2 py-0.5 text-xs font-medium text-[var(--text-secondary)]`}
+          >
+            ⚡ Réponse en cache
+          </span>
+        )}
+      </div>
+      {message.comparison ? (
+        <ComparisonView comparison={message.comparison} />
+      ) : (
+        <div className="prose prose-gray dark:prose-invert max-w-none">
+          <ReactMarkdown
+            rehypePlugins={ANSWER_REHYPE_PLUGINS}
+            components={{
+              cite: ({ children }) => (
+                <CitationMarker citation={message.citations?.[Number(String(children)) - 1]} />
+              ),
+            }}
+          >
+            {transformMarkdownToBlocks(
+              markCitations(renderUnsupportedClaims(message.content), message.citations?.length || 0)
+            )}
+          </ReactMarkdown>
+        </div>
+      )}
+      {message.grounding && message.grounding.unsupported.length > 0 && (
+        <p className="mt-3 text-xs text-yellow-700 dark:text-yellow-300">
+          ⚠️ Affirmations non retrouvées dans les extraits consultés ({message.grounding.unsupported.length}) : à vérifier dans le référentiel.
+        </p>
+      )}
+      {((message.ficheRefs && message.ficheRefs.length > 0) || (message.sources && message.sources.length > 0)) && (
+        <div className="mt-4 pt-4 border-t border-[var(--border-color)]">
+          {message.ficheRefs && message.ficheRefs.length > 0 && (
+            <div className="mb-2">
+              <p className="text-xs font-medium text-[var(--text-secondary)] mb-1">Fiches consultées :</p>
+              <div className="flex flex-wrap gap-2">
+                {message.ficheRefs.map((ref) => (
+                  <Link
+                    key={ref}
+                    href={`/fiches/${ref}`}
+                    className="inline-flex items-center rounded-full bg-blue-100 dark:bg-blue-900/30 px-3 py-1 text-xs font-medium text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/50"
+                  >
+                    {ref}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+          {message.sources && message.sources.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-[var(--text-secondary)] mb-1">Sources :</p>
+              <div className="flex flex-wrap gap-2">
+                {message.sources.map((source) => (
+                  <span key={source} className="inline-flex items-center rounded-full bg-gray-100 dark:bg-gray-700 px-3 py-1 text-xs text-[var(--text-secondary)]">
+                    {source}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+      {children}
+    </div>
+  );
+}
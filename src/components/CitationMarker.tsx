@@ -0,0 +1,53 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { Citation } from "@/lib/citations";
+
+// Marqueur [n] cliquable : affiche l'extrait exact sur lequel repose l'élément de réponse
+export default function CitationMarker({ citation }: { citation?: Citation }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!citation) {
+    return null;
+  }
+
+  return (
+    <span className="relative inline-block">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="citation-marker"
+        aria-label={`Voir l'extrait ${citation.marker}`}
+        aria-expanded={isOpen}
+      >
+        {citation.marker}
+      </button>
+      {isOpen && (
+        <span className="citation-popover">
+          <span className="mb-2 flex items-center justify-between gap-2 text-xs font-medium text-[var(--text-secondary)]">
+            <span>
+              Extrait {citation.marker}
+              {citation.ficheRef && (
+                <>
+                  {" · "}
+                  <Link href={`/fiches/${citation.ficheRef}`} className="text-blue-700 dark:text-blue-300 hover:underline">
+                    {citation.ficheRef}
+                  </Link>
+                </>
+              )}
+              {" · "}
+              {citation.source}
+            </span>
+            <button type="button" onClick={() => setIsOpen(false)} aria-label="Fermer" className="hover:text-[var(--text-primary)]">
+              ✕
+            </button>
+          </span>
+          <span className="block max-h-64 overflow-y-auto whitespace-pre-wrap text-xs leading-relaxed text-[var(--text-primary)]">
+            {citation.content}
+          </span>
+        </span>
+      )}
+    </span>
+  );
+}
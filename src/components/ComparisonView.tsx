@@ -0,0 +1,109 @@
+"use client";
+
+import Link from "next/link";
+import ReactMarkdown from "react-markdown";
+import CitationMarker from "@/components/CitationMarker";
+import { ANSWER_REHYPE_PLUGINS, renderUnsupportedClaims } from "@/lib/answer-markup";
+import { Citation, markCitations } from "@/lib/citations";
+import type { Comparison } from "@/lib/comparison";
+
+// Couleur d'en-tête de chaque référentiel (mêmes couleurs que le choix de la source)
+const REFERENTIAL_COLORS: Record<string, string> = {
+  PSE: "bg-blue-600",
+  PSC: "bg-green-600",
+  SST: "bg-orange-500",
+};
+
+// Texte markdown avec marqueurs [n] cliquables
+function CitedMarkdown({ text, citations }: { text: string; citations: Citation[] }) {
+  return (
+    <ReactMarkdown
+      rehypePlugins={ANSWER_REHYPE_PLUGINS}
+      components={{
+        cite: ({ children }) => <CitationMarker citation={citations[Number(String(children)) - 1]} />,
+      }}
+    >
+      {markCitations(renderUnsupportedClaims(text), citations.length)}
+    </ReactMarkdown>
+  );
+}
+
+// Réponse du mode comparaison : une colonne par référentiel, puis les différences
+export default function ComparisonView({ comparison }: { comparison: Comparison }) {
+  const { answers, differences, citations } = comparison;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 md:grid-cols-3">
+        {answers.map((answer) => (
+          <div
+            key={answer.referential}
+            className="flex flex-col overflow-hidden rounded-lg border border-[var(--border-color)]"
+          >
+            <div
+              className={`flex items-center justify-between px-3 py-2 text-sm font-semibold text-white ${
+                REFERENTIAL_COLORS[answer.referential] || "bg-gray-500"
+              }`}
+            >
+              {answer.referential}
+              {answer.grounding && (
+                <span
+                  title="Part des affirmations retrouvées dans les extraits consultés"
+                  className="rounded-full bg-white/20 px-2 py-0.5 text-xs font-medium"
+                >
+                  {Math.round(answer.grounding.score * 100)} %
+                </span>
+              )}
+            </div>
+            <div className="flex-1 p-3 text-sm">
+              {answer.silent ? (
+                <p className="italic text-[var(--text-secondary)]">
+                  Le {answer.referential} ne traite pas cette situation dans les extraits consultés.
+                </p>
+              ) : (
+                <div className="prose prose-sm prose-gray dark:prose-invert max-w-none">
+                  <CitedMarkdown text={answer.answer} citations={citations} />
+                </div>
+              )}
+            </div>
+            {answer.ficheRefs.length > 0 && (
+              <div className="flex flex-wrap gap-1 border-t border-[var(--border-color)] p-3">
+                {answer.ficheRefs.map((ref) => (
+                  <Link
+                    key={ref}
+                    href={`/fiches/${ref}`}
+                    className="inline-flex items-center rounded-full bg-blue-100 dark:bg-blue-900/30 px-2 py-0.5 text-xs font-medium text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/50"
+                  >
+                    {ref}
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="rounded-lg border border-[var(--border-color)] p-4">
+        <p className="mb-2 text-sm font-semibold text-[var(--text-primary)]">⚖️ Différences entre référentiels</p>
+        {differences.length > 0 ? (
+          <ul className="prose prose-sm prose-gray dark:prose-invert max-w-none list-disc pl-5">
+            {differences.map((difference, i) => (
+              <li key={i}>
+                <CitedMarkdown text={difference} citations={citations} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-[var(--text-secondary)]">
+            Aucune différence relevée entre les extraits consultés.
+          </p>
+        )}
+        {answers.some((a) => a.grounding && a.grounding.unsupported.length > 0) && (
+          <p className="mt-3 text-xs text-yellow-700 dark:text-yellow-300">
+            ⚠️ Certaines affirmations n&apos;ont pas été retrouvées dans les extraits consultés : à vérifier dans le référentiel.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
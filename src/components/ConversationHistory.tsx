@@ -0,0 +1,62 @@
+"use client";
+
+import type { SavedConversation } from "@/lib/saved-conversations";
+
+interface ConversationHistoryProps {
+  conversations: SavedConversation[];
+  activeId: string | null;
+  onSelect: (conversation: SavedConversation) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Panneau latéral des conversations enregistrées dans ce navigateur
+export default function ConversationHistory({ conversations, activeId, onSelect, onDelete, onClose }: ConversationHistoryProps) {
+  return (
+    <div className="fixed inset-0 z-40 flex">
+      <aside className="flex h-full w-80 max-w-[85%] flex-col border-r border-[var(--border-color)] bg-[var(--bg-card)] shadow-xl">
+        <div className="flex items-center justify-between border-b border-[var(--border-color)] p-4">
+          <h2 className="font-semibold text-[var(--text-primary)]">Conversations</h2>
+          <button type="button" onClick={onClose} aria-label="Fermer" className="text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+            ✕
+          </button>
+        </div>
+
+        {conversations.length === 0 ? (
+          <p className="p-4 text-sm text-[var(--text-secondary)]">
+            Aucune conversation enregistrée. Les conversations sont conservées dans ce navigateur.
+          </p>
+        ) : (
+          <ul className="flex-1 overflow-y-auto p-2">
+            {conversations.map((conversation) => (
+              <li
+                key={conversation.id}
+                className={`group flex items-start gap-2 rounded-lg p-2 ${
+                  conversation.id === activeId ? "bg-red-50 dark:bg-red-900/20" : "hover:bg-gray-100 dark:hover:bg-gray-700"
+                }`}
+              >
+                <button type="button" onClick={() => onSelect(conversation)} className="min-w-0 flex-1 text-left">
+                  <span className="block truncate text-sm text-[var(--text-primary)]">{conversation.title}</span>
+                  <span className="block text-xs text-[var(--text-secondary)]">
+                    {new Date(conversation.updatedAt).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" })}
+                    {" · "}
+                    {conversation.messages.filter((msg) => msg.role === "user").length} question(s)
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(conversation.id)}
+                  aria-label="Supprimer la conversation"
+                  className="text-xs text-[var(--text-secondary)] opacity-60 hover:text-red-600 group-hover:opacity-100"
+                >
+                  🗑
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+      <button type="button" aria-label="Fermer l'historique" onClick={onClose} className="flex-1 bg-black/30" />
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import type { Citation } from "@/lib/citations";
+import type { FeedbackFilters, FeedbackRating } from "@/lib/feedback";
+
+interface FeedbackButtonsProps {
+  question: string;
+  answer: string;
+  citations: Citation[];
+  filters: FeedbackFilters;
+}
+
+// Pouce levé / baissé sous une réponse, avec un commentaire facultatif
+export default function FeedbackButtons({ question, answer, citations, filters }: FeedbackButtonsProps) {
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [comment, setComment] = useState("");
+  const [status, setStatus] = useState<"idle" | "sending" | "sent">("idle");
+  const [error, setError] = useState("");
+
+  const send = async () => {
+    if (!rating) return;
+    setStatus("sending");
+    setError("");
+
+    try {
+      const res = await fetch("/api/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rating,
+          comment,
+          question,
+          answer,
+          documentIds: citations.map((c) => c.documentId),
+          filters,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Envoi impossible, réessayez");
+      }
+      setStatus("sent");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Envoi impossible, réessayez");
+      setStatus("idle");
+    }
+  };
+
+  if (status === "sent") {
+    return <p className="mt-3 text-xs text-[var(--text-secondary)]">Merci pour votre retour.</p>;
+  }
+
+  const buttonClass = (value: FeedbackRating) =>
+    `rounded-lg border px-2 py-1 text-sm transition-colors ${
+      rating === value
+        ? "border-red-500 bg-red-50 dark:bg-red-900/20"
+        : "border-[var(--border-color)] hover:bg-gray-100 dark:hover:bg-gray-700"
+    }`;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+        Cette réponse vous a-t-elle aidé ?
+        <button type="button" onClick={() => setRating("up")} className={buttonClass("up")} aria-label="Réponse utile">
+          👍
+        </button>
+        <button
+          type="button"
+          onClick={() => setRating("down")}
+          className={buttonClass("down")}
+          aria-label="Réponse fausse ou incomplète"
+        >
+          👎
+        </button>
+      </div>
+
+      {rating && (
+        <div className="space-y-2">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            placeholder={
+              rating === "down"
+                ? "Qu'est-ce qui est faux ou manquant ? (facultatif)"
+                : "Un commentaire ? (facultatif)"
+            }
+            className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] px-3 py-2 text-sm text-[var(--text-primary)] focus:border-red-500 focus:outline-none placeholder:text-[var(--text-secondary)]"
+          />
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={send}
+              disabled={status === "sending"}
+              className="rounded-lg bg-red-600 px-3 py-1 text-sm text-white transition-colors hover:bg-red-700 disabled:bg-gray-400"
+            >
+              {status === "sending" ? "Envoi..." : "Envoyer"}
+            </button>
+            {error && <span className="text-xs text-red-700 dark:text-red-400">{error}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
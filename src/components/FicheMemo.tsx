@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { transformMarkdownToBlocks } from "@/lib/action-blocks";
+import { ANSWER_REHYPE_PLUGINS, renderUnsupportedClaims } from "@/lib/answer-markup";
+import { stripCitations } from "@/lib/citations";
+import type { CitedFiche } from "@/lib/fiches";
+import type { ChatMessage } from "@/lib/saved-conversations";
+
+interface FicheMemoProps {
+  message: ChatMessage;
+  // Impression terminée (ou annulée)
+  onDone: () => void;
+}
+
+// Fiche mémo d'une réponse, à imprimer ou enregistrer en PDF : question, blocs d'action,
+// fiches consultées avec leur édition et avertissement. Seule partie visible à l'impression.
+export default function FicheMemo({ message, onDone }: FicheMemoProps) {
+  const [fiches, setFiches] = useState<CitedFiche[] | null>(null);
+
+  // Éditions des fiches citées (à défaut : les références seules)
+  useEffect(() => {
+    const citations = message.comparison?.citations || message.citations || [];
+    const refs = message.ficheRefs || message.comparison?.answers.flatMap((a) => a.ficheRefs) || [];
+    const fallback = Array.from(new Set(refs), (ref) => ({ ref, referential: null, source: "", updateDate: null }));
+
+    if (citations.length === 0) {
+      setFiches(fallback);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/fiches/cited?documents=${citations.map((c) => c.documentId).join(",")}`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(res.statusText))))
+      .then((data) => (data.fiches.length > 0 ? data.fiches : fallback))
+      .catch(() => fallback)
+      .then((result) => {
+        if (!cancelled) setFiches(result);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [message]);
+
+  // Imprimer une fois les fiches connues, en thème clair
+  useEffect(() => {
+    if (!fiches) return;
+
+    const root = document.documentElement;
+    const wasDark = root.classList.contains("dark");
+    root.classList.remove("dark");
+    window.addEventListener(
+      "afterprint",
+      () => {
+        root.classList.toggle("dark", wasDark);
+        onDone();
+      },
+      { once: true }
+    );
+    window.print();
+  }, [fiches, onDone]);
+
+  const filters = message.filters;
+  const labels = filters
+    ? [
+        filters.mode === "compare" ? "Comparaison PSE / PSC / SST" : filters.source,
+        filters.pseLevel && `PSE${filters.pseLevel}`,
+        filters.chapter && `Chapitre ${filters.chapter}`,
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <article className="fiche-memo hidden bg-white text-gray-900 print:block">
+      <header className="flex items-baseline justify-between border-b-2 border-red-600 pb-1">
+        <span className="text-base font-bold text-red-600">SecouristIA · Fiche mémo</span>
+        <span className="text-xs text-gray-500">
+          {labels.join(" · ")}
+          {labels.length > 0 && " · "}
+          {new Date().toLocaleDateString("fr-FR")}
+        </span>
+      </header>
+
+      <h1 className="mt-2 text-lg font-bold">{message.question || "Réponse de SecouristIA"}</h1>
+
+      <div className="prose prose-sm mt-1 max-w-none">
+        <ReactMarkdown rehypePlugins={ANSWER_REHYPE_PLUGINS}>
+          {transformMarkdownToBlocks(renderUnsupportedClaims(stripCitations(message.content)))}
+        </ReactMarkdown>
+      </div>
+
+      {fiches && fiches.length > 0 && (
+        <section className="mt-2 border-t border-gray-300 pt-1 text-xs text-gray-700">
+          <span className="font-semibold">Fiches consultées : </span>
+          {fiches
+            .map(
+              (fiche) =>
+                `${fiche.ref}${fiche.referential ? ` (${fiche.referential})` : ""}` +
+                (fiche.updateDate ? `, édition ${fiche.updateDate}` : "")
+            )
+            .join(" · ")}
+        </section>
+      )}
+
+      <footer className="mt-2 text-[0.65rem] leading-snug text-gray-500">
+        <strong className="text-amber-600">Avertissement :</strong> SecouristIA est un outil d&apos;aide basé sur les
+        référentiels officiels. Vérifiez toujours les informations avec les documents sources (PSE, PSC, SST) avant
+        toute intervention.
+      </footer>
+    </article>
+  );
+}
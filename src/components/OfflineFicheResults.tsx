@@ -0,0 +1,49 @@
+"use client";
+
+import type { OfflineMatch } from "@/lib/offline-fiches";
+
+interface OfflineFicheResultsProps {
+  query: string;
+  matches: OfflineMatch[];
+}
+
+// Résultats du mode hors ligne : fiches trouvées par mots-clés, affichées telles quelles
+export default function OfflineFicheResults({ query, matches }: OfflineFicheResultsProps) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-[var(--text-secondary)]">
+        Fiches correspondant à « <span className="text-[var(--text-primary)]">{query}</span> » :
+      </p>
+
+      {matches.length === 0 && (
+        <div className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-card)] p-4 text-sm text-[var(--text-secondary)]">
+          Aucune fiche trouvée : essayez d&apos;autres mots-clés (geste, détresse, matériel).
+        </div>
+      )}
+
+      {matches.map(({ fiche }, index) => (
+        <details
+          key={`${fiche.referential}-${fiche.ref}`}
+          open={index === 0}
+          className="rounded-xl border border-[var(--border-color)] bg-[var(--bg-card)] p-4 shadow-sm"
+        >
+          <summary className="cursor-pointer">
+            <span className="text-sm font-medium text-red-600 dark:text-red-400">
+              {fiche.ref}
+              {fiche.referential && ` · ${fiche.referential}`}
+              {fiche.ficheTypeName && ` · ${fiche.ficheTypeName}`}
+            </span>
+            <span className="ml-2 font-semibold text-[var(--text-primary)]">{fiche.title}</span>
+          </summary>
+          <div className="mt-3 whitespace-pre-wrap text-sm leading-relaxed text-[var(--text-primary)]">
+            {fiche.content}
+          </div>
+          <p className="mt-3 border-t border-[var(--border-color)] pt-2 text-xs text-[var(--text-secondary)]">
+            Source : {fiche.source}
+            {fiche.updateDate && ` · édition ${fiche.updateDate}`}
+          </p>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Fichiers statiques déjà chargés par la page (scripts, styles, polices) : à la première
+// visite, ils l'ont été avant que le service worker ne contrôle la page
+function loadedAssetUrls(): string[] {
+  return performance
+    .getEntriesByType("resource")
+    .map((entry) => entry.name)
+    .filter((url) => url.startsWith(`${location.origin}/_next/static/`));
+}
+
+// Installer le service worker (application hors ligne), en production uniquement :
+// en développement, le cache masquerait les modifications
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        registration.active?.postMessage({ type: "cache-assets", urls: loadedAssetUrls() });
+      })
+      .catch((err) => {
+        console.error("Installation du service worker impossible:", err);
+      });
+  }, []);
+
+  return null;
+}
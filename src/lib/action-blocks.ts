@@ -0,0 +1,39 @@
+// Blocs d'action des réponses (:::do, :::dont, :::warning, :::info), rendus en couleur
+// dans le chat et sur la fiche mémo imprimable
+
+// Transformer le markdown en blocs colorés
+// Un bloc non encore fermé (réponse en cours de streaming) s'étend jusqu'à la fin du texte
+export function transformMarkdownToBlocks(markdown: string): string {
+  let result = markdown
+    .replace(/\t/g, ' ')
+    .replace(/([^\n]) {2,}/g, '$1 ')
+    .replace(/^\s+$/gm, '')
+    // Masquer une balise ::: en cours d'écriture en fin de texte
+    .replace(/(^|\n):::\w*$/, '$1');
+
+  // :::do → bloc vert
+  result = result.replace(
+    /:::do\s*\n([\s\S]*?)(?::::|$)/g,
+    '<div class="action-block action-block-do"><div class="action-title">✅ À FAIRE</div>\n\n$1</div>'
+  );
+
+  // :::dont → bloc rouge
+  result = result.replace(
+    /:::dont\s*\n([\s\S]*?)(?::::|$)/g,
+    '<div class="action-block action-block-dont"><div class="action-title">❌ À NE PAS FAIRE</div>\n\n$1</div>'
+  );
+
+  // :::warning → bloc jaune
+  result = result.replace(
+    /:::warning\s*\n([\s\S]*?)(?::::|$)/g,
+    '<div class="action-block action-block-warning"><div class="action-title">⚠️ ATTENTION</div>\n\n$1</div>'
+  );
+
+  // :::info → bloc bleu
+  result = result.replace(
+    /:::info\s*\n([\s\S]*?)(?::::|$)/g,
+    '<div class="action-block action-block-info"><div class="action-title">ℹ️ INFORMATIONS</div>\n\n$1</div>'
+  );
+
+  return result;
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createHash } from "crypto";
+import { EmbeddingProvider } from "./embeddings";
+import { SearchFilters } from "./retrieval";
+import { normalizeText } from "./text";
+
+// Cache des réponses : une question déjà posée (ou très proche) avec les mêmes filtres,
+// sur la même version du corpus, est servie sans appel au modèle.
+// La version du corpus change à chaque synchronisation qui modifie les documents
+// (npm run import-docs) et à chaque bascule de modèle d'embeddings : le cache est alors vidé.
+
+// Mode de réponse et filtres de recherche : une réponse n'est réutilisée que dans le même périmètre
+export interface CacheScope {
+  mode: "chat" | "compare";
+  filters?: SearchFilters;
+}
+
+export interface CacheLookup<T> {
+  // Réponse en cache (null si absente)
+  hit: T | null;
+  // Similarité avec la question en cache (1 pour une question identique)
+  similarity: number;
+  // Enregistrer la réponse calculée après un échec de recherche
+  save(response: T): Promise<void>;
+}
+
+export interface AnswerCache {
+  lookup<T>(question: string, scope: CacheScope): Promise<CacheLookup<T>>;
+}
+
+// Similarité minimale pour réutiliser la réponse d'une question proche
+const DEFAULT_SIMILARITY_THRESHOLD = 0.95;
+
+export function isAnswerCacheEnabled(): boolean {
+  return process.env.ANSWER_CACHE !== "off";
+}
+
+function getSimilarityThreshold(): number {
+  const value = Number(process.env.ANSWER_CACHE_SIMILARITY);
+  return value > 0 && value <= 1 ? value : DEFAULT_SIMILARITY_THRESHOLD;
+}
+
+// Question normalisée : minuscules, sans accents ni ponctuation
+export function normalizeQuestion(question: string): string {
+  return normalizeText(question)
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Périmètre sérialisé dans un ordre stable (null pour un filtre absent)
+export function scopeKey(scope: CacheScope): string {
+  const { source, pseLevel, chapter, ficheType } = scope.filters || {};
+  return JSON.stringify([scope.mode, source || null, pseLevel || null, chapter || null, ficheType || null]);
+}
+
+function hashKey(question: string, scope: string): string {
+  return createHash("sha256").update(`${scope}\n${question}`).digest("hex");
+}
+
+const MISS = { hit: null, similarity: 0, save: async () => {} };
+
+// Cache Supabase : table answer_cache, recherche exacte puis par similarité (match_cached_answer)
+export function createAnswerCache(client: SupabaseClient, embedder: EmbeddingProvider): AnswerCache {
+  return {
+    async lookup<T>(question: string, scope: CacheScope): Promise<CacheLookup<T>> {
+      const normalized = normalizeQuestion(question);
+      const scopeValue = scopeKey(scope);
+      const key = hashKey(normalized, scopeValue);
+
+      try {
+        const { data: version, error: versionError } = await client.rpc("current_corpus_version");
+        if (versionError) throw versionError;
+
+        const match = async (embedding: number[] | null) => {
+          const { data, error } = await client.rpc("match_cached_answer", {
+            lookup_key: key,
+            lookup_scope: scopeValue,
+            lookup_version: version,
+            query_embedding: embedding,
+            model_name: embedder.model,
+            similarity_threshold: getSimilarityThreshold(),
+          });
+          if (error) throw error;
+          return (data?.[0] as { response: T; similarity: number } | undefined) || null;
+        };
+
+        // Question identique : pas besoin d'embedding
+        const exact = await match(null);
+        if (exact) {
+          return { hit: exact.response, similarity: exact.similarity, save: MISS.save };
+        }
+
+        const [embedding] = await embedder.embed([normalized]);
+        const close = await match(embedding);
+        if (close) {
+          return { hit: close.response, similarity: close.similarity, save: MISS.save };
+        }
+
+        return {
+          hit: null,
+          similarity: 0,
+          async save(response: T) {
+            const { error } = await client.from("answer_cache").upsert(
+              {
+                cache_key: key,
+                scope: scopeValue,
+                question: normalized,
+                corpus_version: version,
+                model: embedder.model,
+                embedding,
+                response,
+              },
+              { onConflict: "cache_key,corpus_version" }
+            );
+            if (error) console.error("Erreur écriture cache:", error.message);
+          },
+        };
+      } catch (err) {
+        // Cache indisponible : la question est traitée normalement
+        console.error("Erreur cache des réponses:", err);
+        return MISS;
+      }
+    },
+  };
+}
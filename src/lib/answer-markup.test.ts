@@ -0,0 +1,49 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import { describe, expect, it } from "vitest";
+import {
+  ANSWER_REHYPE_PLUGINS,
+  escapeAnswerHtml,
+  renderUnsupportedClaims,
+  UNSUPPORTED_CLAIM_MARKER,
+} from "./answer-markup";
+
+const render = (markdown: string) =>
+  renderToStaticMarkup(createElement(ReactMarkdown, { rehypePlugins: ANSWER_REHYPE_PLUGINS }, markdown));
+
+describe("escapeAnswerHtml", () => {
+  it("échappe une balise qui enveloppe le signalement dans un attribut", () => {
+    const payload =
+      '<iframe srcdoc="&lt;script&gt;parent.alert(1)&lt;/script&gt;" x="' +
+      '<span class="unsupported-claim" title="t">⚠️ non vérifié</span>">';
+    const escaped = escapeAnswerHtml(payload);
+
+    expect(escaped).not.toMatch(/[<>]/);
+    expect(render(renderUnsupportedClaims(escaped))).not.toContain("<iframe");
+  });
+
+  it("ramène l'ancien signalement HTML au marqueur", () => {
+    expect(escapeAnswerHtml('Phrase. <span class="unsupported-claim" title="t">⚠️ non vérifié</span>')).toBe(
+      `Phrase. ${UNSUPPORTED_CLAIM_MARKER}`
+    );
+  });
+});
+
+describe("ANSWER_REHYPE_PLUGINS", () => {
+  it("garde les citations et le signalement", () => {
+    const html = render(renderUnsupportedClaims(`Allonger la victime <cite>1</cite>. ${UNSUPPORTED_CLAIM_MARKER}`));
+
+    expect(html).toContain("<cite>1</cite>");
+    expect(html).toContain('<span class="unsupported-claim"');
+  });
+
+  it("retire les balises et attributs non autorisés", () => {
+    const html = render('<img src="x" onerror="alert(1)"><script>alert(1)</script><span class="x" onclick="alert(1)">a</span>');
+
+    expect(html).not.toContain("onerror");
+    expect(html).not.toContain("<script");
+    expect(html).not.toContain("onclick");
+    expect(html).not.toContain('class="x"');
+  });
+});
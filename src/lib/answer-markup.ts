@@ -0,0 +1,55 @@
+import type { Options } from "react-markdown";
+import rehypeRaw from "rehype-raw";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+
+// Rendu HTML des réponses : le texte des réponses ne porte jamais de balise construite
+// par le serveur. Les affirmations non vérifiées sont marquées en texte brut et
+// transformées en balise au moment de l'affichage, puis tout le HTML est filtré
+// (blocs d'action, marqueurs de citation et signalement uniquement).
+
+// Marqueur ajouté après une affirmation non retrouvée dans les extraits (vérification d'ancrage)
+export const UNSUPPORTED_CLAIM_MARKER = "⟦non vérifié⟧";
+
+const UNSUPPORTED_CLAIM_HTML =
+  '<span class="unsupported-claim" title="Cette affirmation n\'a pas été retrouvée dans les extraits consultés">⚠️ non vérifié</span>';
+
+// Ancienne forme du signalement (réponses en cache ou conversations enregistrées avant le marqueur)
+const LEGACY_UNSUPPORTED_CLAIM_PATTERN = /<span class="unsupported-claim" title="[^"<>]*">⚠️ non vérifié<\/span>/g;
+
+// Texte d'une réponse reçu d'un client : signalements ramenés au marqueur, puis
+// tous les chevrons échappés (aucune balise ne survit, même imbriquée dans un attribut)
+export function escapeAnswerHtml(text: string): string {
+  return text
+    .replace(LEGACY_UNSUPPORTED_CLAIM_PATTERN, UNSUPPORTED_CLAIM_MARKER)
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+export function renderUnsupportedClaims(text: string): string {
+  return text.split(UNSUPPORTED_CLAIM_MARKER).join(UNSUPPORTED_CLAIM_HTML);
+}
+
+// Balises autorisées dans le rendu : celles du markdown, <cite> (marqueurs [n]),
+// les blocs d'action et le signalement des affirmations non vérifiées
+export const ANSWER_SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  tagNames: [...(defaultSchema.tagNames || []), "cite"],
+  attributes: {
+    ...defaultSchema.attributes,
+    div: [
+      ...(defaultSchema.attributes?.div || []),
+      [
+        "className",
+        "action-block",
+        "action-block-do",
+        "action-block-dont",
+        "action-block-warning",
+        "action-block-info",
+        "action-title",
+      ],
+    ],
+    span: [...(defaultSchema.attributes?.span || []), ["className", "unsupported-claim"]],
+  },
+};
+
+export const ANSWER_REHYPE_PLUGINS: Options["rehypePlugins"] = [rehypeRaw, [rehypeSanitize, ANSWER_SANITIZE_SCHEMA]];
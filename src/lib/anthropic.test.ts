@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { ModelOutputError, parseModelJson } from "./anthropic";
+
+describe("parseModelJson", () => {
+  it("extrait le JSON entouré de texte", () => {
+    expect(parseModelJson('Voici le quiz :\n[{"id": 1}]\nBonne révision', "array")).toEqual([{ id: 1 }]);
+    expect(parseModelJson('```json\n{"answers": {}}\n```', "object")).toEqual({ answers: {} });
+  });
+
+  it("refuse un JSON absent, tronqué ou de forme inattendue", () => {
+    expect(() => parseModelJson("Je ne peux pas répondre.", "array")).toThrow(ModelOutputError);
+    expect(() => parseModelJson('[{"id": 1}, {"id": ]', "array")).toThrow(ModelOutputError);
+    expect(() => parseModelJson('{"a": 1}', "array")).toThrow(ModelOutputError);
+    expect(() => parseModelJson("[1, 2]", "object")).toThrow(ModelOutputError);
+  });
+});
@@ -0,0 +1,44 @@
+import Anthropic from "@anthropic-ai/sdk";
+
+export const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+// Modèle utilisé pour toutes les générations
+export const CLAUDE_MODEL = "claude-sonnet-4-20250514";
+
+// Tokens consommés par un appel au modèle (journal des requêtes)
+export type OnUsage = (usage: { input_tokens: number; output_tokens: number }) => void;
+
+// Réponse du modèle inexploitable (JSON absent, mal formé ou de forme inattendue)
+export class ModelOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelOutputError";
+  }
+}
+
+// Extraire l'objet ou le tableau JSON d'une réponse du modèle (texte autour ignoré)
+export function parseModelJson(text: string, shape: "object"): Record<string, unknown>;
+export function parseModelJson(text: string, shape: "array"): unknown[];
+export function parseModelJson(text: string, shape: "object" | "array"): unknown {
+  const [open, close] = shape === "array" ? ["[", "]"] : ["{", "}"];
+  const start = text.indexOf(open);
+  const end = text.lastIndexOf(close);
+  if (start === -1 || end < start) {
+    throw new ModelOutputError(`Aucun ${shape === "array" ? "tableau" : "objet"} JSON dans la réponse du modèle`);
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new ModelOutputError("JSON mal formé dans la réponse du modèle");
+  }
+
+  const isArray = Array.isArray(value);
+  if (shape === "array" ? !isArray : !value || typeof value !== "object" || isArray) {
+    throw new ModelOutputError(`La réponse du modèle n'est pas ${shape === "array" ? "un tableau" : "un objet"} JSON`);
+  }
+  return value;
+}
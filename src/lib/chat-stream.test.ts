@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { ChatStreamEvent, formatStreamEvent, readStreamEvents } from "./chat-stream";
+
+// Réponse dont le corps arrive découpé en morceaux arbitraires
+function chunkedResponse(text: string, size: number): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < text.length; i += size) {
+        controller.enqueue(encoder.encode(text.slice(i, i + size)));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+describe("readStreamEvents", () => {
+  it("relit les événements formatés par le serveur, même découpés", async () => {
+    const sent: ChatStreamEvent[] = [
+      { event: "meta", data: { sources: ["PSE1.pdf"], ficheRefs: [], citations: [], cached: true } },
+      { event: "delta", data: { text: "Allonger la victime.\n\nPuis" } },
+      { event: "grounding", data: { response: "Allonger la victime.", score: 1, unsupported: [] } },
+      { event: "done", data: {} },
+    ];
+    const received: ChatStreamEvent[] = [];
+
+    await readStreamEvents(chunkedResponse(sent.map(formatStreamEvent).join(""), 7), (event) =>
+      received.push(event)
+    );
+
+    expect(received).toEqual(sent);
+  });
+
+  it("ignore les événements inconnus", async () => {
+    const received: ChatStreamEvent[] = [];
+    const text = `event: ping\ndata: {}\n\n${formatStreamEvent({ event: "error", data: { error: "x" } })}`;
+
+    await readStreamEvents(chunkedResponse(text, 100), (event) => received.push(event));
+
+    expect(received).toEqual([{ event: "error", data: { error: "x" } }]);
+  });
+});
@@ -0,0 +1,56 @@
+import type { Citation } from "./citations";
+
+// Événements Server-Sent Events d'une réponse en streaming, partagés par la route
+// /api/chat (envoi) et la page de conversation (lecture) :
+// meta (références), delta (tokens), grounding (réponse vérifiée), done, error.
+
+export interface GroundingSummary {
+  score: number;
+  unsupported: string[];
+}
+
+export type ChatStreamEvent =
+  | {
+      event: "meta";
+      data: { sources?: string[]; ficheRefs?: string[]; citations?: Citation[]; cached?: boolean };
+    }
+  | { event: "delta"; data: { text: string } }
+  | { event: "grounding"; data: { response: string } & GroundingSummary }
+  | { event: "done"; data: Record<string, never> }
+  | { event: "error"; data: { error: string } };
+
+const CHAT_STREAM_EVENTS = new Set<string>(["meta", "delta", "grounding", "done", "error"]);
+
+// Formater un événement
+export function formatStreamEvent({ event, data }: ChatStreamEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Lire un flux d'événements et transmettre chacun (événements inconnus ignorés)
+export async function readStreamEvents(
+  res: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  if (!res.body) return;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split("\n\n");
+    buffer = events.pop() || "";
+
+    for (const raw of events) {
+      const eventLine = raw.split("\n").find((l) => l.startsWith("event: "));
+      const dataLine = raw.split("\n").find((l) => l.startsWith("data: "));
+      if (eventLine && dataLine && CHAT_STREAM_EVENTS.has(eventLine.slice(7))) {
+        onEvent({ event: eventLine.slice(7), data: JSON.parse(dataLine.slice(6)) } as ChatStreamEvent);
+      }
+    }
+  }
+}
@@ -0,0 +1,42 @@
+// Citations : chaque élément de réponse porte un marqueur [n] renvoyant à l'extrait n
+// du contexte, lui-même rattaché à un document précis de la base.
+export interface Citation {
+  marker: number;
+  documentId: number;
+  ficheRef: string | null;
+  source: string;
+  content: string;
+}
+
+// Marqueur de citation dans le texte de la réponse : [1], [12]
+const CITATION_PATTERN = /\[(\d{1,2})\]/g;
+
+export function buildCitations(
+  documents: { id: number; content: string; source: string; fiche_ref?: string | null }[]
+): Citation[] {
+  return documents.map((doc, i) => ({
+    marker: i + 1,
+    documentId: doc.id,
+    ficheRef: doc.fiche_ref || null,
+    source: doc.source,
+    content: doc.content,
+  }));
+}
+
+// Numéros d'extraits cités dans un texte
+export function citedMarkers(text: string): number[] {
+  return Array.from(text.matchAll(CITATION_PATTERN), (match) => Number(match[1]));
+}
+
+// Remplacer les marqueurs connus par des balises <cite> (rendues cliquables dans l'interface)
+export function markCitations(markdown: string, citationCount: number): string {
+  return markdown.replace(CITATION_PATTERN, (match, n) => {
+    const marker = Number(n);
+    return marker >= 1 && marker <= citationCount ? `<cite>${marker}</cite>` : match;
+  });
+}
+
+// Retirer les marqueurs (réponses précédentes renvoyées au modèle, dont les extraits ont changé)
+export function stripCitations(text: string): string {
+  return text.replace(/ ?\[(\d{1,2})\]/g, "");
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ModelOutputError } from "./anthropic";
+import { compareReferentials } from "./comparison";
+import { createFakeProvider } from "./embeddings";
+import type { DocumentMatch, DocumentStore } from "./retrieval";
+
+const create = vi.hoisted(() => vi.fn());
+vi.mock("./anthropic", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./anthropic")>()),
+  anthropic: { messages: { create } },
+}));
+
+// Un extrait par référentiel : PSE puis PSC, rien pour le SST
+const EXTRACTS: Record<string, DocumentMatch[]> = {
+  PSE: [{ id: 1, content: "Comprimer directement la plaie qui saigne.", source: "PSE.pdf", similarity: 1 }],
+  PSC: [{ id: 2, content: "Appuyer fortement sur la plaie avec la main.", source: "PSC.pdf", similarity: 1 }],
+  SST: [],
+};
+
+const store: DocumentStore = {
+  matchByEmbedding: async (_, { filters }) => EXTRACTS[filters.source || ""] || [],
+  matchByText: async () => [],
+};
+const deps = { store, embedder: createFakeProvider(8) };
+
+const reply = (text: string) => ({ content: [{ type: "text", text }], usage: { input_tokens: 1, output_tokens: 1 } });
+
+beforeEach(() => {
+  create.mockReset();
+  vi.stubEnv("GROUNDING_MODE", "off");
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("compareReferentials", () => {
+  it("relance le modèle une fois si sa réponse n'est pas du JSON", async () => {
+    create
+      .mockResolvedValueOnce(reply("Désolé, je ne peux pas."))
+      .mockResolvedValueOnce(reply('{"answers": {"PSE": "- Comprimer la plaie [1]"}, "differences": []}'));
+
+    const comparison = await compareReferentials("Hémorragie", "hémorragie", "hémorragie", deps);
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(comparison.answers.map((a) => a.silent)).toEqual([false, true, true]);
+  });
+
+  it("abandonne après deux réponses inexploitables", async () => {
+    create.mockResolvedValue(reply('{"answers": "PSE : comprimer"}'));
+
+    await expect(compareReferentials("Hémorragie", "hémorragie", "hémorragie", deps)).rejects.toThrow(
+      ModelOutputError
+    );
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  it("vérifie chaque réponse avec les seuls extraits de son référentiel", async () => {
+    vi.stubEnv("GROUNDING_MODE", "remove");
+    create
+      .mockResolvedValueOnce(
+        reply(
+          JSON.stringify({
+            answers: {
+              PSE: "- Comprimer directement la plaie qui saigne [1]",
+              PSC: "- Comprimer directement la plaie qui saigne [1]",
+            },
+            differences: [],
+          })
+        )
+      )
+      .mockResolvedValueOnce(reply('[{"id": 1, "verdict": "unsupported"}]'));
+
+    const comparison = await compareReferentials("Hémorragie", "hémorragie", "hémorragie", deps);
+
+    expect(comparison.answers[0].answer).toBe("- Comprimer directement la plaie qui saigne [1]");
+    expect(comparison.answers[1].answer).toBe("");
+    // Le juge ne voit que l'extrait PSC
+    const [extracts] = create.mock.calls[1][0].messages[0].content.split("Affirmations :");
+    expect(extracts).toContain("Appuyer fortement");
+    expect(extracts).not.toContain("Comprimer directement");
+  });
+
+  it("vérifie chaque différence avec les extraits des référentiels comparés", async () => {
+    vi.stubEnv("GROUNDING_MODE", "remove");
+    create.mockResolvedValueOnce(
+      reply(
+        JSON.stringify({
+          answers: {
+            PSE: "- Comprimer directement la plaie qui saigne [1]",
+            PSC: "- Appuyer fortement sur la plaie avec la main [2]",
+          },
+          differences: [
+            "PSE : comprimer directement la plaie qui saigne [1] ; PSC : appuyer fortement sur la plaie avec la main [2]",
+          ],
+        })
+      )
+    );
+
+    const comparison = await compareReferentials("Hémorragie", "hémorragie", "hémorragie", deps);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(comparison.differences).toHaveLength(1);
+  });
+});
@@ -0,0 +1,184 @@
+import { anthropic, CLAUDE_MODEL, ModelOutputError, OnUsage, parseModelJson } from "./anthropic";
+import { buildCitations, Citation } from "./citations";
+import { checkGrounding, getGroundingMode, groundingPayload } from "./grounding";
+import { REFERENTIALS, Referential } from "./referentiel";
+import { DocumentMatch, RETRIEVAL_CONFIG, RetrievalDeps, searchDocuments } from "./retrieval";
+
+// Comparaison d'une situation entre référentiels : une recherche par référentiel,
+// puis une réponse côte à côte qui signale les différences et les silences.
+export interface ReferentialAnswer {
+  referential: Referential;
+  answer: string;
+  // Aucun extrait du référentiel ne traite la situation
+  silent: boolean;
+  ficheRefs: string[];
+  sources: string[];
+  grounding?: { score: number; unsupported: string[] };
+}
+
+export interface Comparison {
+  answers: ReferentialAnswer[];
+  differences: string[];
+  citations: Citation[];
+}
+
+// Extraits retenus par référentiel (le contexte regroupe les trois référentiels)
+const RESULTS_PER_REFERENTIAL = 4;
+
+// Réponse du modèle inexploitable : une seconde tentative avant d'abandonner
+const GENERATION_ATTEMPTS = 2;
+
+const COMPARISON_PROMPT = `Tu es SecouristIA, formateur expert des référentiels de secourisme français : PSE (secouristes en équipe), PSC (citoyens) et SST (sauveteurs secouristes du travail).
+
+Tu compares la conduite à tenir d'une même situation dans chaque référentiel, à partir des extraits fournis, regroupés par référentiel et numérotés [n].
+
+RÈGLES STRICTES :
+1. La réponse d'un référentiel s'appuie UNIQUEMENT sur les extraits de CE référentiel : ne complète jamais un référentiel avec un autre
+2. Chaque élément de réponse se termine par le ou les numéros des extraits qui le justifient, ex : [3]
+3. Si les extraits d'un référentiel ne traitent pas la situation, sa réponse est une chaîne vide "" : n'invente rien
+4. Réponses courtes : liste à puces des actions dans l'ordre, avec les valeurs et le matériel cités
+5. "differences" liste les points où les conduites à tenir diffèrent (geste, ordre des actions, matériel, alerte, surveillance). Chaque point nomme les référentiels concernés et ce que dit chacun, avec ses numéros d'extraits ; il signale explicitement un référentiel qui ne dit rien sur ce point
+6. Ne présente pas comme une différence ce que les référentiels disent de la même façon
+
+Réponds UNIQUEMENT par un objet JSON :
+{"answers": {"PSE": "...", "PSC": "...", "SST": "..."}, "differences": ["...", "..."]}`;
+
+interface GeneratedComparison {
+  answers: Partial<Record<Referential, unknown>>;
+  differences?: unknown;
+}
+
+// Référentiels nommés par un point de différence (tous s'il n'en nomme aucun)
+function comparedReferentials(difference: string): Referential[] {
+  const named = REFERENTIALS.filter((referential) => difference.includes(referential));
+  return named.length > 0 ? named : [...REFERENTIALS];
+}
+
+// Contexte : extraits numérotés à la suite, regroupés par référentiel
+function buildComparisonContext(results: { referential: Referential; documents: DocumentMatch[] }[]): string {
+  let marker = 0;
+  return results
+    .map(({ referential, documents }) => {
+      const extracts = documents.map((doc) => {
+        marker++;
+        const ficheRef = doc.fiche_ref ? `[${doc.fiche_ref}]` : "";
+        return `[${marker}] ${ficheRef} - ${doc.source}\n${doc.content}`;
+      });
+      return `=== ${referential} ===\n\n${extracts.length > 0 ? extracts.join("\n\n---\n\n") : "(aucun extrait)"}`;
+    })
+    .join("\n\n");
+}
+
+// Réponse côte à côte du modèle (ModelOutputError si elle reste inexploitable après
+// une nouvelle tentative)
+async function generateComparison(context: string, question: string, onUsage?: OnUsage): Promise<GeneratedComparison> {
+  for (let attempt = 1; ; attempt++) {
+    const message = await anthropic.messages.create({
+      model: CLAUDE_MODEL,
+      max_tokens: 3072,
+      system: COMPARISON_PROMPT,
+      messages: [{ role: "user", content: `${context}\n\n---\n\nSituation à comparer : ${question}` }],
+    });
+    onUsage?.(message.usage);
+
+    const text = message.content[0].type === "text" ? message.content[0].text : "";
+    try {
+      const generated = parseModelJson(text, "object");
+      const answers = generated.answers;
+      if (!answers || typeof answers !== "object" || Array.isArray(answers)) {
+        throw new ModelOutputError("Réponses par référentiel absentes de la comparaison");
+      }
+      return { answers, differences: generated.differences };
+    } catch (err) {
+      if (!(err instanceof ModelOutputError) || attempt >= GENERATION_ATTEMPTS) throw err;
+      console.error("Comparaison inexploitable, nouvelle tentative:", err.message);
+    }
+  }
+}
+
+// question : question posée ; query : requête reformulée ; originalQuery : mots-clés
+// de la recherche plein texte (question, complétée par la précédente pour une relance)
+// onSearch reçoit les extraits retenus, onUsage les tokens de chaque appel au modèle
+export async function compareReferentials(
+  question: string,
+  query: string,
+  originalQuery: string,
+  deps: RetrievalDeps,
+  hooks: { onSearch?: (documents: DocumentMatch[]) => void; onUsage?: OnUsage } = {}
+): Promise<Comparison> {
+  // 1. Une recherche par référentiel, pour que chacun ait ses propres extraits
+  const config = { ...(deps.config || RETRIEVAL_CONFIG), maxResults: RESULTS_PER_REFERENTIAL };
+  const results = await Promise.all(
+    REFERENTIALS.map(async (referential) => ({
+      referential,
+      documents: await searchDocuments(query, originalQuery, { source: referential }, { ...deps, config }),
+    }))
+  );
+  const citations = buildCitations(results.flatMap((r) => r.documents));
+  hooks.onSearch?.(results.flatMap((r) => r.documents));
+
+  // 2. Réponse côte à côte
+  const generated = await generateComparison(buildComparisonContext(results), question, hooks.onUsage);
+
+  // Extraits de chaque référentiel : une réponse n'est vérifiée qu'avec ceux de son référentiel
+  const documentReferential = new Map(
+    results.flatMap(({ referential, documents }) => documents.map((doc) => [doc.id, referential] as const))
+  );
+  const citationsOf = (referentials: Referential[]) =>
+    citations.filter((c) => referentials.some((r) => documentReferential.get(c.documentId) === r));
+
+  // 3. Un référentiel sans extrait reste muet, quoi qu'en dise le modèle ; les autres réponses sont vérifiées
+  const groundingMode = getGroundingMode();
+  const answers = await Promise.all(
+    results.map(async ({ referential, documents }): Promise<ReferentialAnswer> => {
+      const raw = generated.answers[referential];
+      const answer = documents.length > 0 && typeof raw === "string" ? raw.trim() : "";
+      const base = {
+        referential,
+        ficheRefs: Array.from(new Set(documents.map((d) => d.fiche_ref).filter(Boolean))) as string[],
+        sources: Array.from(new Set(documents.map((d) => d.source))),
+      };
+
+      if (!answer) {
+        return { ...base, answer: "", silent: true };
+      }
+      if (groundingMode === "off") {
+        return { ...base, answer, silent: false };
+      }
+
+      const grounding = await checkGrounding(answer, citationsOf([referential]), groundingMode, hooks.onUsage);
+      return { ...base, answer: grounding.response, silent: false, grounding: groundingPayload(grounding) };
+    })
+  );
+
+  const generatedDifferences = Array.isArray(generated.differences)
+    ? generated.differences.filter((d): d is string => typeof d === "string" && d.trim() !== "")
+    : [];
+
+  // 4. Chaque différence est vérifiée avec les extraits des référentiels qu'elle compare
+  // (une différence vidée par le retrait de ses affirmations disparaît)
+  const differences =
+    groundingMode === "off"
+      ? generatedDifferences
+      : (
+          await Promise.all(
+            generatedDifferences.map(async (difference) => {
+              const compared = citationsOf(comparedReferentials(difference));
+              return (await checkGrounding(difference, compared, groundingMode, hooks.onUsage)).response.trim();
+            })
+          )
+        ).filter(Boolean);
+
+  return { answers, differences, citations };
+}
+
+// Résumé texte d'une comparaison, gardé dans l'historique pour les questions de relance
+export function summarizeComparison(comparison: Comparison): string {
+  const answers = comparison.answers.map(
+    (a) => `**${a.referential}** : ${a.silent ? "ne traite pas cette situation." : `\n${a.answer}`}`
+  );
+  const differences = comparison.differences.map((d) => `- ${d}`);
+  return [...answers, differences.length > 0 ? `**Différences** :\n${differences.join("\n")}` : ""]
+    .filter(Boolean)
+    .join("\n\n");
+}
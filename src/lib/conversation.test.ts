@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  ChatTurn,
+  estimateTokens,
+  exceedsHistoryLimits,
+  fitHistoryToBudget,
+  lastUserQuestion,
+  MAX_HISTORY_TURNS,
+  MAX_TURN_LENGTH,
+  parseHistory,
+} from "./conversation";
+
+const turn = (role: ChatTurn["role"], content: string): ChatTurn => ({ role, content });
+
+describe("parseHistory", () => {
+  it("ignore les entrées mal formées", () => {
+    expect(
+      parseHistory([
+        turn("user", "Question"),
+        { role: "system", content: "x" },
+        { role: "assistant", content: "   " },
+        null,
+        { role: "assistant", content: "Réponse", extra: true },
+      ])
+    ).toEqual([turn("user", "Question"), turn("assistant", "Réponse")]);
+  });
+
+  it("renvoie une liste vide si l'historique n'est pas un tableau", () => {
+    expect(parseHistory("x")).toEqual([]);
+  });
+});
+
+describe("exceedsHistoryLimits", () => {
+  it("refuse un historique trop long ou un tour trop long", () => {
+    expect(exceedsHistoryLimits([turn("user", "Question")])).toBe(false);
+    expect(exceedsHistoryLimits(Array(MAX_HISTORY_TURNS + 1).fill(turn("user", "Q")))).toBe(true);
+    expect(exceedsHistoryLimits([turn("user", "x".repeat(MAX_TURN_LENGTH + 1))])).toBe(true);
+    expect(exceedsHistoryLimits(undefined)).toBe(false);
+  });
+});
+
+describe("fitHistoryToBudget", () => {
+  it("garde tout l'historique s'il tient dans le budget", () => {
+    const history = [turn("user", "a".repeat(40)), turn("assistant", "b".repeat(40))];
+    expect(fitHistoryToBudget(history, 100)).toEqual({ turns: history, summary: null });
+  });
+
+  it("garde les tours récents et résume les questions plus anciennes", () => {
+    const history = [
+      turn("user", "Première question"),
+      turn("assistant", "x".repeat(400)),
+      turn("user", "Deuxième question"),
+      turn("assistant", "Réponse courte"),
+    ];
+    const { turns, summary } = fitHistoryToBudget(history, 20);
+
+    expect(turns).toEqual(history.slice(2));
+    expect(summary).toBe("Questions posées plus tôt dans la conversation :\n- Première question");
+  });
+
+  it("commence toujours par un message utilisateur", () => {
+    const history = [turn("user", "x".repeat(400)), turn("assistant", "Réponse")];
+    const { turns, summary } = fitHistoryToBudget(history, estimateTokens("Réponse"));
+
+    expect(turns).toEqual([]);
+    expect(summary).toContain("- xxx");
+  });
+
+  it("ne garde rien avec un budget nul", () => {
+    expect(fitHistoryToBudget([turn("user", "Question")], 0).turns).toEqual([]);
+  });
+});
+
+describe("lastUserQuestion", () => {
+  it("renvoie la dernière question posée", () => {
+    expect(lastUserQuestion([turn("user", "A"), turn("assistant", "B"), turn("user", "C")])).toBe("C");
+    expect(lastUserQuestion([turn("assistant", "B")])).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Budget approximatif (en tokens) réservé à l'historique de conversation
+export const HISTORY_TOKEN_BUDGET = 3000;
+
+// Limites des entrées du chat : au-delà, la requête est refusée
+export const MAX_QUESTION_LENGTH = 1000;
+export const MAX_HISTORY_TURNS = 100;
+export const MAX_TURN_LENGTH = 20000;
+
+// Historique refusé avant tout traitement : trop de tours ou un tour trop long
+export function exceedsHistoryLimits(raw: unknown): boolean {
+  return (
+    Array.isArray(raw) &&
+    (raw.length > MAX_HISTORY_TURNS || raw.some((turn) => String(turn?.content ?? "").length > MAX_TURN_LENGTH))
+  );
+}
+
+// Nombre de tours récents utilisés pour reformuler une question de relance
+const REFORMULATION_TURNS = 4;
+
+// Estimation grossière : ~4 caractères par token en français
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Valider l'historique envoyé par le client (ignore les entrées mal formées)
+export function parseHistory(raw: unknown): ChatTurn[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter(
+      (turn): turn is ChatTurn =>
+        turn &&
+        (turn.role === "user" || turn.role === "assistant") &&
+        typeof turn.content === "string" &&
+        turn.content.trim().length > 0
+    )
+    .map(({ role, content }) => ({ role, content }));
+}
+
+// Garder les tours les plus récents qui tiennent dans le budget.
+// Les tours plus anciens sont résumés par la liste des questions posées.
+export function fitHistoryToBudget(
+  history: ChatTurn[],
+  budget: number = HISTORY_TOKEN_BUDGET
+): { turns: ChatTurn[]; summary: string | null } {
+  const kept: ChatTurn[] = [];
+  let used = 0;
+  let i = history.length - 1;
+
+  for (; i >= 0; i--) {
+    const cost = estimateTokens(history[i].content);
+    if (used + cost > budget) break;
+    kept.unshift(history[i]);
+    used += cost;
+  }
+
+  // L'API attend une conversation qui commence par un message utilisateur
+  while (kept.length > 0 && kept[0].role !== "user") {
+    kept.shift();
+  }
+
+  const dropped = history.slice(0, history.length - kept.length);
+  const droppedQuestions = dropped
+    .filter((turn) => turn.role === "user")
+    .map((turn) => `- ${turn.content.slice(0, 200)}`);
+
+  const summary =
+    droppedQuestions.length > 0
+      ? `Questions posées plus tôt dans la conversation :\n${droppedQuestions.join("\n")}`
+      : null;
+
+  return { turns: kept, summary };
+}
+
+// Formater les derniers échanges pour la reformulation d'une question de relance
+export function formatRecentTurns(history: ChatTurn[]): string {
+  return history
+    .slice(-REFORMULATION_TURNS)
+    .map((turn) => {
+      const speaker = turn.role === "user" ? "Utilisateur" : "Assistant";
+      return `${speaker} : ${turn.content.slice(0, 500)}`;
+    })
+    .join("\n");
+}
+
+// Dernière question posée par l'utilisateur avant la question courante
+export function lastUserQuestion(history: ChatTurn[]): string | null {
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].role === "user") return history[i].content;
+  }
+  return null;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { diffStats, diffTexts } from "./diff";
+
+describe("diffTexts", () => {
+  it("renvoie un seul segment pour deux textes identiques", () => {
+    expect(diffTexts("Allonger la victime", "Allonger  la victime")).toEqual([
+      { type: "equal", text: "Allonger la victime" },
+    ]);
+  });
+
+  it("signale les mots ajoutés et supprimés", () => {
+    expect(diffTexts("Comprimer 30 fois puis insuffler", "Comprimer 30 fois et insuffler 2 fois")).toEqual([
+      { type: "equal", text: "Comprimer 30 fois" },
+      { type: "removed", text: " puis" },
+      { type: "added", text: " et" },
+      { type: "equal", text: " insuffler" },
+      { type: "added", text: " 2 fois" },
+    ]);
+  });
+
+  it("garde les sauts de ligne", () => {
+    expect(diffTexts("Alerter\nProtéger", "Alerter\nSecourir")).toEqual([
+      { type: "equal", text: "Alerter\n" },
+      { type: "removed", text: "Protéger" },
+      { type: "added", text: " Secourir" },
+    ]);
+  });
+});
+
+describe("diffStats", () => {
+  it("compte les mots ajoutés et supprimés", () => {
+    expect(diffStats(diffTexts("Comprimer 30 fois puis insuffler", "Comprimer 30 fois et insuffler 2 fois"))).toEqual({
+      added: 3,
+      removed: 1,
+    });
+  });
+});
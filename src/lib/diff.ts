@@ -0,0 +1,99 @@
+export interface DiffSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Au-delà, la table LCS mot à mot devient trop coûteuse : on compare ligne à ligne
+const MAX_WORD_CELLS = 6_000_000;
+
+// Mots et sauts de ligne (les autres espaces ne sont pas significatifs)
+function tokenizeWords(text: string): string[] {
+  return text.match(/\n|[^\s]+/g) || [];
+}
+
+function tokenizeLines(text: string): string[] {
+  return text.split("\n").flatMap((line, i) => (i === 0 ? [line] : ["\n", line]));
+}
+
+// Plus longue sous-séquence commune, puis parcours pour produire les opérations
+function diffTokens(before: string[], after: string[]): { type: DiffSegment["type"]; token: string }[] {
+  const n = before.length;
+  const m = after.length;
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        before[i] === after[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: { type: DiffSegment["type"]; token: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      ops.push({ type: "equal", token: before[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: "removed", token: before[i++] });
+    } else {
+      ops.push({ type: "added", token: after[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: "removed", token: before[i++] });
+  while (j < m) ops.push({ type: "added", token: after[j++] });
+
+  return ops;
+}
+
+// Regrouper les opérations consécutives de même type en segments de texte
+function toSegments(ops: { type: DiffSegment["type"]; token: string }[], byLine: boolean): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  let previous: string | null = null;
+
+  for (const { type, token } of ops) {
+    const separator =
+      byLine || previous === null || previous === "\n" || token === "\n" ? "" : " ";
+    const last = segments[segments.length - 1];
+
+    if (last && last.type === type) {
+      last.text += separator + token;
+    } else {
+      segments.push({ type, text: separator + token });
+    }
+    previous = token;
+  }
+
+  return segments;
+}
+
+// Différences mot à mot entre deux textes (ligne à ligne pour les très longs textes)
+export function diffTexts(before: string, after: string): DiffSegment[] {
+  const beforeWords = tokenizeWords(before);
+  const afterWords = tokenizeWords(after);
+
+  if (beforeWords.length * afterWords.length <= MAX_WORD_CELLS) {
+    return toSegments(diffTokens(beforeWords, afterWords), false);
+  }
+  return toSegments(diffTokens(tokenizeLines(before), tokenizeLines(after)), true);
+}
+
+// Nombre de mots ajoutés et supprimés
+export function diffStats(segments: DiffSegment[]): DiffStats {
+  const count = (type: DiffSegment["type"]) =>
+    segments
+      .filter((segment) => segment.type === type)
+      .reduce((total, segment) => total + (segment.text.match(/[^\s]+/g) || []).length, 0);
+
+  return { added: count("added"), removed: count("removed") };
+}
@@ -0,0 +1,152 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createEmbeddingProvider, EmbeddingProvider } from "./embeddings";
+
+// Ligne de la table embedding_models
+export interface EmbeddingModelInfo {
+  name: string;
+  provider: string;
+  dimension: number;
+  status: "building" | "ready";
+  is_active: boolean;
+}
+
+// Erreur d'une requête Supabase : statut HTTP de PostgREST (0 si la requête n'a pas abouti,
+// ex. réseau coupé) et code PostgreSQL, pour distinguer les erreurs transitoires
+export class DatabaseError extends Error {
+  constructor(message: string, readonly status: number, readonly code: string) {
+    super(message);
+    this.name = "DatabaseError";
+  }
+}
+
+// Durée de cache du modèle actif côté application
+const ACTIVE_MODEL_TTL_MS = 60_000;
+
+export async function getActiveEmbeddingModel(
+  client: SupabaseClient
+): Promise<EmbeddingModelInfo | null> {
+  const { data, error } = await client
+    .from("embedding_models")
+    .select("name, provider, dimension, status, is_active")
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture du modèle d'embeddings actif impossible: ${error.message}`);
+  }
+  return data;
+}
+
+// Fournisseur configuré (EMBEDDING_PROVIDER) pour un modèle donné
+export function createProviderForModel(model: string): EmbeddingProvider {
+  return createEmbeddingProvider({ ...process.env, EMBEDDING_MODEL: model });
+}
+
+let cachedProvider: { provider: EmbeddingProvider; expiresAt: number } | null = null;
+
+// Fournisseur à utiliser pour les requêtes : suit le modèle actif en base,
+// afin que la bascule d'index (activate_embedding_model) ne nécessite pas de redéploiement.
+export async function getQueryEmbeddingProvider(
+  client: SupabaseClient
+): Promise<EmbeddingProvider> {
+  if (cachedProvider && cachedProvider.expiresAt > Date.now()) {
+    return cachedProvider.provider;
+  }
+
+  let provider: EmbeddingProvider;
+  try {
+    const active = await getActiveEmbeddingModel(client);
+    provider = active ? createProviderForModel(active.name) : createEmbeddingProvider();
+  } catch (err) {
+    console.error("Erreur modèle d'embeddings actif:", err);
+    provider = cachedProvider?.provider ?? createEmbeddingProvider();
+  }
+
+  cachedProvider = { provider, expiresAt: Date.now() + ACTIVE_MODEL_TTL_MS };
+  return provider;
+}
+
+// Enregistrer un modèle et créer son index vectoriel
+export async function registerEmbeddingModel(
+  client: SupabaseClient,
+  provider: EmbeddingProvider,
+  dimension: number
+): Promise<EmbeddingModelInfo> {
+  const {
+    data: existing,
+    error: readError,
+    status: readStatus,
+  } = await client
+    .from("embedding_models")
+    .select("name, provider, dimension, status, is_active")
+    .eq("name", provider.model)
+    .maybeSingle();
+
+  if (readError) {
+    throw new DatabaseError(readError.message, readStatus, readError.code);
+  }
+
+  if (existing && existing.dimension !== dimension) {
+    throw new Error(
+      `Le modèle ${provider.model} est enregistré en ${existing.dimension} dimensions, reçu ${dimension}`
+    );
+  }
+
+  let model: EmbeddingModelInfo | null = existing;
+  if (!model) {
+    const { data, error, status } = await client
+      .from("embedding_models")
+      .insert({ name: provider.model, provider: provider.name, dimension, status: "building" })
+      .select("name, provider, dimension, status, is_active")
+      .single();
+    if (error) {
+      throw new DatabaseError(error.message, status, error.code);
+    }
+    model = data;
+  }
+
+  const { error: indexError } = await client.rpc("create_embedding_index", {
+    model_name: provider.model,
+  });
+  if (indexError) {
+    throw new Error(`Création de l'index impossible: ${indexError.message}`);
+  }
+
+  return model as EmbeddingModelInfo;
+}
+
+// Enregistrer les vecteurs d'un modèle (remplace ceux déjà présents)
+export async function saveDocumentEmbeddings(
+  client: SupabaseClient,
+  model: string,
+  rows: { documentId: number; embedding: number[] }[]
+): Promise<void> {
+  if (rows.length === 0) return;
+
+  const { error, status } = await client.from("document_embeddings").upsert(
+    rows.map((row) => ({ document_id: row.documentId, model, embedding: row.embedding })),
+    { onConflict: "document_id,model" }
+  );
+
+  if (error) {
+    throw new DatabaseError(error.message, status, error.code);
+  }
+}
+
+// Supprimer les vecteurs des autres modèles d'un document dont le contenu a changé :
+// documents_missing_embedding le signale alors à leur prochain réembedding
+export async function deleteOtherModelEmbeddings(
+  client: SupabaseClient,
+  documentId: number,
+  model: string
+): Promise<void> {
+  const { error, status } = await client
+    .from("document_embeddings")
+    .delete()
+    .eq("document_id", documentId)
+    .neq("model", model);
+
+  if (error) {
+    throw new DatabaseError(error.message, status, error.code);
+  }
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createFakeProvider,
+  createHuggingFaceProvider,
+  l2Normalize,
+  meanPool,
+  toSentenceEmbedding,
+} from "./embeddings";
+
+const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+
+describe("l2Normalize", () => {
+  it("ramène la moyenne des tokens à un vecteur de norme 1", () => {
+    const embedding = l2Normalize(meanPool([[3, 0], [3, 8]]));
+
+    expect(embedding).toEqual([0.6, 0.8]);
+    expect(norm(embedding)).toBeCloseTo(1);
+  });
+
+  it("laisse un vecteur nul inchangé", () => {
+    expect(l2Normalize([0, 0])).toEqual([0, 0]);
+  });
+});
+
+describe("toSentenceEmbedding", () => {
+  it("normalise un vecteur de phrase comme une moyenne de tokens", () => {
+    expect(toSentenceEmbedding([3, 4])).toEqual([0.6, 0.8]);
+    expect(toSentenceEmbedding([[3, 0], [3, 8]])).toEqual([0.6, 0.8]);
+    expect(toSentenceEmbedding([[[3, 0], [3, 8]]])).toEqual([0.6, 0.8]);
+  });
+
+  it("rejette une sortie vide", () => {
+    expect(() => toSentenceEmbedding([])).toThrow("Format d'embedding inattendu");
+  });
+});
+
+describe("createHuggingFaceProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("normalise les vecteurs renvoyés par l'API", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json([[3, 4], [[0, 2], [0, 4]]])));
+
+    const embeddings = await createHuggingFaceProvider("modele", "cle").embed(["a", "b"]);
+
+    expect(embeddings).toEqual([[0.6, 0.8], [0, 1]]);
+  });
+});
+
+describe("createFakeProvider", () => {
+  it("produit des vecteurs normalisés", async () => {
+    const [embedding] = await createFakeProvider(16).embed(["Position latérale de sécurité"]);
+
+    expect(embedding).toHaveLength(16);
+    expect(norm(embedding)).toBeCloseTo(1);
+  });
+});
@@ -1,48 +1,199 @@
-const HF_API_URL =
-  "https://router.huggingface.co/hf-inference/models/BAAI/bge-small-en-v1.5";
+import * as path from "path";
+import { normalizeText } from "./text";
 
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const response = await fetch(HF_API_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${process.env.HUGGINGFACE_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      inputs: text,
-      options: { wait_for_model: true },
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Hugging Face API error: ${error}`);
+// Fournisseur d'embeddings partagé par l'application et les scripts d'import.
+// Sélection via EMBEDDING_PROVIDER : "huggingface" (défaut), "local" ou "fake".
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_EMBEDDING_MODEL = "BAAI/bge-small-en-v1.5";
+const DEFAULT_FAKE_DIMENSION = 384;
+
+const HF_ROUTER_URL = "https://router.huggingface.co/hf-inference/models";
+
+// Erreur HTTP d'une API d'embeddings (le statut permet de distinguer les erreurs transitoires)
+export class EmbeddingApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "EmbeddingApiError";
   }
+}
 
-  const result = await response.json();
-
-  // L'API retourne [[...embedding...]] pour feature-extraction
-  let embedding: number[];
-  if (Array.isArray(result) && Array.isArray(result[0])) {
-    if (Array.isArray(result[0][0])) {
-      // Format: [[[token1], [token2], ...]] -> moyenne
-      const tokens = result[0];
-      const dim = tokens[0].length;
-      embedding = new Array(dim).fill(0);
-      for (const token of tokens) {
-        for (let i = 0; i < dim; i++) {
-          embedding[i] += token[i];
-        }
+// Moyenne des embeddings de tokens -> embedding de la phrase
+export function meanPool(tokens: number[][]): number[] {
+  const dim = tokens[0].length;
+  const embedding = new Array(dim).fill(0);
+  for (const token of tokens) {
+    for (let i = 0; i < dim; i++) {
+      embedding[i] += token[i];
+    }
+  }
+  for (let i = 0; i < dim; i++) {
+    embedding[i] /= tokens.length;
+  }
+  return embedding;
+}
+
+// Vecteur de norme 1 : la similarité cosinus de match_documents se réduit au produit scalaire
+export function l2Normalize(embedding: number[]): number[] {
+  const norm = Math.sqrt(embedding.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return embedding.map((v) => v / norm);
+}
+
+// Ramener une sortie feature-extraction (phrase ou tokens) à un seul vecteur
+function poolOutput(output: unknown): number[] {
+  if (!Array.isArray(output) || output.length === 0) {
+    throw new Error("Format d'embedding inattendu");
+  }
+  if (typeof output[0] === "number") {
+    return output as number[];
+  }
+  if (Array.isArray(output[0]) && typeof output[0][0] === "number") {
+    // Format: [[token1], [token2], ...] -> moyenne
+    return meanPool(output as number[][]);
+  }
+  // Format: [[[token1], [token2], ...]] -> moyenne
+  return poolOutput(output[0]);
+}
+
+// Embedding d'un texte, quel que soit le fournisseur : un seul vecteur, de norme 1,
+// pour que les vecteurs d'un même modèle soient comparables d'un fournisseur à l'autre
+export function toSentenceEmbedding(output: unknown): number[] {
+  return l2Normalize(poolOutput(output));
+}
+
+// API d'inférence Hugging Face (réseau requis)
+export function createHuggingFaceProvider(
+  model: string = DEFAULT_EMBEDDING_MODEL,
+  apiKey: string | undefined = process.env.HUGGINGFACE_API_KEY
+): EmbeddingProvider {
+  return {
+    name: "huggingface",
+    model,
+    async embed(texts) {
+      const response = await fetch(`${HF_ROUTER_URL}/${model}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          inputs: texts,
+          options: { wait_for_model: true },
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new EmbeddingApiError(`Hugging Face API error: ${error}`, response.status);
       }
-      for (let i = 0; i < dim; i++) {
-        embedding[i] /= tokens.length;
+
+      // L'API retourne un résultat par texte envoyé
+      const result = await response.json();
+      if (!Array.isArray(result) || result.length !== texts.length) {
+        throw new Error("Hugging Face API error: nombre d'embeddings inattendu");
+      }
+      return result.map(toSentenceEmbedding);
+    },
+  };
+}
+
+// Modèle ONNX exécuté dans le process (transformers.js), chargé depuis le disque.
+// Le modèle doit être présent dans `${modelPath}/${model}` (aucun téléchargement).
+export function createLocalProvider(
+  model: string = DEFAULT_EMBEDDING_MODEL,
+  modelPath: string = path.join(process.cwd(), "models")
+): EmbeddingProvider {
+  let extractorPromise: Promise<(text: string) => Promise<{ tolist(): unknown }>> | null = null;
+
+  const loadExtractor = async () => {
+    const { pipeline, env } = await import("@huggingface/transformers");
+    env.localModelPath = modelPath;
+    env.allowRemoteModels = false;
+    const extractor = await pipeline("feature-extraction", model);
+    return (text: string) => extractor(text);
+  };
+
+  return {
+    name: "local",
+    model,
+    async embed(texts) {
+      extractorPromise ??= loadExtractor();
+      const extractor = await extractorPromise;
+
+      const embeddings: number[][] = [];
+      for (const text of texts) {
+        const output = await extractor(text);
+        embeddings.push(toSentenceEmbedding(output.tolist()));
       }
-    } else {
-      embedding = result[0];
+      return embeddings;
+    },
+  };
+}
+
+// Embeddings déterministes pour les tests : hachage des mots dans un vecteur normalisé.
+// Deux textes partageant des mots ont une similarité cosinus positive.
+export function createFakeProvider(dimension: number = DEFAULT_FAKE_DIMENSION): EmbeddingProvider {
+  const hashWord = (word: string) => {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
     }
-  } else {
-    embedding = result;
+    return hash >>> 0;
+  };
+
+  return {
+    name: "fake",
+    model: `fake-${dimension}`,
+    async embed(texts) {
+      return texts.map((text) => {
+        const embedding = new Array(dimension).fill(0);
+        const words = normalizeText(text)
+          .split(/[^a-z0-9]+/)
+          .filter((w) => w.length > 2);
+
+        for (const word of words) {
+          const hash = hashWord(word);
+          embedding[hash % dimension] += hash & 1 ? 1 : -1;
+        }
+
+        return toSentenceEmbedding(embedding);
+      });
+    },
+  };
+}
+
+// Créer le fournisseur décrit par la configuration (variables d'environnement)
+export function createEmbeddingProvider(
+  env: Record<string, string | undefined> = process.env
+): EmbeddingProvider {
+  const providerName = env.EMBEDDING_PROVIDER || "huggingface";
+  const model = env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+
+  switch (providerName) {
+    case "huggingface":
+      return createHuggingFaceProvider(model, env.HUGGINGFACE_API_KEY);
+    case "local":
+      return createLocalProvider(model, env.EMBEDDING_LOCAL_PATH || undefined);
+    case "fake":
+      return createFakeProvider(Number(env.EMBEDDING_DIMENSION) || DEFAULT_FAKE_DIMENSION);
+    default:
+      throw new Error(`Fournisseur d'embeddings inconnu: ${providerName}`);
   }
+}
+
+let defaultProvider: EmbeddingProvider | null = null;
 
+export function getEmbeddingProvider(): EmbeddingProvider {
+  defaultProvider ??= createEmbeddingProvider();
+  return defaultProvider;
+}
+
+export async function generateEmbedding(text: string): Promise<number[]> {
+  const [embedding] = await getEmbeddingProvider().embed([text]);
   return embedding;
 }
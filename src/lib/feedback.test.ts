@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { isReviewTokenValid, parseFeedbackFilters } from "./feedback";
+
+describe("parseFeedbackFilters", () => {
+  it("garde les filtres connus", () => {
+    expect(parseFeedbackFilters({ source: "PSE", pseLevel: 2, chapter: "05", ficheType: "PR" })).toEqual({
+      mode: "chat",
+      source: "PSE",
+      pseLevel: 2,
+      chapter: "05",
+      ficheType: "PR",
+    });
+  });
+
+  it("ignore les propriétés héritées des objets", () => {
+    const filters = parseFeedbackFilters({ source: "PSE", chapter: "constructor", ficheType: "__proto__" });
+
+    expect(filters.chapter).toBeUndefined();
+    expect(filters.ficheType).toBeUndefined();
+  });
+
+  it("garde un chapitre du PSC et ignore un chapitre sans source", () => {
+    expect(parseFeedbackFilters({ source: "PSC", chapter: "03" }).chapter).toBe("03");
+    expect(parseFeedbackFilters({ chapter: "03" }).chapter).toBeUndefined();
+  });
+});
+
+describe("isReviewTokenValid", () => {
+  it("n'accepte que le jeton configuré", () => {
+    expect(isReviewTokenValid("secret", "secret")).toBe(true);
+    expect(isReviewTokenValid("secrets", "secret")).toBe(false);
+    expect(isReviewTokenValid(undefined, "secret")).toBe(false);
+  });
+
+  it("ferme la page sans jeton configuré", () => {
+    expect(isReviewTokenValid("", "")).toBe(false);
+    expect(isReviewTokenValid("secret", undefined)).toBe(false);
+  });
+});
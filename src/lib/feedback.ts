@@ -0,0 +1,143 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { supabase } from "./supabase";
+import type { SearchFilters } from "./retrieval";
+import { isChapterNumber, isFicheType, REFERENTIALS } from "./referentiel";
+
+// Retours des utilisateurs sur les réponses : pouce levé ou baissé, commentaire facultatif.
+// Chaque retour garde la question, la réponse, les extraits utilisés et les filtres,
+// pour que les retours négatifs puissent être relus avec les chunks exacts.
+
+export const FEEDBACK_RATINGS = ["up", "down"] as const;
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 2000;
+// Une réponse cite au plus quelques extraits par référentiel
+export const MAX_FEEDBACK_DOCUMENTS = 50;
+
+// Mode de réponse et filtres de recherche au moment de la question
+export type FeedbackFilters = { mode: "chat" | "compare" } & SearchFilters;
+
+// Filtres connus uniquement (les autres valeurs envoyées par le client sont ignorées).
+// Un chapitre n'a de sens que dans un référentiel : il est ignoré sans source.
+export function parseFeedbackFilters(raw: Record<string, unknown>): FeedbackFilters {
+  const source = REFERENTIALS.find((r) => r === raw.source);
+  return {
+    mode: raw.mode === "compare" ? "compare" : "chat",
+    source,
+    pseLevel: raw.pseLevel === 1 || raw.pseLevel === 2 ? raw.pseLevel : undefined,
+    chapter: source && typeof raw.chapter === "string" && isChapterNumber(raw.chapter) ? raw.chapter : undefined,
+    ficheType: typeof raw.ficheType === "string" && isFicheType(raw.ficheType) ? raw.ficheType : undefined,
+  };
+}
+
+export interface FeedbackInput {
+  rating: FeedbackRating;
+  comment: string | null;
+  question: string;
+  answer: string;
+  documentIds: number[];
+  filters: FeedbackFilters;
+}
+
+// Extrait utilisé pour la réponse, copié au moment du retour
+// (la synchronisation peut ensuite le modifier ou le supprimer)
+export interface FeedbackDocument {
+  id: number;
+  content: string;
+  source: string;
+  fiche_ref: string | null;
+  update_date: string | null;
+}
+
+export interface FeedbackReview {
+  id: number;
+  rating: FeedbackRating;
+  comment: string | null;
+  question: string;
+  answer: string;
+  documentIds: number[];
+  documents: FeedbackDocument[];
+  filters: FeedbackFilters;
+  createdAt: string;
+}
+
+interface FeedbackRow {
+  id: number;
+  rating: FeedbackRating;
+  comment: string | null;
+  question: string;
+  answer: string;
+  document_ids: number[];
+  documents: FeedbackDocument[];
+  filters: FeedbackFilters;
+  created_at: string;
+}
+
+export async function saveFeedback(input: FeedbackInput): Promise<void> {
+  let documents: FeedbackDocument[] = [];
+
+  if (input.documentIds.length > 0) {
+    const { data, error } = await supabase
+      .from("documents")
+      .select("id, content, source, fiche_ref, update_date")
+      .in("id", input.documentIds);
+
+    if (error) {
+      throw new Error(`Lecture des extraits impossible: ${error.message}`);
+    }
+    // Ordre des marqueurs [n] de la réponse
+    const byId = new Map(((data || []) as FeedbackDocument[]).map((doc) => [doc.id, doc]));
+    documents = input.documentIds.flatMap((id) => byId.get(id) || []);
+  }
+
+  const { error } = await supabase.from("answer_feedback").insert({
+    rating: input.rating,
+    comment: input.comment,
+    question: input.question,
+    answer: input.answer,
+    document_ids: input.documentIds,
+    documents,
+    filters: input.filters,
+  });
+
+  if (error) {
+    throw new Error(`Enregistrement du retour impossible: ${error.message}`);
+  }
+}
+
+// Accès à la page de relecture : jeton FEEDBACK_REVIEW_TOKEN obligatoire (page fermée
+// sans jeton configuré), comparé en temps constant (empreintes de même longueur)
+export function isReviewTokenValid(
+  provided: string | undefined,
+  expected = process.env.FEEDBACK_REVIEW_TOKEN
+): boolean {
+  if (!expected || !provided) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+// Retours négatifs les plus récents, avec les extraits utilisés pour la réponse
+export async function getNegativeFeedback(limit = 50): Promise<FeedbackReview[]> {
+  const { data, error } = await supabase
+    .from("answer_feedback")
+    .select("id, rating, comment, question, answer, document_ids, documents, filters, created_at")
+    .eq("rating", "down")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Lecture des retours impossible: ${error.message}`);
+  }
+
+  return ((data || []) as FeedbackRow[]).map((row) => ({
+    id: row.id,
+    rating: row.rating,
+    comment: row.comment,
+    question: row.question,
+    answer: row.answer,
+    documentIds: row.document_ids,
+    documents: row.documents,
+    filters: row.filters,
+    createdAt: row.created_at,
+  }));
+}
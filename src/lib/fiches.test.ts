@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { compareEditions, EditionRow, groupEditionRows } from "./fiches";
+
+let nextId = 1;
+const row = (
+  referential: string,
+  source: string,
+  update_date: string,
+  content: string,
+  is_current = false
+): EditionRow => ({ id: nextId++, content, source, referential, chunk_key: null, update_date, is_current });
+
+// Lignes de get_fiche_editions : 01PR01 existe au PSE (deux éditions, la plus récente
+// présente dans PSE1.pdf et PSE2.pdf) et au PSC, où c'est une autre fiche
+const ROWS = [
+  row("PSE", "PSE1.pdf", "05-2024", "Alerter les secours.", true),
+  row("PSE", "PSE2.pdf", "05-2024", "Alerter les secours.", true),
+  row("PSC", "PSC.pdf", "05-2024", "Protéger la victime.", true),
+  row("PSE", "PSE 2019.pdf", "09-2019", "Prévenir les secours."),
+];
+
+describe("groupEditionRows", () => {
+  it("garde une édition par date, dans le seul référentiel demandé", () => {
+    const editions = groupEditionRows(ROWS, "PSE");
+
+    expect(editions.map((e) => [e.updateDate, e.source])).toEqual([
+      ["05-2024", "PSE1.pdf"],
+      ["09-2019", "PSE 2019.pdf"],
+    ]);
+    expect(groupEditionRows(ROWS, "PSC").map((e) => e.content)).toEqual(["Protéger la victime."]);
+  });
+});
+
+describe("compareEditions", () => {
+  const editions = groupEditionRows(ROWS, "PSE");
+
+  it("compare par défaut l'avant-dernière édition du référentiel à la plus récente", () => {
+    const comparison = compareEditions(editions);
+
+    expect([comparison?.from.updateDate, comparison?.to.updateDate]).toEqual(["09-2019", "05-2024"]);
+    expect(comparison?.stats).toEqual({ added: 1, removed: 1 });
+  });
+
+  it("refuse de comparer une édition avec elle-même", () => {
+    expect(compareEditions(editions, "05-2024", "05-2024")).toBeNull();
+    expect(compareEditions(editions, "05-2024")).toBeNull();
+    expect(compareEditions(groupEditionRows(ROWS, "PSC"))).toBeNull();
+  });
+});
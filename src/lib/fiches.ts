@@ -0,0 +1,383 @@
+import { supabase } from "./supabase";
+import { diffStats, diffTexts, DiffSegment, DiffStats } from "./diff";
+import { FICHE_TYPES, REFERENTIALS } from "./referentiel";
+
+// Ligne renvoyée par get_fiche_by_ref / get_fiches_by_chapter / get_fiches_by_type
+export interface FicheRow {
+  id: number;
+  content: string;
+  source: string;
+  chapter: string | null;
+  chapter_name: string | null;
+  fiche_type: string | null;
+  fiche_type_name: string | null;
+  fiche_ref: string | null;
+  pse_level: number | null;
+  update_date: string | null;
+  referential: string | null;
+  chunk_key: string | null;
+}
+
+// Fiche complète (ses chunks réassemblés) dans un référentiel
+export interface Fiche {
+  ref: string;
+  title: string;
+  referential: string | null;
+  source: string;
+  chapter: string | null;
+  chapterName: string | null;
+  ficheType: string | null;
+  ficheTypeName: string | null;
+  pseLevel: number | null;
+  updateDate: string | null;
+  content: string;
+}
+
+// Une édition d'une fiche : ses chunks (fiche_ref, fiche_ref#2...) pour une date de mise à jour
+export interface FicheEdition {
+  updateDate: string | null;
+  source: string;
+  referential: string | null;
+  isCurrent: boolean;
+  content: string;
+  documentIds: number[];
+}
+
+export interface EditionComparison {
+  from: FicheEdition;
+  to: FicheEdition;
+  segments: DiffSegment[];
+  stats: DiffStats;
+}
+
+export interface EditionRow {
+  id: number;
+  content: string;
+  source: string;
+  referential: string | null;
+  chunk_key: string | null;
+  update_date: string | null;
+  is_current: boolean;
+}
+
+// Éditions d'une fiche dans un référentiel, la plus récente d'abord : une par date.
+// La même édition peut figurer dans plusieurs PDF du référentiel (PSE1 et PSE2) :
+// une seule copie est gardée, de préférence celle en vigueur.
+export function groupEditionRows(rows: EditionRow[], referential: string): FicheEdition[] {
+  const copies = new Map<string, FicheEdition>();
+  for (const row of rows) {
+    if (row.referential !== referential) continue;
+
+    const key = `${row.source}|${row.update_date}`;
+    const edition = copies.get(key);
+    if (edition) {
+      edition.content += `\n\n${row.content}`;
+      edition.documentIds.push(row.id);
+    } else {
+      copies.set(key, {
+        updateDate: row.update_date,
+        source: row.source,
+        referential: row.referential,
+        isCurrent: row.is_current,
+        content: row.content,
+        documentIds: [row.id],
+      });
+    }
+  }
+
+  const editions = new Map<string | null, FicheEdition>();
+  copies.forEach((copy) => {
+    const kept = editions.get(copy.updateDate);
+    if (!kept || (copy.isCurrent && !kept.isCurrent)) {
+      editions.set(copy.updateDate, copy);
+    }
+  });
+  return Array.from(editions.values());
+}
+
+// Toutes les éditions d'une fiche dans un référentiel (une même référence désigne
+// des fiches différentes au PSE et au PSC)
+export async function getFicheEditions(ref: string, referential: string): Promise<FicheEdition[]> {
+  const { data, error } = await supabase.rpc("get_fiche_editions", { ref });
+
+  if (error) {
+    throw new Error(`Lecture des éditions de ${ref} impossible: ${error.message}`);
+  }
+  return groupEditionRows((data || []) as EditionRow[], referential);
+}
+
+// Fiche citée dans une réponse, dans l'édition de l'extrait utilisé
+export interface CitedFiche {
+  ref: string;
+  referential: string | null;
+  source: string;
+  updateDate: string | null;
+}
+
+// Références et éditions des fiches d'où proviennent les extraits cités
+// (les extraits supprimés depuis par la synchronisation sont ignorés)
+export async function getCitedFiches(documentIds: number[]): Promise<CitedFiche[]> {
+  const { data, error } = await supabase
+    .from("documents")
+    .select("fiche_ref, referential, source, update_date")
+    .in("id", documentIds)
+    .not("fiche_ref", "is", null);
+
+  if (error) {
+    throw new Error(`Lecture des fiches citées impossible: ${error.message}`);
+  }
+
+  const fiches = new Map<string, CitedFiche>();
+  for (const row of (data || []) as Pick<FicheRow, "fiche_ref" | "referential" | "source" | "update_date">[]) {
+    const ref = row.fiche_ref as string;
+    fiches.set(`${ref}|${row.referential}|${row.update_date}`, {
+      ref,
+      referential: row.referential,
+      source: row.source,
+      updateDate: row.update_date,
+    });
+  }
+  return Array.from(fiches.values()).sort((a, b) => a.ref.localeCompare(b.ref));
+}
+
+// Comparer deux éditions distinctes d'un même référentiel (par défaut : l'avant-dernière
+// et la plus récente). null si l'une est introuvable ou si les deux sont la même.
+export function compareEditions(
+  editions: FicheEdition[],
+  fromDate?: string | null,
+  toDate?: string | null
+): EditionComparison | null {
+  const to = toDate ? editions.find((e) => e.updateDate === toDate) : editions[0];
+  const from = fromDate
+    ? editions.find((e) => e.updateDate === fromDate)
+    : editions.find((e) => e !== to);
+
+  if (!from || !to || from === to) {
+    return null;
+  }
+
+  const segments = diffTexts(from.content, to.content);
+  return { from, to, segments, stats: diffStats(segments) };
+}
+
+// Pattern d'en-tête de fiche : [07PR13 / 09-2019] PSE②
+const FICHE_HEADER_PATTERN = /^\s*\[\d{2}(AC|PR|FT)\d+\s*\/\s*\d{2}-\d{4}\]\s*(PS[CE]\s*[①②]?)?/i;
+
+// Titre d'une fiche : première ligne non vide après l'en-tête
+export function extractFicheTitle(content: string): string {
+  const lines = content
+    .replace(FICHE_HEADER_PATTERN, "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return lines[0] || "Sans titre";
+}
+
+// Réassembler les chunks (fiche_ref, fiche_ref#2...) en une fiche par référentiel
+function groupFicheRows(rows: FicheRow[]): Fiche[] {
+  const fiches = new Map<string, Fiche>();
+
+  for (const row of rows) {
+    if (!row.fiche_ref) continue;
+
+    const key = `${row.referential}|${row.fiche_ref}`;
+    const fiche = fiches.get(key);
+    if (fiche) {
+      fiche.content += `\n\n${row.content}`;
+    } else {
+      fiches.set(key, {
+        ref: row.fiche_ref,
+        title: extractFicheTitle(row.content),
+        referential: row.referential,
+        source: row.source,
+        chapter: row.chapter,
+        chapterName: row.chapter_name,
+        ficheType: row.fiche_type,
+        ficheTypeName: row.fiche_type_name,
+        pseLevel: row.pse_level,
+        updateDate: row.update_date,
+        content: row.content,
+      });
+    }
+  }
+
+  return Array.from(fiches.values());
+}
+
+// Fiche courante par référence (une entrée par référentiel qui la contient)
+export async function getFicheByRef(ref: string): Promise<Fiche[]> {
+  const { data, error } = await supabase.rpc("get_fiche_by_ref", { ref });
+
+  if (error) {
+    throw new Error(`Lecture de la fiche ${ref} impossible: ${error.message}`);
+  }
+  return groupFicheRows((data || []) as FicheRow[]);
+}
+
+// Fiches courantes d'un chapitre, regroupées par type (AC, PR, FT)
+export async function getFichesByChapter(
+  chapter: string,
+  referential: string
+): Promise<Record<string, Fiche[]>> {
+  const { data, error } = await supabase
+    .rpc("get_fiches_by_chapter", { chapter_num: chapter })
+    .eq("referential", referential);
+
+  if (error) {
+    throw new Error(`Lecture du chapitre ${chapter} impossible: ${error.message}`);
+  }
+
+  const byType: Record<string, Fiche[]> = {};
+  for (const type of Object.keys(FICHE_TYPES)) {
+    byType[type] = [];
+  }
+  for (const fiche of groupFicheRows((data || []) as FicheRow[])) {
+    (byType[fiche.ficheType || "?"] ??= []).push(fiche);
+  }
+  return byType;
+}
+
+export interface FicheFilters {
+  referential: string;
+  chapter?: string;
+  ficheType?: string;
+  pseLevel?: number;
+}
+
+// Lignes lues par page (limite de réponse de l'API Supabase)
+const PAGE_SIZE = 1000;
+
+// Chunks des fiches courantes, lus par pages : sans pagination, la réponse s'arrête
+// à 1000 lignes, parfois au milieu d'une fiche
+async function fetchCurrentFicheRows(filters: Partial<FicheFilters> = {}): Promise<FicheRow[]> {
+  const rows: FicheRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from("documents")
+      .select(
+        "id, content, source, chapter, chapter_name, fiche_type, fiche_type_name, fiche_ref, pse_level, update_date, referential, chunk_key"
+      )
+      .eq("is_current", true)
+      .not("fiche_ref", "is", null);
+
+    if (filters.referential) query = query.eq("referential", filters.referential);
+    if (filters.chapter) query = query.eq("chapter", filters.chapter);
+    if (filters.ficheType) query = query.eq("fiche_type", filters.ficheType);
+    if (filters.pseLevel) query = query.eq("pse_level", filters.pseLevel);
+
+    const { data, error } = await query
+      .order("referential")
+      .order("fiche_ref")
+      .order("chunk_key")
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Lecture des fiches impossible: ${error.message}`);
+    }
+    rows.push(...((data || []) as FicheRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+// Fiches courantes d'un référentiel, filtrées par chapitre, type ou niveau PSE
+export async function findFiches(filters: FicheFilters): Promise<Fiche[]> {
+  return groupFicheRows(await fetchCurrentFicheRows(filters));
+}
+
+// Toutes les fiches courantes, tous référentiels : copie téléchargée pour le mode hors ligne
+export async function getFicheSnapshot(): Promise<Fiche[]> {
+  return groupFicheRows(await fetchCurrentFicheRows());
+}
+
+// Chapitre d'un référentiel, avec le nom que lui donne ce référentiel
+// (les chapitres du PSC ne sont pas ceux du PSE)
+export interface FicheChapter {
+  chapter: string;
+  name: string;
+}
+
+// Chapitres ayant des fiches courantes, par référentiel (de ce type de fiche si précisé).
+// Un référentiel sans fiche (SST, découpé en sections) a une liste vide.
+export async function getFicheChapters(ficheType?: string): Promise<Record<string, FicheChapter[]>> {
+  const chapters: Record<string, FicheChapter[]> = Object.fromEntries(REFERENTIALS.map((r) => [r, []]));
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from("documents")
+      .select("referential, chapter, chapter_name")
+      .eq("is_current", true)
+      .not("fiche_ref", "is", null)
+      .not("chapter", "is", null);
+    if (ficheType) query = query.eq("fiche_type", ficheType);
+
+    const { data, error } = await query
+      .order("referential")
+      .order("chapter")
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Lecture des chapitres impossible: ${error.message}`);
+    }
+    for (const row of (data || []) as Pick<FicheRow, "referential" | "chapter" | "chapter_name">[]) {
+      const list = row.referential ? chapters[row.referential] : undefined;
+      if (!list || !row.chapter || list[list.length - 1]?.chapter === row.chapter) continue;
+      list.push({ chapter: row.chapter, name: row.chapter_name || `Chapitre ${row.chapter}` });
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return chapters;
+}
+
+// Le référentiel a-t-il des fiches courantes dans ce chapitre ? (les numéros de chapitre
+// du PSC ne sont pas ceux du PSE, le SST n'en a pas)
+export async function hasFicheChapter(referential: string, chapter: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("documents")
+    .select("id")
+    .eq("is_current", true)
+    .eq("referential", referential)
+    .eq("chapter", chapter)
+    .not("fiche_ref", "is", null)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Lecture du chapitre ${chapter} impossible: ${error.message}`);
+  }
+  return (data || []).length > 0;
+}
+
+// Nombre de fiches par chapitre et par type pour un référentiel
+export async function getChapterCounts(
+  referential: string
+): Promise<Record<string, Record<string, number>>> {
+  const counts: Record<string, Record<string, number>> = {};
+
+  await Promise.all(
+    Object.keys(FICHE_TYPES).map(async (type) => {
+      const { data, error } = await supabase
+        .rpc("get_fiches_by_type", { type_code: type })
+        .select("chapter, fiche_ref")
+        .eq("referential", referential);
+
+      if (error) {
+        throw new Error(`Lecture des fiches ${type} impossible: ${error.message}`);
+      }
+
+      const refs = new Set<string>();
+      for (const row of (data || []) as { chapter: string | null; fiche_ref: string }[]) {
+        if (!row.chapter || refs.has(row.fiche_ref)) continue;
+        refs.add(row.fiche_ref);
+        counts[row.chapter] ??= {};
+        counts[row.chapter][type] = (counts[row.chapter][type] || 0) + 1;
+      }
+    })
+  );
+
+  return counts;
+}
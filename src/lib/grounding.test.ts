@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { UNSUPPORTED_CLAIM_MARKER } from "./answer-markup";
+import type { Citation } from "./citations";
+import {
+  applyGrounding,
+  checkGrounding,
+  GroundedClaim,
+  passageSupport,
+  sameNegation,
+  splitIntoClaims,
+} from "./grounding";
+
+const create = vi.hoisted(() => vi.fn());
+vi.mock("./anthropic", () => ({ anthropic: { messages: { create } }, CLAUDE_MODEL: "test" }));
+
+const citation = (marker: number, content: string): Citation => ({
+  marker,
+  documentId: marker,
+  ficheRef: null,
+  source: "test",
+  content,
+});
+
+const grounded = (answer: string, supported: boolean[]): GroundedClaim[] =>
+  splitIntoClaims(answer).map((claim, i) => ({ ...claim, lexicalScore: 0, supported: supported[i] }));
+
+beforeEach(() => {
+  create.mockReset();
+});
+
+describe("splitIntoClaims", () => {
+  it("relève la position de chaque phrase et de chaque ligne de liste", () => {
+    const answer = "Allonger la victime au sol [1]. Surveiller sa respiration.\n- Couvrir la victime rapidement";
+    const claims = splitIntoClaims(answer);
+
+    expect(claims.map((c) => answer.slice(c.start, c.end))).toEqual([
+      "Allonger la victime au sol [1].",
+      "Surveiller sa respiration.",
+      "- Couvrir la victime rapidement",
+    ]);
+    expect(claims[0]).toMatchObject({ text: "Allonger la victime au sol.", markers: [1] });
+  });
+});
+
+describe("négation", () => {
+  it("compte les mots de négation comme porteurs de sens", () => {
+    expect(passageSupport("Ne jamais retirer le casque", "Retirer le casque du motard")).toBeLessThan(1);
+  });
+
+  it("compare la négation à la phrase la plus proche du passage", () => {
+    const passage = "Allonger la victime. Ne jamais retirer le casque d'un motard conscient.";
+
+    expect(sameNegation("Retirer le casque du motard", passage)).toBe(false);
+    expect(sameNegation("Ne pas retirer le casque du motard", passage)).toBe(true);
+    expect(sameNegation("N'allongez pas la victime", passage)).toBe(false);
+  });
+});
+
+describe("applyGrounding", () => {
+  it("retire les affirmations à leur position, même répétées ailleurs", () => {
+    const answer = "Comprimer la plaie fermement. Appeler les secours médicalisés.\n- Comprimer la plaie fermement";
+    const result = applyGrounding(answer, grounded(answer, [true, false, false]), "remove");
+
+    expect(result).toBe("Comprimer la plaie fermement.\n");
+  });
+
+  it("signale les affirmations non étayées après la phrase", () => {
+    const answer = "Comprimer la plaie fermement [1]. Appeler les secours médicalisés.";
+    const result = applyGrounding(answer, grounded(answer, [false, true]), "flag");
+
+    expect(result).toBe(`Comprimer la plaie fermement [1]. ${UNSUPPORTED_CLAIM_MARKER} Appeler les secours médicalisés.`);
+  });
+
+  it("signale au lieu de retirer une affirmation que le juge n'a pas examinée", () => {
+    const answer = "Comprimer la plaie fermement.";
+    const [claim] = grounded(answer, [false]);
+
+    expect(applyGrounding(answer, [{ ...claim, unverified: true }], "remove")).toBe(
+      `Comprimer la plaie fermement. ${UNSUPPORTED_CLAIM_MARKER}`
+    );
+  });
+
+  it("échoue si l'affirmation n'est plus à sa position", () => {
+    const [claim] = grounded("Comprimer la plaie fermement.", [false]);
+
+    expect(() => applyGrounding("Autre texte sans rapport.", [claim], "remove")).toThrow();
+  });
+});
+
+describe("checkGrounding", () => {
+  const citations = [citation(1, "Ne jamais retirer le casque d'un motard conscient.")];
+
+  it("envoie au juge une affirmation de négation opposée au passage", async () => {
+    create.mockResolvedValue({
+      content: [{ type: "text", text: '[{"id": 1, "verdict": "unsupported"}]' }],
+      usage: { input_tokens: 1, output_tokens: 1 },
+    });
+
+    const result = await checkGrounding("Retirer le casque du motard conscient [1].", citations, "remove");
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(result.score).toBe(0);
+    expect(result.response).toBe("");
+  });
+
+  it("accepte sans juge une reformulation fidèle", async () => {
+    const result = await checkGrounding("Ne jamais retirer le casque du motard conscient [1].", citations, "remove");
+
+    expect(create).not.toHaveBeenCalled();
+    expect(result.score).toBe(1);
+  });
+
+  it("signale les affirmations douteuses si le juge est indisponible", async () => {
+    create.mockRejectedValue(new Error("indisponible"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await checkGrounding("Retirer le casque du motard conscient [1].", citations, "remove");
+
+    expect(result.claims[0]).toMatchObject({ supported: false, unverified: true });
+    expect(result.response).toContain(UNSUPPORTED_CLAIM_MARKER);
+  });
+});
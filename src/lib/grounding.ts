@@ -0,0 +1,265 @@
+import { anthropic, CLAUDE_MODEL, OnUsage } from "./anthropic";
+import { UNSUPPORTED_CLAIM_MARKER } from "./answer-markup";
+import { Citation, citedMarkers, stripCitations } from "./citations";
+import { normalizeText } from "./text";
+
+// Vérification après génération : chaque affirmation de la réponse doit être
+// retrouvée dans les extraits fournis au modèle.
+//   1. recouvrement lexical avec les extraits cités (ou tous les extraits à défaut),
+//      à condition que la négation de l'affirmation soit celle du passage retrouvé
+//   2. juge LLM pour les affirmations que le recouvrement ne suffit pas à confirmer
+// Les affirmations non étayées sont signalées ou retirées (GROUNDING_MODE) ; celles
+// que le juge n'a pas pu examiner sont toujours signalées.
+
+export type GroundingMode = "flag" | "remove" | "off";
+
+// Affirmation et sa position dans la réponse (phrase ou ligne de liste, marqueurs compris)
+export interface Claim {
+  text: string;
+  markers: number[];
+  start: number;
+  end: number;
+  isListItem: boolean;
+}
+
+export interface GroundedClaim extends Claim {
+  lexicalScore: number;
+  supported: boolean;
+  // Juge indisponible : affirmation ni confirmée ni écartée
+  unverified?: boolean;
+}
+
+export interface GroundingResult {
+  score: number;
+  claims: GroundedClaim[];
+  response: string;
+}
+
+// Au-delà (et à négation identique), l'affirmation est considérée étayée sans appel au juge
+const LEXICAL_SUPPORT_THRESHOLD = 0.8;
+
+// Réponse imposée par le prompt quand l'information manque
+const ABSENCE_PATTERN = /n'appara[iî]t pas dans les extraits/i;
+
+// Signalement en texte brut, mis en forme à l'affichage (answer-markup.ts)
+const UNSUPPORTED_FLAG = ` ${UNSUPPORTED_CLAIM_MARKER}`;
+
+const JUDGE_PROMPT = `Tu vérifies des réponses de secourisme. Pour chaque affirmation numérotée, indique si elle est EXPLICITEMENT étayée par les extraits fournis.
+
+Règles :
+- "supported" : l'affirmation reformule fidèlement un passage des extraits
+- "unsupported" : l'affirmation ajoute un geste, une valeur ou une consigne absents des extraits
+- Réponds UNIQUEMENT par un tableau JSON : [{"id": 1, "verdict": "supported"}, ...]`;
+
+// Mots sans valeur de preuve (forme normalisée, sans accents)
+const FUNCTION_WORDS = new Set([
+  "avec", "dans", "pour", "sous", "vers", "chez", "entre", "cette", "celle", "celui",
+  "elle", "elles", "sont", "etre", "avoir", "faire", "doit", "peut", "leur", "leurs", "dont",
+  "mais", "donc", "ainsi", "alors", "tout", "tous", "toute", "toutes", "plus", "moins", "tres",
+]);
+
+export function getGroundingMode(): GroundingMode {
+  const mode = process.env.GROUNDING_MODE;
+  return mode === "remove" || mode === "off" ? mode : "flag";
+}
+
+// Négations (« n' » élidé compris) : « ne pas comprimer » et « comprimer » partagent
+// tous leurs autres mots, elles comptent donc comme des mots porteurs de sens
+const NEGATION_WORDS = new Set(["ne", "n", "pas", "jamais", "sans", "aucun", "aucune", "ni"]);
+
+function words(text: string): string[] {
+  return normalizeText(text).split(/[^a-z0-9]+/);
+}
+
+// Mots porteurs de sens, tronqués pour tolérer pluriels et accords
+function contentStems(text: string): string[] {
+  return words(text)
+    .filter((word) => NEGATION_WORDS.has(word) || (word.length > 3 && !FUNCTION_WORDS.has(word)))
+    .map((word) => word.slice(0, 6));
+}
+
+function isNegated(text: string): boolean {
+  return words(text).some((word) => NEGATION_WORDS.has(word));
+}
+
+// Affirmations : éléments de liste et phrases hors balises de blocs
+export function splitIntoClaims(answer: string): Claim[] {
+  const claims: Claim[] = [];
+  let lineStart = 0;
+
+  for (const rawLine of answer.split("\n")) {
+    const offset = lineStart;
+    lineStart += rawLine.length + 1;
+
+    const line = rawLine.trim();
+    if (!line || line.startsWith(":::") || line.startsWith("#")) continue;
+
+    const isListItem = /^([-*]|\d+\.)\s+/.test(line);
+    const body = line.replace(/^([-*]|\d+\.)\s+/, "");
+    const sentences = isListItem ? [body] : body.split(/(?<=[.!?])\s+(?=[A-ZÀ-Ý])/);
+
+    let cursor = 0;
+    for (const sentence of sentences) {
+      const position = rawLine.indexOf(sentence, cursor);
+      cursor = position + sentence.length;
+
+      const text = stripCitations(sentence).replace(/[*_`]/g, "").trim();
+      // Titres courts, introductions de liste ("Voici les gestes :") ou constat d'absence :
+      // rien à vérifier
+      if (contentStems(text).length < 2 || /:\s*$/.test(text) || ABSENCE_PATTERN.test(text)) continue;
+
+      claims.push({
+        text,
+        markers: citedMarkers(sentence),
+        // Élément de liste : toute la ligne
+        start: isListItem ? offset : offset + position,
+        end: isListItem ? offset + rawLine.length : offset + cursor,
+        isListItem,
+      });
+    }
+  }
+
+  return claims;
+}
+
+// Part des mots d'un texte retrouvés dans un passage
+export function passageSupport(text: string, passage: string): number {
+  const available = new Set(contentStems(passage));
+  const stems = contentStems(text);
+
+  if (stems.length === 0) return 1;
+  return stems.filter((stem) => available.has(stem)).length / stems.length;
+}
+
+// La phrase du passage la plus proche du texte a-t-elle la même négation ?
+// (« ne jamais retirer le casque » ne confirme pas « retirer le casque »)
+export function sameNegation(text: string, passage: string): boolean {
+  const stems = new Set(contentStems(text));
+  let closest = "";
+  let closestOverlap = -1;
+
+  for (const sentence of passage.split(/(?<=[.!?;:])\s+|\n+/)) {
+    const overlap = contentStems(sentence).filter((stem) => stems.has(stem)).length;
+    if (overlap > closestOverlap) {
+      closest = sentence;
+      closestOverlap = overlap;
+    }
+  }
+  return isNegated(text) === isNegated(closest);
+}
+
+// Extraits cités par l'affirmation (ou tous les extraits à défaut)
+function claimPassages(claim: { markers: number[] }, citations: Citation[]): string {
+  const cited = citations.filter((c) => claim.markers.includes(c.marker));
+  return (cited.length > 0 ? cited : citations).map((c) => c.content).join("\n");
+}
+
+// Part des mots de l'affirmation retrouvés dans les extraits cités (ou dans tous)
+export function lexicalSupport(claim: { text: string; markers: number[] }, citations: Citation[]): number {
+  return passageSupport(claim.text, claimPassages(claim, citations));
+}
+
+// Demander au juge LLM les verdicts des affirmations douteuses (null si indisponible)
+async function judgeClaims(
+  claims: { text: string }[],
+  citations: Citation[],
+  onUsage?: OnUsage
+): Promise<boolean[] | null> {
+  const extracts = citations.map((c) => `[Extrait ${c.marker}]\n${c.content}`).join("\n\n---\n\n");
+  const numbered = claims.map((claim, i) => `${i + 1}. ${claim.text}`).join("\n");
+
+  try {
+    const message = await anthropic.messages.create({
+      model: CLAUDE_MODEL,
+      max_tokens: 1024,
+      system: JUDGE_PROMPT,
+      messages: [{ role: "user", content: `${extracts}\n\n---\n\nAffirmations :\n${numbered}` }],
+    });
+    onUsage?.(message.usage);
+
+    const text = message.content[0].type === "text" ? message.content[0].text : "";
+    const json = text.slice(text.indexOf("["), text.lastIndexOf("]") + 1);
+    const verdicts = JSON.parse(json) as { id: number; verdict: string }[];
+
+    return claims.map((_, i) => verdicts.find((v) => v.id === i + 1)?.verdict === "supported");
+  } catch (err) {
+    console.error("Erreur juge d'ancrage:", err);
+    return null;
+  }
+}
+
+// Signaler ou retirer les affirmations non étayées, aux positions relevées lors du découpage
+// (de la fin vers le début, pour que les positions restantes restent valables)
+export function applyGrounding(answer: string, claims: GroundedClaim[], mode: GroundingMode): string {
+  let result = answer;
+  const unsupported = claims.filter((c) => !c.supported).sort((a, b) => b.start - a.start);
+
+  for (const claim of unsupported) {
+    const span = stripCitations(result.slice(claim.start, claim.end)).replace(/[*_`]/g, "");
+    if (!span.includes(claim.text)) {
+      throw new Error(`Affirmation introuvable à sa position dans la réponse : ${claim.text}`);
+    }
+
+    if (mode === "remove" && !claim.unverified) {
+      // Ligne de liste retirée avec son retour à la ligne, phrase avec l'espace qui l'entoure
+      let { start, end } = claim;
+      if (claim.isListItem) {
+        end += 1;
+      } else {
+        const following = /^[ \t]*/.exec(result.slice(end))![0].length;
+        if (following > 0) end += following;
+        else start -= /[ \t]*$/.exec(result.slice(0, start))![0].length;
+      }
+      result = result.slice(0, start) + result.slice(end);
+    } else {
+      result = result.slice(0, claim.end) + UNSUPPORTED_FLAG + result.slice(claim.end);
+    }
+  }
+
+  // Blocs vidés par les suppressions
+  return result.replace(/:::(do|dont|warning|info)\s*\n\s*:::\n?/g, "");
+}
+
+export async function checkGrounding(
+  answer: string,
+  citations: Citation[],
+  mode: GroundingMode = getGroundingMode(),
+  onUsage?: OnUsage
+): Promise<GroundingResult> {
+  const claims: GroundedClaim[] = splitIntoClaims(answer).map((claim) => {
+    const passages = claimPassages(claim, citations);
+    const lexicalScore = passageSupport(claim.text, passages);
+    const supported = lexicalScore >= LEXICAL_SUPPORT_THRESHOLD && sameNegation(claim.text, passages);
+    return { ...claim, lexicalScore, supported };
+  });
+
+  // Sans verdict du juge, les affirmations douteuses restent non confirmées (signalées)
+  const doubtful = claims.filter((claim) => !claim.supported);
+  if (doubtful.length > 0 && citations.length > 0) {
+    const verdicts = await judgeClaims(doubtful, citations, onUsage);
+    doubtful.forEach((claim, i) => {
+      if (verdicts) {
+        claim.supported = verdicts[i];
+      } else {
+        claim.unverified = true;
+      }
+    });
+  }
+
+  const supportedCount = claims.filter((claim) => claim.supported).length;
+  const score = claims.length > 0 ? supportedCount / claims.length : 1;
+
+  return {
+    score: Math.round(score * 100) / 100,
+    claims,
+    response: mode === "off" ? answer : applyGrounding(answer, claims, mode),
+  };
+}
+
+// Résumé de la vérification d'ancrage envoyé au client
+export function groundingPayload(grounding: GroundingResult) {
+  return {
+    score: grounding.score,
+    unsupported: grounding.claims.filter((claim) => !claim.supported).map((claim) => claim.text),
+  };
+}
@@ -0,0 +1,103 @@
+import type { Fiche } from "./fiches";
+import { normalizeText } from "./text";
+
+// Mode hors ligne : copie de toutes les fiches gardée dans le cache du navigateur
+// (Cache Storage) et recherche par mots-clés, sans génération de réponse par le modèle.
+
+export interface FicheSnapshot {
+  generatedAt: string;
+  fiches: Fiche[];
+}
+
+export interface OfflineMatch {
+  fiche: Fiche;
+  score: number;
+}
+
+export const FICHE_SNAPSHOT_URL = "/api/fiches/snapshot";
+
+// Cache distinct de celui du service worker (public/sw.js), qui ne le purge jamais
+const SNAPSHOT_CACHE = "secouristia-fiches";
+
+const DEFAULT_OFFLINE_RESULTS = 5;
+
+// Mots des questions sans valeur pour la recherche (forme normalisée, sans accents)
+const STOP_WORDS = new Set([
+  "les", "des", "une", "est", "que", "qui", "quoi", "sur", "par", "aux", "son", "ses", "leur",
+  "comment", "quel", "quelle", "quelles", "quels", "quand", "pourquoi", "faire", "faut", "dois",
+  "doit", "peut", "avec", "dans", "pour", "sans", "chez", "cette", "sont", "etre", "avoir",
+  "face", "victime", "conduite", "tenir",
+]);
+
+export function isOfflineCacheSupported(): boolean {
+  return typeof caches !== "undefined";
+}
+
+// Télécharger la copie des fiches et l'enregistrer pour le mode hors ligne
+export async function downloadFicheSnapshot(): Promise<FicheSnapshot> {
+  const res = await fetch(FICHE_SNAPSHOT_URL, { cache: "no-store" });
+  if (!res.ok) {
+    throw new Error("Téléchargement des fiches impossible, réessayez");
+  }
+
+  const cache = await caches.open(SNAPSHOT_CACHE);
+  await cache.put(FICHE_SNAPSHOT_URL, res.clone());
+  return res.json();
+}
+
+export async function loadFicheSnapshot(): Promise<FicheSnapshot | null> {
+  if (!isOfflineCacheSupported()) return null;
+
+  const cache = await caches.open(SNAPSHOT_CACHE);
+  const res = await cache.match(FICHE_SNAPSHOT_URL);
+  return res ? res.json() : null;
+}
+
+function searchTerms(query: string): string[] {
+  const words = normalizeText(query)
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word));
+  return Array.from(new Set(words));
+}
+
+function occurrences(text: string, term: string): number {
+  return text.split(term).length - 1;
+}
+
+// Fiches les plus proches d'une question : mots trouvés dans le titre (poids fort),
+// la référence et le contenu, pondérés par la part des mots de la question retrouvés
+export function searchFiches(
+  fiches: Fiche[],
+  query: string,
+  options: { referential?: string; limit?: number } = {}
+): OfflineMatch[] {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+
+  // Début de mot commun : pluriels et accords (brûlure, brûlures)
+  const stems = terms.map((term) => term.slice(0, Math.max(4, term.length - 2)));
+
+  return fiches
+    .filter((fiche) => !options.referential || fiche.referential === options.referential)
+    .map((fiche) => {
+      const title = normalizeText(fiche.title);
+      const ref = normalizeText(fiche.ref);
+      const content = normalizeText(fiche.content);
+      let score = 0;
+      let found = 0;
+
+      terms.forEach((term, i) => {
+        const inTitle = title.includes(stems[i]);
+        const count = occurrences(content, stems[i]);
+        if (ref === term) score += 5;
+        if (inTitle) score += 3;
+        score += Math.log(1 + count);
+        if (inTitle || count > 0 || ref === term) found++;
+      });
+
+      return { fiche, score: score * (found / terms.length) };
+    })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit || DEFAULT_OFFLINE_RESULTS);
+}
@@ -0,0 +1,17 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it, vi } from "vitest";
+import { createQueryLogger } from "./query-log";
+
+describe("createQueryLogger", () => {
+  it("n'écrit qu'une entrée par requête", async () => {
+    const insert = vi.fn().mockResolvedValue({ error: null });
+    const client = { from: () => ({ insert }) } as unknown as SupabaseClient;
+    const log = createQueryLogger(client, { question: "Question", mode: "chat", filters: {} });
+
+    await log.finish({ answer: "Réponse" });
+    await log.finish({ answer: "", error: "Erreur après la réponse" });
+
+    expect(insert).toHaveBeenCalledTimes(1);
+    expect(insert.mock.calls[0][0]).toMatchObject({ error: null });
+  });
+});
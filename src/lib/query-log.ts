@@ -0,0 +1,141 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { OnUsage } from "./anthropic";
+import type { DocumentMatch, SearchFilters } from "./retrieval";
+
+// Journal des requêtes du chat : question, requête reformulée, extraits retenus et scores,
+// filtres, durée de chaque étape et tokens consommés. Les questions sans réponse
+// (constat d'absence, aucun extrait, similarité faible) sont signalées automatiquement
+// pour orienter l'enrichissement du corpus (npm run query-report).
+
+export type QueryStage = "cache" | "reformulation" | "search" | "generation" | "grounding" | "comparison";
+
+export type UnansweredReason = "no_documents" | "missing_information" | "weak_similarity";
+
+export interface QueryLogDocument {
+  id: number;
+  fiche_ref: string | null;
+  // Score fusionné (RRF) et similarité cosinus de la recherche vectorielle (inconnus en cache)
+  score: number | null;
+  similarity: number | null;
+}
+
+export interface QueryOutcome {
+  answer: string;
+  cached?: boolean;
+  // Mode comparaison : aucun référentiel ne traite la question
+  silent?: boolean;
+  error?: string;
+}
+
+export interface QueryLogger {
+  // Chronométrer une étape du traitement
+  stage<T>(name: QueryStage, run: () => Promise<T>): Promise<T>;
+  recordUsage: OnUsage;
+  setQuery(query: string): void;
+  setDocuments(documents: (Pick<DocumentMatch, "id" | "fiche_ref"> & Partial<DocumentMatch>)[]): void;
+  // Écrire l'entrée du journal, une seule fois par requête
+  // (les erreurs d'écriture n'interrompent jamais la réponse)
+  finish(outcome: QueryOutcome): Promise<void>;
+}
+
+// Réponse imposée par le prompt quand l'information manque dans les extraits
+export const MISSING_INFORMATION_PATTERN = /n'appara[iî]t pas dans les extraits consult/i;
+
+const DEFAULT_WEAK_SIMILARITY = 0.5;
+
+export function isQueryLogEnabled(): boolean {
+  return process.env.QUERY_LOG !== "off";
+}
+
+// Similarité vectorielle en dessous de laquelle le meilleur extrait est jugé hors sujet
+function getWeakSimilarityThreshold(): number {
+  const value = Number(process.env.QUERY_LOG_WEAK_SIMILARITY);
+  return value > 0 && value < 1 ? value : DEFAULT_WEAK_SIMILARITY;
+}
+
+export function detectUnanswered(
+  outcome: QueryOutcome,
+  documents: QueryLogDocument[],
+  weakSimilarity: number = getWeakSimilarityThreshold()
+): UnansweredReason | null {
+  if (outcome.error) return null;
+  if (documents.length === 0) return "no_documents";
+  if (outcome.silent || MISSING_INFORMATION_PATTERN.test(outcome.answer)) return "missing_information";
+
+  const similarities = documents.map((doc) => doc.similarity).filter((s): s is number => s !== null);
+  // Réponse en cache : scores inconnus, pas de jugement sur la similarité
+  if (similarities.length > 0 && Math.max(...similarities) < weakSimilarity) return "weak_similarity";
+  return null;
+}
+
+export function createQueryLogger(
+  client: SupabaseClient,
+  request: { question: string; mode: "chat" | "compare"; filters: SearchFilters }
+): QueryLogger {
+  const startedAt = Date.now();
+  const latency: Partial<Record<QueryStage | "total", number>> = {};
+  const tokens = { input: 0, output: 0 };
+  let query: string | null = null;
+  let documents: QueryLogDocument[] = [];
+  let finished = false;
+
+  return {
+    async stage(name, run) {
+      const start = Date.now();
+      try {
+        return await run();
+      } finally {
+        latency[name] = (latency[name] || 0) + Date.now() - start;
+      }
+    },
+
+    recordUsage(usage) {
+      tokens.input += usage.input_tokens;
+      tokens.output += usage.output_tokens;
+    },
+
+    setQuery(value) {
+      query = value;
+    },
+
+    setDocuments(matches) {
+      documents = matches.map((doc) => ({
+        id: doc.id,
+        fiche_ref: doc.fiche_ref || null,
+        score: doc.similarity ?? null,
+        similarity: doc.vector_similarity ?? null,
+      }));
+    },
+
+    async finish(outcome) {
+      // Une erreur après l'écriture (ex. mise en cache) ne produit pas de seconde entrée
+      if (finished || !isQueryLogEnabled()) return;
+      finished = true;
+      latency.total = Date.now() - startedAt;
+
+      const similarities = documents.map((doc) => doc.similarity).filter((s): s is number => s !== null);
+      const reason = detectUnanswered(outcome, documents);
+
+      try {
+        const { error } = await client.from("query_log").insert({
+          question: request.question,
+          reformulated_query: query,
+          mode: request.mode,
+          filters: request.filters,
+          documents,
+          top_similarity: similarities.length > 0 ? Math.max(...similarities) : null,
+          latency_ms: latency,
+          input_tokens: tokens.input,
+          output_tokens: tokens.output,
+          cached: outcome.cached || false,
+          unanswered: reason !== null,
+          unanswered_reason: reason,
+          error: outcome.error || null,
+        });
+        if (error) throw error;
+      } catch (err) {
+        console.error("Erreur journal des requêtes:", err);
+      }
+    },
+  };
+}
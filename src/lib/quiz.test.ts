@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { Fiche } from "./fiches";
+import { toQuizQuestion } from "./quiz";
+
+const fiche: Fiche = {
+  ref: "08PR02",
+  title: "Traumatisme du crâne",
+  referential: "PSE",
+  source: "PSE.pdf",
+  chapter: "08",
+  chapterName: "Traumatismes",
+  ficheType: "PR",
+  ficheTypeName: "Procédure",
+  pseLevel: 1,
+  updateDate: "09-2019",
+  content: "Ne jamais retirer le casque d'un motard conscient. Maintenir la tête en position neutre.",
+};
+
+const generated = (choice: string) => ({
+  ficheRef: "08PR02",
+  question: "Que faire du casque d'un motard conscient ?",
+  choices: [choice, "Le laisser à la victime", "Le donner à un témoin"],
+  answer: 0,
+  explanation: "Voir la fiche.",
+});
+
+describe("toQuizQuestion", () => {
+  it("garde une question dont la réponse est dans la fiche", () => {
+    expect(toQuizQuestion(generated("Ne jamais retirer le casque du motard"), [fiche], 0)).toMatchObject({
+      id: "08PR02-0",
+      answer: 0,
+      explanation: "Voir la fiche. [08PR02]",
+    });
+  });
+
+  it("écarte une réponse de négation contraire à la fiche", () => {
+    expect(toQuizQuestion(generated("Retirer le casque du motard"), [fiche], 0)).toBeNull();
+  });
+
+  it("écarte une question mal formée", () => {
+    expect(toQuizQuestion({ ...generated("Ne jamais retirer le casque"), question: 42 }, [fiche], 0)).toBeNull();
+    expect(toQuizQuestion({ ...generated("Ne jamais retirer le casque"), answer: 5 }, [fiche], 0)).toBeNull();
+    expect(toQuizQuestion({ ...generated("Ne jamais retirer le casque"), ficheRef: "01AC01" }, [fiche], 0)).toBeNull();
+  });
+});
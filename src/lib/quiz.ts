@@ -0,0 +1,143 @@
+import { anthropic, CLAUDE_MODEL, ModelOutputError, parseModelJson } from "./anthropic";
+import { Fiche, FicheFilters, findFiches } from "./fiches";
+import { passageSupport, sameNegation } from "./grounding";
+
+// Quiz de révision : QCM générés à partir du texte des fiches, sans connaissance extérieure.
+export interface QuizQuestion {
+  id: string;
+  ficheRef: string;
+  ficheTitle: string;
+  referential: string | null;
+  chapter: string | null;
+  chapterName: string | null;
+  question: string;
+  choices: string[];
+  answer: number;
+  explanation: string;
+}
+
+export interface Quiz {
+  questions: QuizQuestion[];
+  fiches: { ref: string; title: string }[];
+}
+
+export const QUIZ_MIN_QUESTIONS = 1;
+export const QUIZ_MAX_QUESTIONS = 10;
+
+// Nombre de fiches servant de base à un quiz (et taille maximale de chacune dans le prompt)
+const MAX_QUIZ_FICHES = 5;
+const MAX_FICHE_CHARS = 6000;
+
+// La bonne réponse doit être retrouvée dans la fiche
+const ANSWER_SUPPORT_THRESHOLD = 0.5;
+
+// Réponse du modèle inexploitable : une seconde tentative avant d'abandonner
+const GENERATION_ATTEMPTS = 2;
+
+const QUIZ_PROMPT = `Tu es formateur de secourisme et tu prépares des QCM de révision pour la certification.
+
+RÈGLES STRICTES :
+1. Chaque question porte sur UNE SEULE des fiches fournies et se base UNIQUEMENT sur son texte
+2. N'invente aucun geste, valeur ou consigne absent de la fiche
+3. 4 propositions par question, une seule correcte ; les propositions fausses doivent être plausibles
+4. L'explication justifie la bonne réponse à partir de la fiche et cite sa référence entre crochets, ex : [07PR13]
+5. Varie les questions : gestes, ordre des actions, signes, valeurs, justifications
+
+Réponds UNIQUEMENT par un tableau JSON :
+[{"ficheRef": "07PR13", "question": "...", "choices": ["...", "...", "...", "..."], "answer": 0, "explanation": "..."}]
+"answer" est l'index (à partir de 0) de la bonne proposition.`;
+
+interface GeneratedQuestion {
+  ficheRef?: unknown;
+  question?: unknown;
+  choices?: unknown;
+  answer?: unknown;
+  explanation?: unknown;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Écarter les questions mal formées ou dont la bonne réponse n'est pas dans la fiche
+// (mots absents, ou négation contraire : « ne pas retirer le casque »)
+export function toQuizQuestion(generated: GeneratedQuestion, fiches: Fiche[], index: number): QuizQuestion | null {
+  const fiche = fiches.find((f) => f.ref === generated.ficheRef);
+  const choices = Array.isArray(generated.choices)
+    ? generated.choices.filter((c): c is string => typeof c === "string" && c.trim() !== "")
+    : [];
+  const answer = Number(generated.answer);
+
+  if (!fiche || typeof generated.question !== "string" || !generated.question.trim()) return null;
+  if (choices.length < 2 || !Number.isInteger(answer) || answer < 0 || answer >= choices.length) return null;
+  if (passageSupport(choices[answer], fiche.content) < ANSWER_SUPPORT_THRESHOLD) return null;
+  if (!sameNegation(choices[answer], fiche.content)) return null;
+
+  const explanation = typeof generated.explanation === "string" ? generated.explanation.trim() : "";
+  return {
+    id: `${fiche.ref}-${index}`,
+    ficheRef: fiche.ref,
+    ficheTitle: fiche.title,
+    referential: fiche.referential,
+    chapter: fiche.chapter,
+    chapterName: fiche.chapterName,
+    question: generated.question.trim(),
+    choices,
+    answer,
+    explanation: explanation.includes(fiche.ref) ? explanation : `${explanation} [${fiche.ref}]`.trim(),
+  };
+}
+
+// Générer les questions à partir d'un lot de fiches (ModelOutputError si la réponse
+// du modèle reste inexploitable après une nouvelle tentative)
+async function generateQuestions(fiches: Fiche[], count: number): Promise<QuizQuestion[]> {
+  const context = fiches
+    .map((fiche) => `[Fiche ${fiche.ref}] ${fiche.title}\n${fiche.content.slice(0, MAX_FICHE_CHARS)}`)
+    .join("\n\n---\n\n");
+
+  for (let attempt = 1; ; attempt++) {
+    const message = await anthropic.messages.create({
+      model: CLAUDE_MODEL,
+      max_tokens: 4096,
+      system: QUIZ_PROMPT,
+      messages: [
+        {
+          role: "user",
+          content: `FICHES :\n\n${context}\n\n---\n\nGénère ${count} questions réparties entre ces fiches.`,
+        },
+      ],
+    });
+
+    const text = message.content[0].type === "text" ? message.content[0].text : "";
+    try {
+      return parseModelJson(text, "array")
+        .map((question, i) =>
+          question && typeof question === "object" ? toQuizQuestion(question, fiches, i) : null
+        )
+        .filter((question): question is QuizQuestion => question !== null)
+        .slice(0, count);
+    } catch (err) {
+      if (!(err instanceof ModelOutputError) || attempt >= GENERATION_ATTEMPTS) throw err;
+      console.error("Quiz inexploitable, nouvelle tentative:", err.message);
+    }
+  }
+}
+
+// Quiz sur les fiches correspondant aux filtres (null si aucune fiche)
+export async function createQuiz(filters: FicheFilters, count: number): Promise<Quiz | null> {
+  const fiches = await findFiches(filters);
+  if (fiches.length === 0) return null;
+
+  const selected = shuffle(fiches).slice(0, Math.min(count, MAX_QUIZ_FICHES));
+  const questions = await generateQuestions(selected, count);
+
+  return {
+    questions,
+    fiches: selected.map((fiche) => ({ ref: fiche.ref, title: fiche.title })),
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { clientIp, createMemoryRateLimitStore, createRateLimiter, rateLimitKeys } from "./rate-limit";
+
+const request = (headers: Record<string, string>, ip?: string) =>
+  Object.assign(new Request("http://localhost/api/chat", { headers }), { ip });
+
+describe("clientIp", () => {
+  it("préfère l'adresse fournie par la plateforme", () => {
+    expect(clientIp(request({ "x-forwarded-for": "1.1.1.1" }, "9.9.9.9"), 1)).toBe("9.9.9.9");
+  });
+
+  it("ignore les en-têtes sans proxy de confiance", () => {
+    const forged = request({ "x-forwarded-for": "1.1.1.1", "x-real-ip": "2.2.2.2" });
+
+    expect(clientIp(forged, 0)).toBeNull();
+    expect(rateLimitKeys(forged, 0)).toEqual([]);
+  });
+
+  it("lit l'entrée ajoutée par le premier proxy de confiance", () => {
+    const forged = request({ "x-forwarded-for": "1.1.1.1, 5.5.5.5, 10.0.0.1" });
+
+    expect(clientIp(forged, 1)).toBe("10.0.0.1");
+    expect(clientIp(forged, 2)).toBe("5.5.5.5");
+  });
+});
+
+describe("rateLimitKeys", () => {
+  it("ajoute l'empreinte de la clé d'API", () => {
+    const keys = rateLimitKeys(request({ "x-api-key": "secret" }, "9.9.9.9"));
+
+    expect(keys[0]).toBe("ip:9.9.9.9");
+    expect(keys[1]).toMatch(/^key:[0-9a-f]{32}$/);
+    expect(keys[1]).not.toContain("secret");
+  });
+});
+
+describe("createRateLimiter", () => {
+  it("refuse au-delà de la limite par client", async () => {
+    const limiter = createRateLimiter(createMemoryRateLimitStore(), { limit: 2, globalLimit: 0, windowMs: 60000 });
+
+    expect((await limiter.check(["ip:a"])).allowed).toBe(true);
+    expect((await limiter.check(["ip:a"])).remaining).toBe(0);
+    expect((await limiter.check(["ip:a"])).allowed).toBe(false);
+    expect((await limiter.check(["ip:b"])).allowed).toBe(true);
+  });
+
+  it("applique le budget global quelles que soient les clés", async () => {
+    const limiter = createRateLimiter(createMemoryRateLimitStore(), { limit: 10, globalLimit: 2, windowMs: 60000 });
+
+    await limiter.check(["ip:a"]);
+    await limiter.check(["ip:b"]);
+    const result = await limiter.check(["ip:c"]);
+
+    expect(result.allowed).toBe(false);
+    expect(result.retryAfter).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,157 @@
+import { createHash } from "crypto";
+
+// Limitation du nombre de requêtes par fenêtre de temps, par adresse IP
+// et par clé d'API si le client en fournit une (en-tête x-api-key), avec un
+// budget global qui ne dépend d'aucun en-tête fourni par le client.
+// Le stockage des compteurs est interchangeable : en mémoire par défaut
+// (une instance du serveur), ou partagé (Redis, base...) en implémentant RateLimitStore.
+
+export interface RateLimitStore {
+  // Compter une requête dans la fenêtre courante de la clé
+  hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+export interface RateLimitConfig {
+  // Requêtes autorisées par fenêtre et par client (0 : pas de limite)
+  limit: number;
+  // Requêtes autorisées par fenêtre, tous clients confondus (0 : pas de limite)
+  globalLimit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Secondes avant la prochaine fenêtre
+  retryAfter: number;
+}
+
+export interface RateLimiter {
+  check(keys: string[]): Promise<RateLimitResult>;
+}
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_GLOBAL_LIMIT = 300;
+const DEFAULT_WINDOW_SECONDS = 60;
+
+const GLOBAL_KEY = "global";
+
+// Au-delà, les fenêtres expirées sont purgées du stockage en mémoire
+const MEMORY_STORE_MAX_KEYS = 10000;
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  const limit = Number(value ?? fallback);
+  return Number.isInteger(limit) && limit >= 0 ? limit : fallback;
+}
+
+// CHAT_RATE_LIMIT requêtes par client et CHAT_RATE_LIMIT_GLOBAL au total,
+// toutes les CHAT_RATE_LIMIT_WINDOW secondes
+export function getRateLimitConfig(): RateLimitConfig {
+  const seconds = Number(process.env.CHAT_RATE_LIMIT_WINDOW) || DEFAULT_WINDOW_SECONDS;
+  return {
+    limit: parseLimit(process.env.CHAT_RATE_LIMIT, DEFAULT_LIMIT),
+    globalLimit: parseLimit(process.env.CHAT_RATE_LIMIT_GLOBAL, DEFAULT_GLOBAL_LIMIT),
+    windowMs: seconds * 1000,
+  };
+}
+
+// Nombre de proxys de confiance devant le serveur (TRUSTED_PROXY_COUNT) : chacun
+// ajoute l'adresse qu'il voit à la fin de x-forwarded-for
+function getTrustedProxyCount(): number {
+  return parseLimit(process.env.TRUSTED_PROXY_COUNT, 0);
+}
+
+// Fenêtres fixes en mémoire : propres à chaque instance du serveur
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async hit(key: string, windowMs: number) {
+      const now = Date.now();
+
+      if (windows.size > MEMORY_STORE_MAX_KEYS) {
+        windows.forEach((entry, k) => {
+          if (entry.resetAt <= now) windows.delete(k);
+        });
+      }
+
+      let entry = windows.get(key);
+      if (!entry || entry.resetAt <= now) {
+        entry = { count: 0, resetAt: now + windowMs };
+        windows.set(key, entry);
+      }
+      entry.count++;
+      return { ...entry };
+    },
+  };
+}
+
+// Chaque clé (IP, clé d'API) a son propre compteur, en plus du compteur global :
+// la requête est refusée dès que l'un d'eux dépasse sa limite
+export function createRateLimiter(store: RateLimitStore, config: RateLimitConfig = getRateLimitConfig()): RateLimiter {
+  return {
+    async check(keys: string[]) {
+      const counted = [
+        ...(config.limit > 0 ? keys.map((key) => ({ key, limit: config.limit })) : []),
+        ...(config.globalLimit > 0 ? [{ key: GLOBAL_KEY, limit: config.globalLimit }] : []),
+      ];
+      if (counted.length === 0) {
+        return { allowed: true, limit: 0, remaining: 0, retryAfter: 0 };
+      }
+      const windows = await Promise.all(
+        counted.map(async ({ key, limit }) => ({ ...(await store.hit(key, config.windowMs)), limit }))
+      );
+      const exceeded = windows.filter((w) => w.count > w.limit);
+      const remaining = Math.min(...windows.map((w) => w.limit - w.count));
+      const resetAt = Math.max(...(exceeded.length > 0 ? exceeded : windows).map((w) => w.resetAt));
+
+      return {
+        allowed: exceeded.length === 0,
+        limit: config.limit || config.globalLimit,
+        remaining: Math.max(0, remaining),
+        retryAfter: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+      };
+    },
+  };
+}
+
+// Adresse du client : celle fournie par la plateforme, sinon celle ajoutée à
+// x-forwarded-for par le premier proxy de confiance (les entrées précédentes viennent
+// du client et ne sont pas fiables). Sans proxy de confiance, les en-têtes sont ignorés
+// et l'adresse reste inconnue (null).
+export function clientIp(
+  request: Request & { ip?: string },
+  trustedProxies: number = getTrustedProxyCount()
+): string | null {
+  if (request.ip) return request.ip;
+  if (trustedProxies === 0) return null;
+
+  const forwarded = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded[Math.max(0, forwarded.length - trustedProxies)] || null;
+}
+
+// Clés de limitation d'une requête : adresse IP si elle est connue (sinon seul le budget
+// global s'applique), et empreinte de la clé d'API si présente
+export function rateLimitKeys(request: Request & { ip?: string }, trustedProxies?: number): string[] {
+  const ip = clientIp(request, trustedProxies);
+  const keys = ip ? [`ip:${ip}`] : [];
+
+  const apiKey = request.headers.get("x-api-key");
+  if (apiKey) {
+    keys.push(`key:${createHash("sha256").update(apiKey).digest("hex").slice(0, 32)}`);
+  }
+  return keys;
+}
+
+// En-têtes d'une réponse 429
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    "Retry-After": String(result.retryAfter),
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+  };
+}
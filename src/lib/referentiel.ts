@@ -0,0 +1,41 @@
+// Référentiels de secourisme pris en charge
+export const REFERENTIALS = ["PSE", "PSC", "SST"] as const;
+export type Referential = (typeof REFERENTIALS)[number];
+
+// Noms des chapitres PSE
+export const CHAPTER_NAMES: Record<string, string> = {
+  "01": "Attitude et comportement",
+  "02": "Bilans",
+  "03": "Protection et sécurité",
+  "04": "Hygiène et asepsie",
+  "05": "Urgences vitales",
+  "06": "Malaises et affections",
+  "07": "Atteintes circonstancielles",
+  "08": "Traumatismes",
+  "09": "Souffrance psychique",
+  "10": "Relevage et brancardage",
+  "11": "Situations à nombreuses victimes",
+  "12": "Divers",
+};
+
+// Chapitres PSE se prêtant à une mise en situation (cas concrets) ; les autres
+// référentiels ont leur propre numérotation et proposent toutes leurs procédures
+export const SCENARIO_CHAPTERS = ["05", "06", "07", "08"];
+
+// Types de fiches PSE (dans l'ordre de lecture d'un chapitre)
+export const FICHE_TYPES: Record<string, string> = {
+  AC: "Apport de Connaissances",
+  PR: "Procédure",
+  FT: "Fiche Technique",
+};
+
+// Numéro de chapitre ("01") : chaque référentiel a sa propre numérotation,
+// vérifiée en base (hasFicheChapter) quand le chapitre filtre une recherche
+export function isChapterNumber(value: string): boolean {
+  return /^\d{2}$/.test(value);
+}
+
+// Valeurs reçues d'un client : propriétés propres uniquement ("constructor", "__proto__"...)
+export function isFicheType(value: string): boolean {
+  return Object.hasOwn(FICHE_TYPES, value);
+}
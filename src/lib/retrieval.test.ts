@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from "vitest";
+import { createFakeProvider } from "./embeddings";
+import { DocumentMatch, DocumentStore, reciprocalRankFusion, RETRIEVAL_CONFIG, searchDocuments } from "./retrieval";
+
+const doc = (id: number, similarity = 0.5): DocumentMatch => ({
+  id,
+  content: `Extrait ${id}`,
+  source: "PSE.pdf",
+  similarity,
+});
+
+describe("reciprocalRankFusion", () => {
+  it("additionne 1 / (k + rang) des listes qui contiennent un document", () => {
+    const fused = reciprocalRankFusion([[doc(1), doc(2)], [doc(2), doc(3)]], 60);
+
+    expect(fused.map((d) => d.id)).toEqual([2, 1, 3]);
+    expect(fused[0].similarity).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused[1].similarity).toBeCloseTo(1 / 61);
+    expect(fused[2].similarity).toBeCloseTo(1 / 62);
+  });
+
+  it("ignore les scores d'origine et ne modifie pas les listes", () => {
+    const vector = [doc(1, 0.2), doc(2, 0.9)];
+    const fused = reciprocalRankFusion([vector], 60);
+
+    expect(fused.map((d) => d.id)).toEqual([1, 2]);
+    expect(vector[0].similarity).toBe(0.2);
+  });
+});
+
+describe("searchDocuments", () => {
+  it("fusionne les recherches et garde la similarité vectorielle", async () => {
+    const store: DocumentStore = {
+      matchByEmbedding: async () => [doc(1, 0.8), doc(2, 0.7)],
+      matchByText: async () => [doc(3), doc(2)],
+    };
+    const results = await searchDocuments("plaie", "plaie", {}, { store, embedder: createFakeProvider(8) });
+
+    expect(results.map((d) => [d.id, d.vector_similarity])).toEqual([
+      [2, 0.7],
+      [1, 0.8],
+      [3, null],
+    ]);
+    expect(results.length).toBeLessThanOrEqual(RETRIEVAL_CONFIG.maxResults);
+  });
+
+  it("garde la recherche plein texte si la recherche vectorielle échoue", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const store: DocumentStore = {
+      matchByEmbedding: async () => {
+        throw new Error("indisponible");
+      },
+      matchByText: async () => [doc(3)],
+    };
+    const results = await searchDocuments("plaie", "plaie", {}, { store, embedder: createFakeProvider(8) });
+
+    expect(results.map((d) => [d.id, d.vector_similarity])).toEqual([[3, null]]);
+  });
+
+  it("garde la recherche plein texte si le fournisseur d'embeddings échoue", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const matchByEmbedding = vi.fn(async () => [doc(1)]);
+    const store: DocumentStore = { matchByEmbedding, matchByText: async () => [doc(3), doc(2)] };
+    const embedder = {
+      ...createFakeProvider(8),
+      embed: async () => {
+        throw new Error("Hugging Face API error: 503");
+      },
+    };
+    const results = await searchDocuments("plaie", "plaie", {}, { store, embedder });
+
+    expect(results.map((d) => d.id)).toEqual([3, 2]);
+    expect(matchByEmbedding).not.toHaveBeenCalled();
+  });
+});
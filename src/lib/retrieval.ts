@@ -0,0 +1,165 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { EmbeddingProvider } from "./embeddings";
+
+// Recherche des extraits pertinents : recherche vectorielle + recherche plein texte,
+// fusionnées par Reciprocal Rank Fusion. Le stockage est abstrait (DocumentStore)
+// pour pouvoir évaluer le classement hors ligne (scripts/eval-retrieval.ts).
+
+// similarity : score de la recherche d'origine, puis score fusionné après searchDocuments
+export interface DocumentMatch {
+  id: number;
+  content: string;
+  source: string;
+  similarity: number;
+  fiche_ref?: string | null;
+  // Similarité cosinus de la recherche vectorielle (null si trouvé par le texte seul)
+  vector_similarity?: number | null;
+}
+
+// Filtres de métadonnées appliqués par le stockage, avant la limite de résultats
+export interface SearchFilters {
+  source?: string;
+  pseLevel?: number;
+  chapter?: string;
+  ficheType?: string;
+}
+
+export interface DocumentStore {
+  // Documents les plus proches d'un embedding (similarité cosinus au-dessus du seuil)
+  matchByEmbedding(
+    embedding: number[],
+    options: { threshold: number; count: number; model: string; filters: SearchFilters }
+  ): Promise<DocumentMatch[]>;
+  // Documents classés par pertinence plein texte (français, sans accents)
+  matchByText(
+    text: string,
+    options: { count: number; filters: SearchFilters }
+  ): Promise<DocumentMatch[]>;
+}
+
+// Réglages du classement (mesurés avec npm run eval-retrieval)
+export const RETRIEVAL_CONFIG = {
+  // Recherche vectorielle : similarité minimale et nombre de candidats
+  matchThreshold: 0.18,
+  matchCount: 12,
+  // Recherche plein texte : nombre de candidats par requête
+  textMatchCount: 12,
+  // Constante de la fusion : plus elle est grande, moins les premiers rangs dominent
+  rrfK: 60,
+  // Nombre d'extraits transmis au modèle
+  maxResults: 6,
+};
+
+export type RetrievalConfig = typeof RETRIEVAL_CONFIG;
+
+export interface RetrievalDeps {
+  store: DocumentStore;
+  embedder: EmbeddingProvider;
+  config?: RetrievalConfig;
+}
+
+// Reciprocal Rank Fusion : chaque liste apporte 1 / (k + rang) aux documents qu'elle contient
+export function reciprocalRankFusion(lists: DocumentMatch[][], k: number): DocumentMatch[] {
+  const fused = new Map<number, DocumentMatch>();
+
+  for (const list of lists) {
+    list.forEach((doc, index) => {
+      const score = 1 / (k + index + 1);
+      const existing = fused.get(doc.id);
+      if (existing) {
+        existing.similarity += score;
+      } else {
+        fused.set(doc.id, { ...doc, similarity: score });
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.similarity - a.similarity);
+}
+
+// query : requête reformulée (mots-clés techniques) ; originalQuery : question de l'utilisateur
+export async function searchDocuments(
+  query: string,
+  originalQuery: string,
+  filters: SearchFilters,
+  { store, embedder, config = RETRIEVAL_CONFIG }: RetrievalDeps
+): Promise<DocumentMatch[]> {
+  try {
+    // 1. RECHERCHE VECTORIELLE (avec le modèle d'embeddings actif) ; si le fournisseur
+    // d'embeddings est indisponible, la recherche plein texte répond seule
+    const vectorSearch = embedder
+      .embed([query])
+      .then(([embedding]) =>
+        store.matchByEmbedding(embedding, {
+          threshold: config.matchThreshold,
+          count: config.matchCount,
+          model: embedder.model,
+          filters,
+        })
+      )
+      .catch((vectorError) => {
+        console.error("Erreur recherche vectorielle:", vectorError);
+        return [] as DocumentMatch[];
+      });
+
+    // 2. RECHERCHE PLEIN TEXTE (requête reformulée, et question d'origine si différente)
+    const texts = Array.from(new Set([query, originalQuery].map((t) => t.trim()).filter(Boolean)));
+    const textSearches = texts.map((text) =>
+      store.matchByText(text, { count: config.textMatchCount, filters }).catch((textError) => {
+        console.error("Erreur recherche textuelle:", textError);
+        return [] as DocumentMatch[];
+      })
+    );
+
+    // 3. FUSIONNER LES CLASSEMENTS
+    const lists = await Promise.all([vectorSearch, ...textSearches]);
+    const vectorScores = new Map(lists[0].map((doc) => [doc.id, doc.similarity]));
+    return reciprocalRankFusion(lists, config.rrfK)
+      .slice(0, config.maxResults)
+      .map((doc) => ({ ...doc, vector_similarity: vectorScores.get(doc.id) ?? null }));
+  } catch (err) {
+    console.error("Erreur recherche:", err);
+    return [];
+  }
+}
+
+// Paramètres de filtre communs à match_documents et search_documents_text
+function toFilterParams(filters: SearchFilters) {
+  return {
+    source_filter: filters.source || null,
+    pse_level_filter: filters.pseLevel || null,
+    chapter_filter: filters.chapter || null,
+    fiche_type_filter: filters.ficheType || null,
+  };
+}
+
+// Stockage Supabase : match_documents (index du modèle) et search_documents_text (tsvector)
+export function createSupabaseStore(client: SupabaseClient): DocumentStore {
+  return {
+    async matchByEmbedding(embedding, { threshold, count, model, filters }) {
+      const { data, error } = await client.rpc("match_documents", {
+        query_embedding: embedding,
+        match_threshold: threshold,
+        match_count: count,
+        model_name: model,
+        ...toFilterParams(filters),
+      });
+
+      if (error) throw error;
+      return (data || []) as DocumentMatch[];
+    },
+
+    async matchByText(text, { count, filters }) {
+      const { data, error } = await client.rpc("search_documents_text", {
+        query_text: text,
+        match_count: count,
+        ...toFilterParams(filters),
+      });
+
+      if (error) throw error;
+      return ((data || []) as (Omit<DocumentMatch, "similarity"> & { rank: number })[]).map(
+        ({ rank, ...doc }) => ({ ...doc, similarity: rank })
+      );
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import type { GroundingSummary } from "./chat-stream";
+import type { Citation } from "./citations";
+import type { Comparison } from "./comparison";
+import type { FeedbackFilters } from "./feedback";
+
+// Conversations enregistrées dans le navigateur (localStorage) : reprises après un
+// rechargement et listées dans l'historique. Un lien de partage en fige une copie
+// côté serveur (table shared_conversations), lisible sans le navigateur d'origine.
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  sources?: string[];
+  ficheRefs?: string[];
+  citations?: Citation[];
+  grounding?: GroundingSummary;
+  comparison?: Comparison;
+  // Réponse servie par le cache (question déjà posée)
+  cached?: boolean;
+  // Question et filtres à l'origine de la réponse (joints aux retours des utilisateurs)
+  question?: string;
+  filters?: FeedbackFilters;
+  isStreaming?: boolean;
+}
+
+export interface SavedConversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  updatedAt: string;
+}
+
+// Les extraits cités sont copiés avec chaque réponse : on garde les conversations récentes
+export const MAX_SAVED_CONVERSATIONS = 30;
+export const MAX_TITLE_LENGTH = 120;
+
+const STORAGE_KEY = "conversations";
+const ACTIVE_KEY = "activeConversation";
+
+export function newConversationId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Titre : première question posée, tronquée
+export function conversationTitle(messages: ChatMessage[]): string {
+  const first = messages.find((msg) => msg.role === "user")?.content.trim() || "Conversation";
+  return first.length > MAX_TITLE_LENGTH ? `${first.slice(0, MAX_TITLE_LENGTH - 1)}…` : first;
+}
+
+// Messages terminés uniquement (une réponse en cours d'écriture n'est pas enregistrée)
+export function completedMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.filter((msg) => !msg.isStreaming).map(({ isStreaming, ...msg }) => msg);
+}
+
+export function loadConversations(): SavedConversation[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(raw)
+      ? raw.filter((conv) => conv && typeof conv.id === "string" && Array.isArray(conv.messages))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Écrire la liste ; si le quota du navigateur est dépassé, oublier les plus anciennes
+function writeConversations(conversations: SavedConversation[]): SavedConversation[] {
+  let kept = conversations.slice(0, MAX_SAVED_CONVERSATIONS);
+
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return kept;
+    } catch {
+      kept = kept.slice(0, -1);
+    }
+  }
+  localStorage.removeItem(STORAGE_KEY);
+  return [];
+}
+
+// Enregistrer (ou mettre à jour) une conversation, placée en tête de l'historique
+// (inchangée si elle est déjà enregistrée avec les mêmes messages, ex. rouverte depuis l'historique)
+export function storeConversation(id: string, messages: ChatMessage[]): SavedConversation[] {
+  const saved = loadConversations();
+  const completed = completedMessages(messages);
+  if (saved.some((conv) => conv.id === id && conv.messages.length === completed.length)) {
+    return saved;
+  }
+
+  const conversation: SavedConversation = {
+    id,
+    title: conversationTitle(messages),
+    messages: completed,
+    updatedAt: new Date().toISOString(),
+  };
+  return writeConversations([conversation, ...saved.filter((conv) => conv.id !== id)]);
+}
+
+export function removeConversation(id: string): SavedConversation[] {
+  return writeConversations(loadConversations().filter((conv) => conv.id !== id));
+}
+
+// Conversation affichée, rouverte au rechargement de la page
+export function loadActiveConversationId(): string | null {
+  return localStorage.getItem(ACTIVE_KEY);
+}
+
+export function setActiveConversationId(id: string | null): void {
+  if (id) {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_KEY);
+  }
+}
@@ -0,0 +1,151 @@
+import { anthropic, CLAUDE_MODEL } from "./anthropic";
+import { ChatTurn } from "./conversation";
+import { Fiche, findFiches, getFicheByRef } from "./fiches";
+import { SCENARIO_CHAPTERS } from "./referentiel";
+
+// Cas concret : l'assistant joue la victime et la situation décrites par une fiche
+// procédure (PR), l'apprenant annonce ses actions tour par tour, puis l'assistant
+// débriefe en comparant ces actions à la procédure.
+
+// Nombre maximal d'échanges (actions de l'apprenant + réactions de la situation)
+export const MAX_SCENARIO_TURNS = 30;
+
+// Fiches procédures citées par la procédure principale ajoutées au débriefing
+const MAX_RELATED_FICHES = 2;
+const MAX_FICHE_CHARS = 8000;
+
+export interface Scenario {
+  ficheRef: string;
+  ficheTitle: string;
+  referential: string;
+  chapter: string | null;
+  chapterName: string | null;
+  opening: string;
+}
+
+export interface Debriefing {
+  debrief: string;
+  ficheRefs: string[];
+}
+
+const OPENING_PROMPT = `Tu es formateur de secourisme et tu animes un cas concret.
+À partir de la fiche procédure fournie, décris la situation de départ telle que l'apprenant la découvre en arrivant :
+- le lieu, les circonstances, ce que l'on voit et entend (témoins, dangers éventuels)
+- l'aspect de la victime et ses premiers signes visibles
+
+RÈGLES :
+- 4 à 6 phrases, au présent, à la deuxième personne ("Vous arrivez...")
+- Ne nomme JAMAIS la détresse, le diagnostic ni la fiche
+- Ne donne aucune consigne ni aucun indice sur la conduite à tenir
+- Les signes doivent être cohérents avec la fiche`;
+
+const TURN_PROMPT = `Tu animes un cas concret de secourisme. Tu joues la victime, les témoins et la situation.
+L'apprenant annonce ses actions ; décris uniquement ce qui se passe en réponse :
+- résultats des observations et du bilan demandés (signes, constantes, réponses de la victime)
+- évolution de l'état de la victime selon que les gestes sont appropriés ou non, conformément à la fiche
+- réactions des témoins
+
+RÈGLES :
+- 1 à 4 phrases, au présent, sans markdown
+- Ne commente pas, ne corrige pas et ne conseille pas l'apprenant : le débriefing viendra à la fin
+- Ne révèle pas le nom de la détresse ni la fiche
+- Ne donne que les informations que l'action de l'apprenant permet d'obtenir`;
+
+const DEBRIEF_PROMPT = `Tu es formateur de secourisme et tu débriefes un cas concret.
+Compare les actions de l'apprenant à la conduite à tenir des fiches procédures fournies, et UNIQUEMENT à celles-ci.
+
+Structure ta réponse en markdown :
+## ✅ Actions conformes
+## ⚠️ Écarts
+(gestes mal réalisés, dans le mauvais ordre, ou non prévus par la procédure)
+## ❌ Oublis
+(étapes de la procédure non réalisées)
+## 🎯 Points à retenir
+
+RÈGLES :
+- Chaque écart ou oubli cite la référence de la fiche entre crochets, ex : [05PR03]
+- Cite les termes de la fiche plutôt que des connaissances extérieures
+- Sois bienveillant et concis`;
+
+function ficheContext(fiche: Fiche): string {
+  return `[Fiche ${fiche.ref}] ${fiche.title}\n${fiche.content.slice(0, MAX_FICHE_CHARS)}`;
+}
+
+// Déroulé de l'exercice, le point de départ étant le premier message de la situation
+function toMessages(history: ChatTurn[]): { role: "user" | "assistant"; content: string }[] {
+  return [{ role: "user", content: "Présente la situation de départ." }, ...history];
+}
+
+async function complete(
+  system: string,
+  messages: { role: "user" | "assistant"; content: string }[],
+  maxTokens: number
+): Promise<string> {
+  const message = await anthropic.messages.create({
+    model: CLAUDE_MODEL,
+    max_tokens: maxTokens,
+    system,
+    messages,
+  });
+  return message.content[0].type === "text" ? message.content[0].text : "";
+}
+
+// Fiche procédure d'un cas concret en cours (null si la référence n'est pas une procédure)
+export async function getScenarioFiche(ref: string, referential: string): Promise<Fiche | null> {
+  const fiches = await getFicheByRef(ref);
+  return fiches.find((fiche) => fiche.referential === referential && fiche.ficheType === "PR") || null;
+}
+
+// Tirer une procédure au hasard et présenter la situation de départ (null si aucune procédure)
+export async function startScenario(referential: string, chapter?: string): Promise<Scenario | null> {
+  // Sans chapitre choisi, le PSE se limite aux chapitres de mise en situation
+  const procedures = (await findFiches({ referential, chapter, ficheType: "PR" })).filter(
+    (fiche) =>
+      chapter || referential !== "PSE" || (fiche.chapter && SCENARIO_CHAPTERS.includes(fiche.chapter))
+  );
+  if (procedures.length === 0) return null;
+
+  const fiche = procedures[Math.floor(Math.random() * procedures.length)];
+  const opening = await complete(
+    `${OPENING_PROMPT}\n\nFICHE PROCÉDURE :\n${ficheContext(fiche)}`,
+    toMessages([]),
+    512
+  );
+
+  return {
+    ficheRef: fiche.ref,
+    ficheTitle: fiche.title,
+    referential,
+    chapter: fiche.chapter,
+    chapterName: fiche.chapterName,
+    opening,
+  };
+}
+
+// Réaction de la victime et de la situation à la dernière action de l'apprenant
+export async function playScenarioTurn(fiche: Fiche, history: ChatTurn[]): Promise<string> {
+  return complete(`${TURN_PROMPT}\n\nFICHE PROCÉDURE :\n${ficheContext(fiche)}`, toMessages(history), 400);
+}
+
+// Débriefing : actions de l'apprenant comparées à la procédure et aux procédures qu'elle cite
+export async function debriefScenario(fiche: Fiche, history: ChatTurn[]): Promise<Debriefing> {
+  const relatedRefs = Array.from(new Set(fiche.content.match(/\b\d{2}PR\d{2}\b/g) || []))
+    .filter((ref) => ref !== fiche.ref)
+    .slice(0, MAX_RELATED_FICHES);
+  const related = (
+    await Promise.all(relatedRefs.map((ref) => getScenarioFiche(ref, fiche.referential || "")))
+  ).filter((f): f is Fiche => f !== null);
+  const procedures = [fiche, ...related];
+
+  const transcript = history
+    .map((turn) => `${turn.role === "user" ? "Apprenant" : "Situation"} : ${turn.content}`)
+    .join("\n");
+
+  const debrief = await complete(
+    `${DEBRIEF_PROMPT}\n\nFICHES PROCÉDURES :\n\n${procedures.map(ficheContext).join("\n\n---\n\n")}`,
+    [{ role: "user", content: `Déroulé du cas concret :\n${transcript}\n\nFais le débriefing.` }],
+    2048
+  );
+
+  return { debrief, ficheRefs: procedures.map((f) => f.ref) };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { UNSUPPORTED_CLAIM_MARKER } from "./answer-markup";
+import { parseSharedMessages } from "./shared-conversations";
+
+describe("parseSharedMessages", () => {
+  it("échappe le HTML des réponses mais pas les questions", () => {
+    const messages = parseSharedMessages([
+      { role: "user", content: "Que faire <vite> ?" },
+      { role: "assistant", content: '<img src=x onerror="alert(1)"> Appeler le 15.' },
+    ]);
+
+    expect(messages?.[0].content).toBe("Que faire <vite> ?");
+    expect(messages?.[1].content).toBe('&lt;img src=x onerror="alert(1)"&gt; Appeler le 15.');
+  });
+
+  it("échappe les réponses et différences d'une comparaison", () => {
+    const [message] =
+      parseSharedMessages([
+        {
+          role: "assistant",
+          content: "",
+          comparison: {
+            answers: [
+              { referential: "PSE", answer: "<b>a</b>" },
+              { referential: "PSE1", answer: "référentiel inconnu" },
+            ],
+            differences: [`<i>b</i> ${UNSUPPORTED_CLAIM_MARKER}`],
+            citations: [],
+          },
+        },
+      ]) || [];
+
+    expect(message.comparison?.answers.map((a) => a.answer)).toEqual(["&lt;b&gt;a&lt;/b&gt;"]);
+    expect(message.comparison?.differences).toEqual([`&lt;i&gt;b&lt;/i&gt; ${UNSUPPORTED_CLAIM_MARKER}`]);
+  });
+
+  it("refuse les messages mal formés", () => {
+    expect(parseSharedMessages([])).toBeNull();
+    expect(parseSharedMessages([{ role: "system", content: "x" }])).toBeNull();
+    expect(parseSharedMessages([{ role: "user", content: 1 }])).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+import { randomBytes } from "crypto";
+import { supabase } from "./supabase";
+import { escapeAnswerHtml } from "./answer-markup";
+import type { Citation } from "./citations";
+import type { Comparison, ReferentialAnswer } from "./comparison";
+import { MAX_HISTORY_TURNS, MAX_TURN_LENGTH } from "./conversation";
+import { parseFeedbackFilters } from "./feedback";
+import { REFERENTIALS } from "./referentiel";
+import { ChatMessage, conversationTitle } from "./saved-conversations";
+
+// Conversations partagées : copie figée des messages (réponses, extraits cités, fiches
+// et sources) au moment du partage, rejouée en lecture seule sur /partage/[id]
+// même si la synchronisation modifie ensuite les fiches.
+
+export interface SharedConversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: string;
+}
+
+// Taille maximale de la copie (extraits cités compris), en caractères JSON
+export const MAX_SHARED_CONVERSATION_SIZE = 500000;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function parseCitations(raw: unknown): Citation[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw
+    .filter((c) => c && Number.isInteger(c.marker) && Number.isInteger(c.documentId) && typeof c.content === "string")
+    .map((c) => ({
+      marker: c.marker,
+      documentId: c.documentId,
+      ficheRef: typeof c.ficheRef === "string" ? c.ficheRef : null,
+      source: typeof c.source === "string" ? c.source : "",
+      content: c.content,
+    }));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseGrounding(raw: unknown): ChatMessage["grounding"] {
+  if (!isRecord(raw) || typeof raw.score !== "number" || !isStringArray(raw.unsupported)) return undefined;
+  return { score: raw.score, unsupported: raw.unsupported };
+}
+
+function parseReferentialAnswer(raw: unknown): ReferentialAnswer | null {
+  if (!isRecord(raw) || typeof raw.answer !== "string") return null;
+  const referential = REFERENTIALS.find((r) => r === raw.referential);
+  if (!referential) return null;
+
+  return {
+    referential,
+    answer: escapeAnswerHtml(raw.answer),
+    silent: raw.silent === true,
+    ficheRefs: isStringArray(raw.ficheRefs) ? raw.ficheRefs : [],
+    sources: isStringArray(raw.sources) ? raw.sources : [],
+    grounding: parseGrounding(raw.grounding),
+  };
+}
+
+function parseComparison(raw: unknown): Comparison | undefined {
+  if (!isRecord(raw) || !Array.isArray(raw.answers) || !isStringArray(raw.differences)) return undefined;
+  return {
+    answers: raw.answers
+      .map(parseReferentialAnswer)
+      .filter((answer): answer is ReferentialAnswer => answer !== null),
+    differences: raw.differences.map(escapeAnswerHtml),
+    citations: parseCitations(raw.citations) || [],
+  };
+}
+
+// Valider les messages envoyés par le client : champs connus uniquement, HTML échappé
+export function parseSharedMessages(raw: unknown): ChatMessage[] | null {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_HISTORY_TURNS) return null;
+
+  const messages: ChatMessage[] = [];
+  for (const msg of raw) {
+    if (!msg || (msg.role !== "user" && msg.role !== "assistant")) return null;
+    if (typeof msg.content !== "string" || msg.content.length > MAX_TURN_LENGTH) return null;
+
+    messages.push({
+      role: msg.role,
+      content: msg.role === "assistant" ? escapeAnswerHtml(msg.content) : msg.content,
+      sources: isStringArray(msg.sources) ? msg.sources : undefined,
+      ficheRefs: isStringArray(msg.ficheRefs) ? msg.ficheRefs : undefined,
+      citations: parseCitations(msg.citations),
+      grounding: parseGrounding(msg.grounding),
+      comparison: parseComparison(msg.comparison),
+      cached: msg.cached === true || undefined,
+      question: typeof msg.question === "string" ? msg.question : undefined,
+      filters: msg.filters && typeof msg.filters === "object" ? parseFeedbackFilters(msg.filters) : undefined,
+    });
+  }
+  return messages;
+}
+
+// Enregistrer la copie et renvoyer son identifiant (non devinable : il sert de lien d'accès)
+export async function shareConversation(messages: ChatMessage[]): Promise<string> {
+  const id = randomBytes(12).toString("base64url");
+
+  const { error } = await supabase.from("shared_conversations").insert({
+    id,
+    title: conversationTitle(messages),
+    messages,
+  });
+
+  if (error) {
+    throw new Error(`Partage de la conversation impossible: ${error.message}`);
+  }
+  return id;
+}
+
+export async function getSharedConversation(id: string): Promise<SharedConversation | null> {
+  const { data, error } = await supabase
+    .from("shared_conversations")
+    .select("id, title, messages, created_at")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture de la conversation partagée impossible: ${error.message}`);
+  }
+  if (!data) return null;
+
+  return { id: data.id, title: data.title, messages: data.messages, createdAt: data.created_at };
+}
@@ -0,0 +1,7 @@
+// Minuscules sans accents, pour comparer des textes français
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
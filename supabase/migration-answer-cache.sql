@@ -0,0 +1,117 @@
+-- Migration : Cache des réponses du chat
+-- Une réponse est réutilisée pour la même question (ou une question très proche)
+-- avec les mêmes filtres, tant que la version du corpus n'a pas changé.
+-- La version est incrémentée par l'import quand des documents changent
+-- et par la bascule de modèle d'embeddings.
+
+CREATE TABLE IF NOT EXISTS corpus_state (
+  id int PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  version bigint NOT NULL DEFAULT 1,
+  updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+INSERT INTO corpus_state DEFAULT VALUES ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS answer_cache (
+  id bigserial PRIMARY KEY,
+  cache_key text NOT NULL,
+  scope text NOT NULL,
+  question text NOT NULL,
+  corpus_version bigint NOT NULL,
+  model text NOT NULL,
+  embedding vector NOT NULL,
+  response jsonb NOT NULL,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS answer_cache_key_idx ON answer_cache(cache_key, corpus_version);
+CREATE INDEX IF NOT EXISTS answer_cache_scope_idx ON answer_cache(scope, corpus_version);
+
+CREATE OR REPLACE FUNCTION current_corpus_version ()
+RETURNS bigint
+LANGUAGE sql STABLE
+AS $$
+  SELECT version FROM corpus_state WHERE id = 1;
+$$;
+
+CREATE OR REPLACE FUNCTION bump_corpus_version ()
+RETURNS bigint
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_version bigint;
+BEGIN
+  UPDATE corpus_state SET version = version + 1, updated_at = now() WHERE id = 1
+  RETURNING version INTO new_version;
+
+  DELETE FROM answer_cache WHERE corpus_version < new_version;
+  RETURN new_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_cached_answer (
+  lookup_key text,
+  lookup_scope text,
+  lookup_version bigint,
+  query_embedding vector DEFAULT null,
+  model_name text DEFAULT null,
+  similarity_threshold float DEFAULT 0.95
+)
+RETURNS TABLE (
+  id bigint,
+  response jsonb,
+  similarity float
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT candidates.id, candidates.response, candidates.similarity
+  FROM (
+    SELECT
+      answer_cache.id,
+      answer_cache.response,
+      CASE
+        WHEN answer_cache.cache_key = lookup_key THEN 1
+        WHEN query_embedding IS NOT NULL AND answer_cache.model = model_name
+          THEN 1 - (answer_cache.embedding <=> query_embedding)
+        ELSE 0
+      END AS similarity
+    FROM answer_cache
+    WHERE answer_cache.scope = lookup_scope
+      AND answer_cache.corpus_version = lookup_version
+  ) candidates
+  WHERE candidates.similarity >= similarity_threshold
+  ORDER BY candidates.similarity DESC
+  LIMIT 1;
+$$;
+
+-- La bascule de modèle change la recherche : le cache est invalidé
+CREATE OR REPLACE FUNCTION activate_embedding_model (model_name text)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM embedding_models WHERE name = model_name AND status = 'ready') THEN
+    RAISE EXCEPTION 'Le modèle % n''est pas prêt', model_name;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM documents_missing_embedding(model_name, 1)) THEN
+    RAISE EXCEPTION 'Des documents n''ont pas encore d''embedding pour le modèle %', model_name;
+  END IF;
+
+  UPDATE embedding_models SET is_active = false WHERE is_active AND name <> model_name;
+  UPDATE embedding_models SET is_active = true, activated_at = now() WHERE name = model_name;
+
+  PERFORM bump_corpus_version();
+END;
+$$;
+
+ALTER TABLE corpus_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE answer_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Corpus state is publicly readable" ON corpus_state FOR SELECT USING (true);
+CREATE POLICY "Corpus state can be updated" ON corpus_state FOR UPDATE USING (true);
+
+CREATE POLICY "Cached answers are publicly readable" ON answer_cache FOR SELECT USING (true);
+CREATE POLICY "Cached answers can be inserted" ON answer_cache FOR INSERT WITH CHECK (true);
+CREATE POLICY "Cached answers can be updated" ON answer_cache FOR UPDATE USING (true);
+CREATE POLICY "Cached answers can be deleted" ON answer_cache FOR DELETE USING (true);
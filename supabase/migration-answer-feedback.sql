@@ -0,0 +1,23 @@
+-- Migration : Retours des utilisateurs sur les réponses
+-- Pouce levé ou baissé et commentaire facultatif, avec la question, la réponse,
+-- les extraits utilisés (identifiants et copie) et les filtres de recherche.
+-- Les retours négatifs sont relus sur la page /retours.
+
+CREATE TABLE IF NOT EXISTS answer_feedback (
+  id bigserial PRIMARY KEY,
+  rating text NOT NULL CHECK (rating IN ('up', 'down')),
+  comment text,
+  question text NOT NULL,
+  answer text NOT NULL,
+  document_ids bigint[] NOT NULL DEFAULT '{}',
+  documents jsonb NOT NULL DEFAULT '[]',
+  filters jsonb NOT NULL DEFAULT '{}',
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS answer_feedback_rating_idx ON answer_feedback(rating, created_at DESC);
+
+ALTER TABLE answer_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Answer feedback is publicly readable" ON answer_feedback FOR SELECT USING (true);
+CREATE POLICY "Answer feedback can be inserted" ON answer_feedback FOR INSERT WITH CHECK (true);
@@ -0,0 +1,15 @@
+-- Migration : Synchronisation idempotente des documents (npm run import-docs)
+-- Chaque chunk est identifié par (source, chunk_key) et porte l'empreinte de son contenu.
+-- Les lignes des anciens imports (sans chunk_key) sont supprimées au prochain import.
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS chunk_key text;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash text;
+
+-- Un chunk par clé et par source
+CREATE UNIQUE INDEX IF NOT EXISTS documents_source_chunk_key_idx
+  ON documents(source, chunk_key)
+  WHERE chunk_key IS NOT NULL;
+
+-- Permettre la mise à jour et la suppression par l'import
+CREATE POLICY "Documents can be updated" ON documents FOR UPDATE USING (true);
+CREATE POLICY "Documents can be deleted" ON documents FOR DELETE USING (true);
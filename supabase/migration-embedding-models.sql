@@ -0,0 +1,171 @@
+-- Migration : Embeddings multi-modèles (changement de modèle et de dimension sans ré-import)
+-- Les vecteurs sont déplacés de documents.embedding vers document_embeddings,
+-- une ligne par (document, modèle). Le modèle actif est celui utilisé par match_documents.
+
+-- Modèles d'embeddings connus
+CREATE TABLE IF NOT EXISTS embedding_models (
+  name text PRIMARY KEY,                    -- Identifiant du modèle (ex: BAAI/bge-small-en-v1.5)
+  provider text NOT NULL,                   -- Fournisseur ayant produit les vecteurs (huggingface, local...)
+  dimension int NOT NULL,                   -- Dimension des vecteurs
+  status text NOT NULL DEFAULT 'building',  -- building (ré-embedding en cours) ou ready
+  is_active boolean NOT NULL DEFAULT false, -- Modèle utilisé pour la recherche
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  completed_at timestamp with time zone,
+  activated_at timestamp with time zone
+);
+
+-- Un seul modèle actif à la fois
+CREATE UNIQUE INDEX IF NOT EXISTS embedding_models_active_idx ON embedding_models(is_active) WHERE is_active;
+
+-- Vecteurs par document et par modèle (dimension libre)
+CREATE TABLE IF NOT EXISTS document_embeddings (
+  document_id bigint NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  model text NOT NULL REFERENCES embedding_models(name) ON DELETE CASCADE,
+  embedding vector NOT NULL,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  PRIMARY KEY (document_id, model)
+);
+
+-- Reprendre les embeddings existants (BAAI/bge-small-en-v1.5, 384 dimensions) comme modèle actif
+INSERT INTO embedding_models (name, provider, dimension, status, is_active, completed_at, activated_at)
+SELECT 'BAAI/bge-small-en-v1.5', 'huggingface', 384, 'ready', true, now(), now()
+WHERE NOT EXISTS (SELECT 1 FROM embedding_models WHERE is_active);
+
+INSERT INTO document_embeddings (document_id, model, embedding)
+SELECT id, 'BAAI/bge-small-en-v1.5', embedding
+FROM documents
+WHERE embedding IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- L'ancienne colonne n'est plus lue : la supprimer une fois la migration vérifiée
+-- ALTER TABLE documents DROP COLUMN embedding;
+DROP INDEX IF EXISTS documents_embedding_idx;
+
+-- Créer l'index vectoriel d'un modèle (index partiel, typé à la dimension du modèle)
+CREATE OR REPLACE FUNCTION create_embedding_index (model_name text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  dim int;
+BEGIN
+  SELECT dimension INTO dim FROM embedding_models WHERE name = model_name;
+  IF dim IS NULL THEN
+    RAISE EXCEPTION 'Modèle d''embeddings inconnu: %', model_name;
+  END IF;
+
+  EXECUTE format(
+    'CREATE INDEX IF NOT EXISTS %I ON document_embeddings USING hnsw ((embedding::vector(%s)) vector_cosine_ops) WHERE model = %L',
+    'document_embeddings_' || substr(md5(model_name), 1, 12) || '_idx',
+    dim,
+    model_name
+  );
+END;
+$$;
+
+SELECT create_embedding_index('BAAI/bge-small-en-v1.5');
+
+-- Documents sans embedding pour un modèle (reprise du ré-embedding)
+CREATE OR REPLACE FUNCTION documents_missing_embedding (model_name text, max_rows int default 100)
+RETURNS TABLE (
+  id bigint,
+  content text
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT documents.id, documents.content
+  FROM documents
+  WHERE NOT EXISTS (
+    SELECT 1 FROM document_embeddings
+    WHERE document_embeddings.document_id = documents.id
+      AND document_embeddings.model = model_name
+  )
+  ORDER BY documents.id
+  LIMIT max_rows;
+$$;
+
+-- Basculer atomiquement la recherche sur un modèle complet
+CREATE OR REPLACE FUNCTION activate_embedding_model (model_name text)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM embedding_models WHERE name = model_name AND status = 'ready') THEN
+    RAISE EXCEPTION 'Le modèle % n''est pas prêt', model_name;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM documents_missing_embedding(model_name, 1)) THEN
+    RAISE EXCEPTION 'Des documents n''ont pas encore d''embedding pour le modèle %', model_name;
+  END IF;
+
+  UPDATE embedding_models SET is_active = false WHERE is_active AND name <> model_name;
+  UPDATE embedding_models SET is_active = true, activated_at = now() WHERE name = model_name;
+END;
+$$;
+
+-- match_documents lit désormais document_embeddings (modèle actif par défaut)
+DROP FUNCTION IF EXISTS match_documents(vector, float, int);
+
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding vector,
+  match_threshold float default 0.5,
+  match_count int default 5,
+  model_name text default null
+)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  source text,
+  similarity float,
+  chapter text,
+  chapter_name text,
+  fiche_type text,
+  fiche_type_name text,
+  fiche_ref text,
+  pse_level smallint
+)
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  target embedding_models%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM embedding_models
+  WHERE (model_name IS NULL AND embedding_models.is_active) OR embedding_models.name = model_name
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Aucun modèle d''embeddings actif (demandé: %)', model_name;
+  END IF;
+
+  IF vector_dims(query_embedding) <> target.dimension THEN
+    RAISE EXCEPTION 'Dimension % incompatible avec le modèle % (%)',
+      vector_dims(query_embedding), target.name, target.dimension;
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT d.id, d.content, d.source,
+            1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)) AS similarity,
+            d.chapter, d.chapter_name, d.fiche_type, d.fiche_type_name, d.fiche_ref, d.pse_level
+     FROM document_embeddings e
+     JOIN documents d ON d.id = e.document_id
+     WHERE e.model = $2
+       AND 1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)) > $3
+     ORDER BY e.embedding::vector(%1$s) <=> $1::vector(%1$s)
+     LIMIT $4',
+    target.dimension
+  ) USING query_embedding, target.name, match_threshold, match_count;
+END;
+$$;
+
+-- Politiques RLS
+ALTER TABLE embedding_models ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Embedding models are publicly readable" ON embedding_models FOR SELECT USING (true);
+CREATE POLICY "Embedding models can be inserted" ON embedding_models FOR INSERT WITH CHECK (true);
+CREATE POLICY "Embedding models can be updated" ON embedding_models FOR UPDATE USING (true);
+
+CREATE POLICY "Document embeddings are publicly readable" ON document_embeddings FOR SELECT USING (true);
+CREATE POLICY "Document embeddings can be inserted" ON document_embeddings FOR INSERT WITH CHECK (true);
+CREATE POLICY "Document embeddings can be updated" ON document_embeddings FOR UPDATE USING (true);
@@ -0,0 +1,117 @@
+-- Migration : Catalogue des fiches (pages /fiches)
+-- Les fonctions de consultation ne renvoient que l'édition courante
+-- et exposent la date d'édition, le référentiel et la clé de chunk.
+
+-- Fonction pour rechercher par référence de fiche exacte
+DROP FUNCTION IF EXISTS get_fiche_by_ref(text);
+CREATE OR REPLACE FUNCTION get_fiche_by_ref (ref text)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  source text,
+  chapter text,
+  chapter_name text,
+  fiche_type text,
+  fiche_type_name text,
+  fiche_ref text,
+  pse_level smallint,
+  update_date text,
+  referential text,
+  chunk_key text
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    documents.id,
+    documents.content,
+    documents.source,
+    documents.chapter,
+    documents.chapter_name,
+    documents.fiche_type,
+    documents.fiche_type_name,
+    documents.fiche_ref,
+    documents.pse_level,
+    documents.update_date,
+    documents.referential,
+    documents.chunk_key
+  FROM documents
+  WHERE documents.fiche_ref = ref
+    AND documents.is_current
+  ORDER BY documents.referential, documents.chunk_key;
+$$;
+
+-- Fonction pour rechercher toutes les fiches d'un chapitre
+DROP FUNCTION IF EXISTS get_fiches_by_chapter(text);
+CREATE OR REPLACE FUNCTION get_fiches_by_chapter (chapter_num text)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  source text,
+  chapter text,
+  chapter_name text,
+  fiche_type text,
+  fiche_type_name text,
+  fiche_ref text,
+  pse_level smallint,
+  update_date text,
+  referential text,
+  chunk_key text
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    documents.id,
+    documents.content,
+    documents.source,
+    documents.chapter,
+    documents.chapter_name,
+    documents.fiche_type,
+    documents.fiche_type_name,
+    documents.fiche_ref,
+    documents.pse_level,
+    documents.update_date,
+    documents.referential,
+    documents.chunk_key
+  FROM documents
+  WHERE documents.chapter = chapter_num
+    AND documents.is_current
+  ORDER BY documents.fiche_ref, documents.chunk_key;
+$$;
+
+-- Fonction pour rechercher par type de fiche (AC, PR, FT)
+DROP FUNCTION IF EXISTS get_fiches_by_type(text);
+CREATE OR REPLACE FUNCTION get_fiches_by_type (type_code text)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  source text,
+  chapter text,
+  chapter_name text,
+  fiche_type text,
+  fiche_type_name text,
+  fiche_ref text,
+  pse_level smallint,
+  update_date text,
+  referential text,
+  chunk_key text
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    documents.id,
+    documents.content,
+    documents.source,
+    documents.chapter,
+    documents.chapter_name,
+    documents.fiche_type,
+    documents.fiche_type_name,
+    documents.fiche_ref,
+    documents.pse_level,
+    documents.update_date,
+    documents.referential,
+    documents.chunk_key
+  FROM documents
+  WHERE documents.fiche_type = type_code
+    AND documents.is_current
+  ORDER BY documents.chapter, documents.fiche_ref, documents.chunk_key;
+$$;
@@ -0,0 +1,128 @@
+-- Migration : Éditions successives des fiches (versionnage du référentiel)
+-- Plusieurs éditions d'une même fiche (fiche_ref + update_date) sont conservées côte à côte ;
+-- seule la plus récente par référentiel est marquée is_current et utilisée par la recherche.
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS referential text;        -- PSE, PSC ou SST
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS is_current boolean NOT NULL DEFAULT true;
+
+UPDATE documents SET referential = CASE
+  WHEN source ILIKE '%pse%' THEN 'PSE'
+  WHEN source ILIKE '%psc%' THEN 'PSC'
+  WHEN source ILIKE '%sst%' THEN 'SST'
+END
+WHERE referential IS NULL;
+
+CREATE INDEX IF NOT EXISTS documents_referential_idx ON documents(referential);
+CREATE INDEX IF NOT EXISTS documents_is_current_idx ON documents(is_current);
+
+-- Un chunk par clé, par source et par édition
+DROP INDEX IF EXISTS documents_source_chunk_key_idx;
+CREATE UNIQUE INDEX documents_source_chunk_key_idx
+  ON documents(source, chunk_key, coalesce(update_date, ''))
+  WHERE chunk_key IS NOT NULL;
+
+-- Date d'édition 'MM-YYYY' -> date comparable
+CREATE OR REPLACE FUNCTION edition_date (update_date text)
+RETURNS date
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE WHEN update_date ~ '^\d{2}-\d{4}$' THEN to_date(update_date, 'MM-YYYY') END;
+$$;
+
+-- Recalculer l'édition courante de chaque fiche (appelée après chaque synchronisation)
+CREATE OR REPLACE FUNCTION refresh_current_editions ()
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE documents d
+  SET is_current = (
+    d.fiche_ref IS NULL
+    OR edition_date(d.update_date) IS NOT DISTINCT FROM (
+      SELECT max(edition_date(other.update_date))
+      FROM documents other
+      WHERE other.fiche_ref = d.fiche_ref
+        AND other.referential IS NOT DISTINCT FROM d.referential
+    )
+  );
+$$;
+
+SELECT refresh_current_editions();
+
+-- Toutes les éditions d'une fiche (la plus récente d'abord)
+CREATE OR REPLACE FUNCTION get_fiche_editions (ref text)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  source text,
+  referential text,
+  chunk_key text,
+  update_date text,
+  is_current boolean
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    documents.id,
+    documents.content,
+    documents.source,
+    documents.referential,
+    documents.chunk_key,
+    documents.update_date,
+    documents.is_current
+  FROM documents
+  WHERE documents.fiche_ref = ref
+  ORDER BY edition_date(documents.update_date) DESC NULLS LAST, documents.chunk_key, documents.id;
+$$;
+
+-- La recherche vectorielle ne porte que sur les éditions courantes
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding vector,
+  match_threshold float default 0.5,
+  match_count int default 5,
+  model_name text default null
+)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  source text,
+  similarity float,
+  chapter text,
+  chapter_name text,
+  fiche_type text,
+  fiche_type_name text,
+  fiche_ref text,
+  pse_level smallint
+)
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  target embedding_models%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM embedding_models
+  WHERE (model_name IS NULL AND embedding_models.is_active) OR embedding_models.name = model_name
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Aucun modèle d''embeddings actif (demandé: %)', model_name;
+  END IF;
+
+  IF vector_dims(query_embedding) <> target.dimension THEN
+    RAISE EXCEPTION 'Dimension % incompatible avec le modèle % (%)',
+      vector_dims(query_embedding), target.name, target.dimension;
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT d.id, d.content, d.source,
+            1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)) AS similarity,
+            d.chapter, d.chapter_name, d.fiche_type, d.fiche_type_name, d.fiche_ref, d.pse_level
+     FROM document_embeddings e
+     JOIN documents d ON d.id = e.document_id
+     WHERE e.model = $2
+       AND d.is_current
+       AND 1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)) > $3
+     ORDER BY e.embedding::vector(%1$s) <=> $1::vector(%1$s)
+     LIMIT $4',
+    target.dimension
+  ) USING query_embedding, target.name, match_threshold, match_count;
+END;
+$$;
@@ -0,0 +1,55 @@
+-- Migration : Recherche plein texte en français
+-- Remplace les filtres ilike de la recherche textuelle par un tsvector
+-- (configuration french sans accents : racinisation, mots vides) et une fonction classée.
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Configuration french insensible aux accents
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'french_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION french_unaccent (COPY = french);
+    ALTER TEXT SEARCH CONFIGURATION french_unaccent
+      ALTER MAPPING FOR hword, hword_part, word WITH unaccent, french_stem;
+  END IF;
+END
+$$;
+
+-- Vecteur de recherche calculé à l'écriture
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('french_unaccent', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS documents_content_tsv_idx ON documents USING gin(content_tsv);
+
+-- Recherche textuelle classée sur les éditions courantes
+CREATE OR REPLACE FUNCTION search_documents_text (
+  query_text text,
+  match_count int DEFAULT 10,
+  source_filter text DEFAULT null
+)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  source text,
+  fiche_ref text,
+  rank real
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH search AS (
+    -- Termes reliés par OU : un document peut ne contenir qu'une partie des mots-clés
+    SELECT nullif(replace(plainto_tsquery('french_unaccent', query_text)::text, ' & ', ' | '), '')::tsquery AS query
+  )
+  SELECT
+    documents.id,
+    documents.content,
+    documents.source,
+    documents.fiche_ref,
+    ts_rank_cd(documents.content_tsv, search.query, 1) AS rank
+  FROM documents, search
+  WHERE documents.is_current
+    AND documents.content_tsv @@ search.query
+    AND (source_filter IS NULL OR documents.source ILIKE '%' || source_filter || '%')
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
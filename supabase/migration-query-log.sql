@@ -0,0 +1,30 @@
+-- Migration : Journal des requêtes du chat
+-- Une ligne par question : requête reformulée, extraits retenus et scores, filtres,
+-- durée de chaque étape, tokens consommés. Les questions sans réponse sont signalées
+-- (unanswered) et regroupées par sujet avec npm run query-report.
+
+CREATE TABLE IF NOT EXISTS query_log (
+  id bigserial PRIMARY KEY,
+  question text NOT NULL,
+  reformulated_query text,
+  mode text NOT NULL,
+  filters jsonb NOT NULL DEFAULT '{}',
+  documents jsonb NOT NULL DEFAULT '[]',
+  top_similarity float,
+  latency_ms jsonb NOT NULL DEFAULT '{}',
+  input_tokens int NOT NULL DEFAULT 0,
+  output_tokens int NOT NULL DEFAULT 0,
+  cached boolean NOT NULL DEFAULT false,
+  unanswered boolean NOT NULL DEFAULT false,
+  unanswered_reason text,
+  error text,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS query_log_created_at_idx ON query_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS query_log_unanswered_idx ON query_log(unanswered, created_at DESC);
+
+ALTER TABLE query_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Query log is publicly readable" ON query_log FOR SELECT USING (true);
+CREATE POLICY "Query log can be inserted" ON query_log FOR INSERT WITH CHECK (true);
@@ -0,0 +1,116 @@
+-- Migration : Filtres de métadonnées dans la recherche
+-- match_documents et search_documents_text filtrent par source, niveau PSE, chapitre
+-- et type de fiche dans la requête SQL, avant la limite (et non plus après coup).
+
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, text);
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding vector,
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5,
+  model_name text DEFAULT null,
+  source_filter text DEFAULT null,
+  pse_level_filter smallint DEFAULT null,
+  chapter_filter text DEFAULT null,
+  fiche_type_filter text DEFAULT null
+)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  source text,
+  similarity float,
+  chapter text,
+  chapter_name text,
+  fiche_type text,
+  fiche_type_name text,
+  fiche_ref text,
+  pse_level smallint
+)
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  target embedding_models%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM embedding_models
+  WHERE (model_name IS NULL AND embedding_models.is_active) OR embedding_models.name = model_name
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Aucun modèle d''embeddings actif (demandé: %)', model_name;
+  END IF;
+
+  IF vector_dims(query_embedding) <> target.dimension THEN
+    RAISE EXCEPTION 'Dimension % incompatible avec le modèle % (%)',
+      vector_dims(query_embedding), target.name, target.dimension;
+  END IF;
+
+  -- Avec des filtres, l'index HNSW poursuit son parcours jusqu'à trouver assez de résultats
+  -- (pgvector >= 0.8 ; sans effet sur les versions antérieures)
+  IF coalesce(source_filter, chapter_filter, fiche_type_filter) IS NOT NULL OR pse_level_filter IS NOT NULL THEN
+    BEGIN
+      PERFORM set_config('hnsw.iterative_scan', 'relaxed_order', true);
+    EXCEPTION WHEN OTHERS THEN
+      NULL;
+    END;
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT * FROM (
+       SELECT d.id, d.content, d.source,
+              1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)) AS similarity,
+              d.chapter, d.chapter_name, d.fiche_type, d.fiche_type_name, d.fiche_ref, d.pse_level
+       FROM document_embeddings e
+       JOIN documents d ON d.id = e.document_id
+       WHERE e.model = $2
+         AND d.is_current
+         AND 1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)) > $3
+         AND ($5::text IS NULL OR d.source ILIKE ''%%'' || $5 || ''%%'')
+         AND ($6::smallint IS NULL OR d.pse_level = $6)
+         AND ($7::text IS NULL OR d.chapter = $7)
+         AND ($8::text IS NULL OR d.fiche_type = $8)
+       ORDER BY e.embedding::vector(%1$s) <=> $1::vector(%1$s)
+       LIMIT $4
+     ) matches
+     ORDER BY similarity DESC',
+    target.dimension
+  ) USING query_embedding, target.name, match_threshold, match_count,
+    source_filter, pse_level_filter, chapter_filter, fiche_type_filter;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS search_documents_text(text, int, text);
+CREATE OR REPLACE FUNCTION search_documents_text (
+  query_text text,
+  match_count int DEFAULT 10,
+  source_filter text DEFAULT null,
+  pse_level_filter smallint DEFAULT null,
+  chapter_filter text DEFAULT null,
+  fiche_type_filter text DEFAULT null
+)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  source text,
+  fiche_ref text,
+  rank real
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH search AS (
+    SELECT nullif(replace(plainto_tsquery('french_unaccent', query_text)::text, ' & ', ' | '), '')::tsquery AS query
+  )
+  SELECT
+    documents.id,
+    documents.content,
+    documents.source,
+    documents.fiche_ref,
+    ts_rank_cd(documents.content_tsv, search.query, 1) AS rank
+  FROM documents, search
+  WHERE documents.is_current
+    AND documents.content_tsv @@ search.query
+    AND (source_filter IS NULL OR documents.source ILIKE '%' || source_filter || '%')
+    AND (pse_level_filter IS NULL OR documents.pse_level = pse_level_filter)
+    AND (chapter_filter IS NULL OR documents.chapter = chapter_filter)
+    AND (fiche_type_filter IS NULL OR documents.fiche_type = fiche_type_filter)
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
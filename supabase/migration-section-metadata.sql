@@ -0,0 +1,6 @@
+-- Migration : Titre et chemin de section pour tous les référentiels
+-- Les fiches PSC et les sections numérotées du SST sont désormais découpées comme les
+-- fiches PSE. Relancer ensuite npm run import-docs : les chunks existants sont remplacés.
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS title text;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS section_path text;
@@ -0,0 +1,16 @@
+-- Migration : Conversations partagées
+-- Copie figée d'une conversation (réponses, extraits cités, fiches et sources au moment
+-- du partage), rejouée en lecture seule sur /partage/[id]. Les conversations en cours
+-- restent enregistrées dans le navigateur (localStorage).
+
+CREATE TABLE IF NOT EXISTS shared_conversations (
+  id text PRIMARY KEY,
+  title text NOT NULL,
+  messages jsonb NOT NULL,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE shared_conversations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Shared conversations are publicly readable" ON shared_conversations FOR SELECT USING (true);
+CREATE POLICY "Shared conversations can be inserted" ON shared_conversations FOR INSERT WITH CHECK (true);
@@ -1,24 +1,47 @@
 -- Activer l'extension pgvector pour les embeddings
 create extension if not exists vector;
+-- Recherche plein texte insensible aux accents
+create extension if not exists unaccent;
 
--- Supprimer la table si elle existe (pour réinitialiser)
+-- Supprimer les tables si elles existent (pour réinitialiser)
+drop table if exists shared_conversations;
+drop table if exists query_log;
+drop table if exists answer_feedback;
+drop table if exists answer_cache;
+drop table if exists corpus_state;
+drop table if exists document_embeddings;
+drop table if exists embedding_models;
 drop table if exists documents;
 
+-- Configuration french insensible aux accents (racinisation et mots vides du français)
+drop text search configuration if exists french_unaccent;
+create text search configuration french_unaccent (copy = french);
+alter text search configuration french_unaccent
+  alter mapping for hword, hword_part, word with unaccent, french_stem;
+
 -- Table pour stocker les chunks de documents
--- Utilise vector(384) pour le modèle BAAI/bge-small-en-v1.5
+-- Les embeddings sont stockés à part (document_embeddings), un par modèle
 create table documents (
   id bigserial primary key,
   content text not null,
   source text not null,
-  embedding vector(384),
-  -- Métadonnées PSE (null pour les documents non-PSE)
-  chapter text,                    -- Numéro du chapitre (01-12)
+  -- Structure du référentiel (fiches PSE et PSC, sections SST ; null pour un découpage classique)
+  title text,                      -- Titre de la fiche ou de la section
+  section_path text,               -- Chemin dans le document (ex: Chapitre 02 - ... > 02PR01 Obstruction...)
+  chapter text,                    -- Numéro du chapitre (01-12), ou section de premier niveau (SST)
   chapter_name text,               -- Nom du chapitre
   fiche_type text,                 -- Type de fiche (AC, PR, FT)
   fiche_type_name text,            -- Nom du type (Apport de Connaissances, Procédure, Fiche Technique)
   fiche_ref text,                  -- Référence complète (ex: 07PR13)
   pse_level smallint,              -- Niveau PSE (1 ou 2, null si non spécifié)
-  update_date text,                -- Date de mise à jour (MM-YYYY)
+  update_date text,                -- Date de mise à jour (MM-YYYY), identifie l'édition de la fiche
+  referential text,                -- Référentiel (PSE, PSC, SST)
+  is_current boolean not null default true, -- Édition la plus récente de la fiche
+  -- Synchronisation (npm run import-docs)
+  chunk_key text,                  -- Clé stable dans la source (fiche_ref ou position du chunk)
+  content_hash text,               -- Empreinte du contenu et des métadonnées
+  -- Recherche plein texte (search_documents_text)
+  content_tsv tsvector generated always as (to_tsvector('french_unaccent', content)) stored,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
@@ -27,17 +50,116 @@ create index documents_chapter_idx on documents(chapter);
 create index documents_fiche_type_idx on documents(fiche_type);
 create index documents_fiche_ref_idx on documents(fiche_ref);
 create index documents_pse_level_idx on documents(pse_level);
+create index documents_referential_idx on documents(referential);
+create index documents_is_current_idx on documents(is_current);
+create index documents_content_tsv_idx on documents using gin(content_tsv);
+create unique index documents_source_chunk_key_idx on documents(source, chunk_key, coalesce(update_date, '')) where chunk_key is not null;
+
+-- Modèles d'embeddings connus (un seul actif, utilisé par la recherche)
+create table embedding_models (
+  name text primary key,                    -- Identifiant du modèle (ex: BAAI/bge-small-en-v1.5)
+  provider text not null,                   -- Fournisseur ayant produit les vecteurs (huggingface, local...)
+  dimension int not null,                   -- Dimension des vecteurs
+  status text not null default 'building',  -- building (ré-embedding en cours) ou ready
+  is_active boolean not null default false, -- Modèle utilisé pour la recherche
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  completed_at timestamp with time zone,
+  activated_at timestamp with time zone
+);
+
+create unique index embedding_models_active_idx on embedding_models(is_active) where is_active;
+
+-- Vecteurs par document et par modèle (dimension libre)
+create table document_embeddings (
+  document_id bigint not null references documents(id) on delete cascade,
+  model text not null references embedding_models(name) on delete cascade,
+  embedding vector not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (document_id, model)
+);
+
+-- Créer l'index vectoriel d'un modèle (index partiel, typé à la dimension du modèle)
+create or replace function create_embedding_index (
+  model_name text
+)
+returns void
+language plpgsql
+security definer
+as $$
+declare
+  dim int;
+begin
+  select dimension into dim from embedding_models where name = model_name;
+  if dim is null then
+    raise exception 'Modèle d''embeddings inconnu: %', model_name;
+  end if;
+
+  execute format(
+    'create index if not exists %I on document_embeddings using hnsw ((embedding::vector(%s)) vector_cosine_ops) where model = %L',
+    'document_embeddings_' || substr(md5(model_name), 1, 12) || '_idx',
+    dim,
+    model_name
+  );
+end;
+$$;
+
+-- Documents sans embedding pour un modèle (reprise du ré-embedding)
+create or replace function documents_missing_embedding (
+  model_name text,
+  max_rows int default 100
+)
+returns table (
+  id bigint,
+  content text
+)
+language sql stable
+as $$
+  select documents.id, documents.content
+  from documents
+  where not exists (
+    select 1 from document_embeddings
+    where document_embeddings.document_id = documents.id
+      and document_embeddings.model = model_name
+  )
+  order by documents.id
+  limit max_rows;
+$$;
+
+-- Basculer atomiquement la recherche sur un modèle complet
+create or replace function activate_embedding_model (
+  model_name text
+)
+returns void
+language plpgsql
+as $$
+begin
+  if not exists (select 1 from embedding_models where name = model_name and status = 'ready') then
+    raise exception 'Le modèle % n''est pas prêt', model_name;
+  end if;
 
--- Index pour la recherche de similarité
-create index documents_embedding_idx on documents
-using ivfflat (embedding vector_cosine_ops)
-with (lists = 100);
+  if exists (select 1 from documents_missing_embedding(model_name, 1)) then
+    raise exception 'Des documents n''ont pas encore d''embedding pour le modèle %', model_name;
+  end if;
 
--- Fonction pour rechercher les documents similaires
+  update embedding_models set is_active = false where is_active and name <> model_name;
+  update embedding_models set is_active = true, activated_at = now() where name = model_name;
+
+  -- La recherche change : les réponses en cache ne sont plus valables
+  perform bump_corpus_version();
+end;
+$$;
+
+-- Fonction pour rechercher les documents similaires (modèle actif par défaut)
+-- Les filtres de métadonnées (null = pas de filtre) sont appliqués avant la limite
 create or replace function match_documents (
-  query_embedding vector(384),
+  query_embedding vector,
   match_threshold float default 0.5,
-  match_count int default 5
+  match_count int default 5,
+  model_name text default null,
+  source_filter text default null,
+  pse_level_filter smallint default null,
+  chapter_filter text default null,
+  fiche_type_filter text default null
 )
 returns table (
   id bigint,
@@ -52,25 +174,152 @@ returns table (
   fiche_ref text,
   pse_level smallint
 )
+language plpgsql stable
+as $$
+declare
+  target embedding_models%rowtype;
+begin
+  select * into target from embedding_models
+  where (model_name is null and embedding_models.is_active) or embedding_models.name = model_name
+  limit 1;
+
+  if not found then
+    raise exception 'Aucun modèle d''embeddings actif (demandé: %)', model_name;
+  end if;
+
+  if vector_dims(query_embedding) <> target.dimension then
+    raise exception 'Dimension % incompatible avec le modèle % (%)',
+      vector_dims(query_embedding), target.name, target.dimension;
+  end if;
+
+  -- Avec des filtres, l'index HNSW poursuit son parcours jusqu'à trouver assez de résultats
+  -- (pgvector >= 0.8 ; sans effet sur les versions antérieures)
+  if coalesce(source_filter, chapter_filter, fiche_type_filter) is not null or pse_level_filter is not null then
+    begin
+      perform set_config('hnsw.iterative_scan', 'relaxed_order', true);
+    exception when others then
+      null;
+    end;
+  end if;
+
+  return query execute format(
+    'select * from (
+       select d.id, d.content, d.source,
+              1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)) as similarity,
+              d.chapter, d.chapter_name, d.fiche_type, d.fiche_type_name, d.fiche_ref, d.pse_level
+       from document_embeddings e
+       join documents d on d.id = e.document_id
+       where e.model = $2
+         and d.is_current
+         and 1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)) > $3
+         and ($5::text is null or d.source ilike ''%%'' || $5 || ''%%'')
+         and ($6::smallint is null or d.pse_level = $6)
+         and ($7::text is null or d.chapter = $7)
+         and ($8::text is null or d.fiche_type = $8)
+       order by e.embedding::vector(%1$s) <=> $1::vector(%1$s)
+       limit $4
+     ) matches
+     order by similarity desc',
+    target.dimension
+  ) using query_embedding, target.name, match_threshold, match_count,
+    source_filter, pse_level_filter, chapter_filter, fiche_type_filter;
+end;
+$$;
+
+-- Recherche textuelle classée sur les éditions courantes (mêmes filtres que match_documents)
+create or replace function search_documents_text (
+  query_text text,
+  match_count int default 10,
+  source_filter text default null,
+  pse_level_filter smallint default null,
+  chapter_filter text default null,
+  fiche_type_filter text default null
+)
+returns table (
+  id bigint,
+  content text,
+  source text,
+  fiche_ref text,
+  rank real
+)
 language sql stable
 as $$
+  with search as (
+    -- Termes reliés par OU : un document peut ne contenir qu'une partie des mots-clés
+    select nullif(replace(plainto_tsquery('french_unaccent', query_text)::text, ' & ', ' | '), '')::tsquery as query
+  )
   select
     documents.id,
     documents.content,
     documents.source,
-    1 - (documents.embedding <=> query_embedding) as similarity,
-    documents.chapter,
-    documents.chapter_name,
-    documents.fiche_type,
-    documents.fiche_type_name,
     documents.fiche_ref,
-    documents.pse_level
-  from documents
-  where 1 - (documents.embedding <=> query_embedding) > match_threshold
-  order by documents.embedding <=> query_embedding
+    ts_rank_cd(documents.content_tsv, search.query, 1) as rank
+  from documents, search
+  where documents.is_current
+    and documents.content_tsv @@ search.query
+    and (source_filter is null or documents.source ilike '%' || source_filter || '%')
+    and (pse_level_filter is null or documents.pse_level = pse_level_filter)
+    and (chapter_filter is null or documents.chapter = chapter_filter)
+    and (fiche_type_filter is null or documents.fiche_type = fiche_type_filter)
+  order by rank desc
   limit match_count;
 $$;
 
+-- Date d'édition 'MM-YYYY' -> date comparable
+create or replace function edition_date (
+  update_date text
+)
+returns date
+language sql immutable
+as $$
+  select case when update_date ~ '^\d{2}-\d{4}$' then to_date(update_date, 'MM-YYYY') end;
+$$;
+
+-- Recalculer l'édition courante de chaque fiche (appelée après chaque synchronisation)
+create or replace function refresh_current_editions ()
+returns void
+language sql
+as $$
+  update documents d
+  set is_current = (
+    d.fiche_ref is null
+    or edition_date(d.update_date) is not distinct from (
+      select max(edition_date(other.update_date))
+      from documents other
+      where other.fiche_ref = d.fiche_ref
+        and other.referential is not distinct from d.referential
+    )
+  );
+$$;
+
+-- Toutes les éditions d'une fiche (la plus récente d'abord)
+create or replace function get_fiche_editions (
+  ref text
+)
+returns table (
+  id bigint,
+  content text,
+  source text,
+  referential text,
+  chunk_key text,
+  update_date text,
+  is_current boolean
+)
+language sql stable
+as $$
+  select
+    documents.id,
+    documents.content,
+    documents.source,
+    documents.referential,
+    documents.chunk_key,
+    documents.update_date,
+    documents.is_current
+  from documents
+  where documents.fiche_ref = ref
+  order by edition_date(documents.update_date) desc nulls last, documents.chunk_key, documents.id;
+$$;
+
 -- Fonction pour rechercher par référence de fiche exacte
 create or replace function get_fiche_by_ref (
   ref text
@@ -84,7 +333,10 @@ returns table (
   fiche_type text,
   fiche_type_name text,
   fiche_ref text,
-  pse_level smallint
+  pse_level smallint,
+  update_date text,
+  referential text,
+  chunk_key text
 )
 language sql stable
 as $$
@@ -97,9 +349,14 @@ as $$
     documents.fiche_type,
     documents.fiche_type_name,
     documents.fiche_ref,
-    documents.pse_level
+    documents.pse_level,
+    documents.update_date,
+    documents.referential,
+    documents.chunk_key
   from documents
-  where documents.fiche_ref = ref;
+  where documents.fiche_ref = ref
+    and documents.is_current
+  order by documents.referential, documents.chunk_key;
 $$;
 
 -- Fonction pour rechercher toutes les fiches d'un chapitre
@@ -115,7 +372,10 @@ returns table (
   fiche_type text,
   fiche_type_name text,
   fiche_ref text,
-  pse_level smallint
+  pse_level smallint,
+  update_date text,
+  referential text,
+  chunk_key text
 )
 language sql stable
 as $$
@@ -128,12 +388,185 @@ as $$
     documents.fiche_type,
     documents.fiche_type_name,
     documents.fiche_ref,
-    documents.pse_level
+    documents.pse_level,
+    documents.update_date,
+    documents.referential,
+    documents.chunk_key
   from documents
   where documents.chapter = chapter_num
-  order by documents.fiche_ref;
+    and documents.is_current
+  order by documents.fiche_ref, documents.chunk_key;
 $$;
 
+-- Fonction pour rechercher par type de fiche (AC, PR, FT)
+create or replace function get_fiches_by_type (
+  type_code text
+)
+returns table (
+  id bigint,
+  content text,
+  source text,
+  chapter text,
+  chapter_name text,
+  fiche_type text,
+  fiche_type_name text,
+  fiche_ref text,
+  pse_level smallint,
+  update_date text,
+  referential text,
+  chunk_key text
+)
+language sql stable
+as $$
+  select
+    documents.id,
+    documents.content,
+    documents.source,
+    documents.chapter,
+    documents.chapter_name,
+    documents.fiche_type,
+    documents.fiche_type_name,
+    documents.fiche_ref,
+    documents.pse_level,
+    documents.update_date,
+    documents.referential,
+    documents.chunk_key
+  from documents
+  where documents.fiche_type = type_code
+    and documents.is_current
+  order by documents.chapter, documents.fiche_ref, documents.chunk_key;
+$$;
+
+-- Version du corpus (une seule ligne), incrémentée quand la synchronisation modifie les documents
+create table corpus_state (
+  id int primary key default 1 check (id = 1),
+  version bigint not null default 1,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+insert into corpus_state default values;
+
+-- Cache des réponses du chat, valable pour une version du corpus
+create table answer_cache (
+  id bigserial primary key,
+  cache_key text not null,          -- Empreinte de la question normalisée et du périmètre
+  scope text not null,              -- Mode de réponse et filtres de recherche (JSON)
+  question text not null,           -- Question normalisée
+  corpus_version bigint not null,   -- Version du corpus lors de la réponse
+  model text not null,              -- Modèle d'embeddings de la question
+  embedding vector not null,
+  response jsonb not null,          -- Réponse renvoyée au client (texte, références, ancrage)
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create unique index answer_cache_key_idx on answer_cache(cache_key, corpus_version);
+create index answer_cache_scope_idx on answer_cache(scope, corpus_version);
+
+create or replace function current_corpus_version ()
+returns bigint
+language sql stable
+as $$
+  select version from corpus_state where id = 1;
+$$;
+
+-- Nouvelle version du corpus : les réponses en cache des versions précédentes sont supprimées
+create or replace function bump_corpus_version ()
+returns bigint
+language plpgsql
+as $$
+declare
+  new_version bigint;
+begin
+  update corpus_state set version = version + 1, updated_at = now() where id = 1
+  returning version into new_version;
+
+  delete from answer_cache where corpus_version < new_version;
+  return new_version;
+end;
+$$;
+
+-- Réponse en cache : même question (empreinte identique) ou question proche
+-- (similarité au-dessus du seuil, avec le même modèle d'embeddings), dans le même périmètre
+create or replace function match_cached_answer (
+  lookup_key text,
+  lookup_scope text,
+  lookup_version bigint,
+  query_embedding vector default null,
+  model_name text default null,
+  similarity_threshold float default 0.95
+)
+returns table (
+  id bigint,
+  response jsonb,
+  similarity float
+)
+language sql stable
+as $$
+  select candidates.id, candidates.response, candidates.similarity
+  from (
+    select
+      answer_cache.id,
+      answer_cache.response,
+      case
+        when answer_cache.cache_key = lookup_key then 1
+        when query_embedding is not null and answer_cache.model = model_name
+          then 1 - (answer_cache.embedding <=> query_embedding)
+        else 0
+      end as similarity
+    from answer_cache
+    where answer_cache.scope = lookup_scope
+      and answer_cache.corpus_version = lookup_version
+  ) candidates
+  where candidates.similarity >= similarity_threshold
+  order by candidates.similarity desc
+  limit 1;
+$$;
+
+-- Retours des utilisateurs sur les réponses (pouce levé / baissé)
+create table answer_feedback (
+  id bigserial primary key,
+  rating text not null check (rating in ('up', 'down')),
+  comment text,                     -- Commentaire facultatif
+  question text not null,
+  answer text not null,             -- Réponse affichée (avec ses marqueurs [n])
+  document_ids bigint[] not null default '{}', -- Extraits du contexte, dans l'ordre des marqueurs
+  documents jsonb not null default '[]',       -- Copie de ces extraits au moment du retour
+  filters jsonb not null default '{}',         -- Mode de réponse et filtres de recherche
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index answer_feedback_rating_idx on answer_feedback(rating, created_at desc);
+
+-- Journal des requêtes du chat (npm run query-report)
+create table query_log (
+  id bigserial primary key,
+  question text not null,
+  reformulated_query text,          -- Requête reformulée (mots-clés techniques)
+  mode text not null,               -- chat ou compare
+  filters jsonb not null default '{}',
+  documents jsonb not null default '[]', -- Extraits retenus : id, fiche_ref, score fusionné, similarité
+  top_similarity float,             -- Meilleure similarité vectorielle parmi les extraits
+  latency_ms jsonb not null default '{}', -- Durée de chaque étape et durée totale
+  input_tokens int not null default 0,
+  output_tokens int not null default 0,
+  cached boolean not null default false,
+  unanswered boolean not null default false,
+  unanswered_reason text,           -- no_documents, missing_information ou weak_similarity
+  error text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index query_log_created_at_idx on query_log(created_at desc);
+create index query_log_unanswered_idx on query_log(unanswered, created_at desc);
+
+-- Conversations partagées (lien /partage/[id]) : copie figée des messages
+create table shared_conversations (
+  id text primary key,              -- Identifiant aléatoire du lien de partage
+  title text not null,
+  messages jsonb not null,          -- Réponses, extraits cités, fiches et sources au moment du partage
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
 -- Politique RLS (Row Level Security)
 alter table documents enable row level security;
 
@@ -146,3 +579,96 @@ create policy "Documents are publicly readable"
 create policy "Documents can be inserted"
   on documents for insert
   with check (true);
+
+-- Permettre la mise à jour et la suppression (synchronisation)
+create policy "Documents can be updated"
+  on documents for update
+  using (true);
+
+create policy "Documents can be deleted"
+  on documents for delete
+  using (true);
+
+alter table embedding_models enable row level security;
+alter table document_embeddings enable row level security;
+
+create policy "Embedding models are publicly readable"
+  on embedding_models for select
+  using (true);
+
+create policy "Embedding models can be inserted"
+  on embedding_models for insert
+  with check (true);
+
+create policy "Embedding models can be updated"
+  on embedding_models for update
+  using (true);
+
+create policy "Document embeddings are publicly readable"
+  on document_embeddings for select
+  using (true);
+
+create policy "Document embeddings can be inserted"
+  on document_embeddings for insert
+  with check (true);
+
+create policy "Document embeddings can be updated"
+  on document_embeddings for update
+  using (true);
+
+alter table corpus_state enable row level security;
+alter table answer_cache enable row level security;
+
+create policy "Corpus state is publicly readable"
+  on corpus_state for select
+  using (true);
+
+create policy "Corpus state can be updated"
+  on corpus_state for update
+  using (true);
+
+create policy "Cached answers are publicly readable"
+  on answer_cache for select
+  using (true);
+
+create policy "Cached answers can be inserted"
+  on answer_cache for insert
+  with check (true);
+
+create policy "Cached answers can be updated"
+  on answer_cache for update
+  using (true);
+
+create policy "Cached answers can be deleted"
+  on answer_cache for delete
+  using (true);
+
+alter table answer_feedback enable row level security;
+
+create policy "Answer feedback is publicly readable"
+  on answer_feedback for select
+  using (true);
+
+create policy "Answer feedback can be inserted"
+  on answer_feedback for insert
+  with check (true);
+
+alter table query_log enable row level security;
+
+create policy "Query log is publicly readable"
+  on query_log for select
+  using (true);
+
+create policy "Query log can be inserted"
+  on query_log for insert
+  with check (true);
+
+alter table shared_conversations enable row level security;
+
+create policy "Shared conversations are publicly readable"
+  on shared_conversations for select
+  using (true);
+
+create policy "Shared conversations can be inserted"
+  on shared_conversations for insert
+  with check (true);
@@ -0,0 +1,13 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    include: ["src/**/*.test.ts", "scripts/**/*.test.ts"],
+    // Clients Supabase et Anthropic créés à l'import des modules serveur : jamais appelés par les tests
+    env: { SUPABASE_URL: "http://localhost:54321", SUPABASE_KEY: "test", ANTHROPIC_API_KEY: "test" },
+  },
+});